@@ -0,0 +1,262 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * BOOKING CALENDAR COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * The manager's view of a restaurant's bookings over time:
+ * - BookingCalendar: Week grid or month calendar with the covers per day
+ * - DaySheet: One day's bookings grouped by time slot, with quick actions
+ * - shiftCalendarDate / getCalendarTitle: Toolbar helpers for the shown period
+ *
+ * The month view is built on the Calendar UI component (react-day-picker).
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { Check, X, CheckCheck, Users } from 'lucide-react';
+import { bookingService, Booking, BookingStatus, BOOKING_SOURCE_LABELS } from '../services/booking.service';
+import { timeSlotService } from '../services/time-slot.service';
+import { Button, buttonVariants } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { cn } from './ui/utils';
+import { BookingStatusBadge } from './BookingStatus';
+import { BookingPreferenceBadges } from './BookingPreferences';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+// Dot colours per status in the week grid
+const STATUS_DOT_CLASSES: Record<BookingStatus, string> = {
+  'pending-payment': 'bg-orange-500',
+  pending: 'bg-yellow-500',
+  confirmed: 'bg-blue-500',
+  seated: 'bg-purple-500',
+  completed: 'bg-green-500',
+  cancelled: 'bg-red-500',
+  'no-show': 'bg-gray-500'
+};
+
+// Reason stored when a booking request is rejected with one click
+const REJECT_REASON = 'Declined by the restaurant';
+
+/**
+ * The seven dates (Sunday first) of the week a date falls in
+ */
+const getWeekDates = (date: string): string[] => {
+  const current = timeSlotService.parseDate(date);
+  return Array.from({ length: 7 }, (_, i) => timeSlotService.toDateString(
+    new Date(current.getFullYear(), current.getMonth(), current.getDate() - current.getDay() + i)
+  ));
+};
+
+/**
+ * Move a date one day, week or month back (-1) or forward (1)
+ */
+export const shiftCalendarDate = (date: string, view: CalendarView, direction: 1 | -1): string => {
+  const current = timeSlotService.parseDate(date);
+  if (view === 'month') {
+    return timeSlotService.toDateString(new Date(current.getFullYear(), current.getMonth() + direction, 1));
+  }
+  current.setDate(current.getDate() + direction * (view === 'week' ? 7 : 1));
+  return timeSlotService.toDateString(current);
+};
+
+/**
+ * Heading for the shown day, week or month
+ */
+export const getCalendarTitle = (date: string, view: CalendarView): string => {
+  const current = timeSlotService.parseDate(date);
+  if (view === 'month') {
+    return current.toLocaleDateString([], { month: 'long', year: 'numeric' });
+  }
+  if (view === 'week') {
+    const week = getWeekDates(date);
+    const [first, last] = [week[0], week[6]].map(day => timeSlotService.parseDate(day));
+    return `${first.toLocaleDateString([], { day: 'numeric', month: 'short' })} – ${last.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' })}`;
+  }
+  return current.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+interface BookingCalendarProps {
+  bookings: Booking[];           // Bookings to show (already filtered)
+  view: 'week' | 'month';        // Layout
+  date: string;                  // Any date in the shown week or month (YYYY-MM-DD)
+  onSelectDate: (date: string) => void; // Called when a day is picked
+  onOpenBooking: (booking: Booking) => void; // Called when a booking is clicked
+}
+
+/**
+ * BookingCalendar Component
+ *
+ * Week: one column per day listing its bookings. Month: a calendar with the
+ * number of bookings and covers on each day
+ */
+export function BookingCalendar({ bookings, view, date, onSelectDate, onOpenBooking }: BookingCalendarProps) {
+  const bookingsOn = (day: string) => bookingService.getDaySheet(bookings, day).flatMap(slot => slot.bookings);
+  const today = timeSlotService.toDateString(new Date());
+
+  if (view === 'month') {
+    return (
+      <Calendar
+        mode="single"
+        selected={timeSlotService.parseDate(date)}
+        onSelect={(day) => day && onSelectDate(timeSlotService.toDateString(day))}
+        month={timeSlotService.parseDate(date)}
+        disableNavigation
+        className="p-0"
+        classNames={{
+          months: 'w-full',
+          month: 'w-full space-y-2',
+          caption: 'hidden',
+          table: 'w-full border-collapse',
+          head_cell: 'flex-1 text-muted-foreground font-normal text-[0.8rem]',
+          cell: 'flex-1 p-0.5 text-center text-sm',
+          day: cn(buttonVariants({ variant: 'ghost' }), 'h-16 w-full p-1 flex flex-col items-center justify-start gap-0.5 font-normal border border-border')
+        }}
+        formatters={{
+          formatDay: (day) => {
+            const dayBookings = bookingsOn(timeSlotService.toDateString(day));
+            return (
+              <>
+                <span>{day.getDate()}</span>
+                {dayBookings.length > 0 && (
+                  <span className="text-[0.7rem] leading-tight text-primary">
+                    {bookingService.getCovers(dayBookings)} covers
+                    <span className="hidden md:block text-muted-foreground">
+                      {dayBookings.length} booking{dayBookings.length === 1 ? '' : 's'}
+                    </span>
+                  </span>
+                )}
+              </>
+            );
+          }
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+      {getWeekDates(date).map((day) => {
+        const dayBookings = bookingsOn(day);
+        return (
+          <div
+            key={day}
+            className={`border rounded-lg p-2 min-h-32 ${day === today ? 'border-primary' : 'border-border'}`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelectDate(day)}
+              className="w-full text-left mb-2 hover:text-primary"
+            >
+              <p className="text-xs text-muted-foreground">
+                {timeSlotService.parseDate(day).toLocaleDateString([], { weekday: 'short' })}
+              </p>
+              <p className="font-semibold">{timeSlotService.parseDate(day).getDate()}</p>
+              {dayBookings.length > 0 && (
+                <p className="text-xs text-primary">{bookingService.getCovers(dayBookings)} covers</p>
+              )}
+            </button>
+            <div className="space-y-1">
+              {dayBookings.map((booking) => (
+                <button
+                  key={booking.id}
+                  type="button"
+                  onClick={() => onOpenBooking(booking)}
+                  className="w-full text-left text-xs rounded px-1.5 py-1 bg-muted/50 hover:bg-muted flex items-center gap-1.5"
+                >
+                  <span className={`h-2 w-2 rounded-full flex-shrink-0 ${STATUS_DOT_CLASSES[booking.status]}`} />
+                  <span className="truncate">
+                    {booking.timeSlot.split('-')[0].trim()} {booking.customerName} ({booking.seats})
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface DaySheetProps {
+  bookings: Booking[];           // Bookings to show (already filtered)
+  date: string;                  // Day to list (YYYY-MM-DD)
+  onStatusChange: (booking: Booking, status: BookingStatus, reason?: string) => void; // Quick actions
+  onOpenBooking: (booking: Booking) => void; // Called when a booking is clicked
+}
+
+/**
+ * DaySheet Component
+ *
+ * The day's bookings by time slot with covers per slot, and one-click
+ * confirm, reject and complete
+ */
+export function DaySheet({ bookings, date, onStatusChange, onOpenBooking }: DaySheetProps) {
+  const slots = bookingService.getDaySheet(bookings, date);
+
+  if (slots.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No bookings on this day</p>;
+  }
+
+  const totalCovers = slots.reduce((sum, slot) => sum + slot.covers, 0);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {slots.length} time slot{slots.length === 1 ? '' : 's'} • {totalCovers} covers
+      </p>
+      {slots.map((slot) => (
+        <div key={slot.timeSlot} className="border border-border rounded-lg">
+          <div className="flex items-center justify-between px-4 py-2 bg-muted/50 rounded-t-lg">
+            <h4 className="font-semibold">{slot.timeSlot}</h4>
+            <span className="flex items-center gap-1 text-sm">
+              <Users className="h-4 w-4 text-primary" />
+              {slot.covers} covers
+            </span>
+          </div>
+          <div className="divide-y divide-border">
+            {slot.bookings.map((booking) => (
+              <div key={booking.id} className="flex items-center justify-between gap-4 px-4 py-3 flex-wrap">
+                <button type="button" onClick={() => onOpenBooking(booking)} className="text-left space-y-1 min-w-0">
+                  <p className="font-medium hover:text-primary">
+                    {booking.customerName} • {booking.seats} guests
+                    {booking.source && booking.source !== 'online' && (
+                      <span className="text-sm font-normal text-muted-foreground"> • {BOOKING_SOURCE_LABELS[booking.source]}</span>
+                    )}
+                  </p>
+                  <BookingPreferenceBadges booking={booking} />
+                </button>
+                <div className="flex items-center gap-2">
+                  <BookingStatusBadge status={booking.status} />
+                  {booking.status === 'pending' && (
+                    <>
+                      <Button size="sm" onClick={() => onStatusChange(booking, 'confirmed')} className="gap-1">
+                        <Check className="h-4 w-4" />
+                        Confirm
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => onStatusChange(booking, 'cancelled', REJECT_REASON)}
+                        className="gap-1"
+                      >
+                        <X className="h-4 w-4" />
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                  {bookingService.canTransition(booking.status, 'completed') && bookingService.hasStarted(booking) && (
+                    <Button size="sm" variant="outline" onClick={() => onStatusChange(booking, 'completed')} className="gap-1">
+                      <CheckCheck className="h-4 w-4" />
+                      Complete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
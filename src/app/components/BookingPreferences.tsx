@@ -0,0 +1,212 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * BOOKING PREFERENCE COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Occasion, dietary restrictions, accessibility needs and seating preference
+ * of a booking:
+ * - BookingPreferenceFields: Form fields for the booking form
+ * - BookingPreferenceBadges: Compact badges for booking lists
+ * - BookingPreferenceFilters: Filter selects for the manager's booking list
+ *
+ * CHANGEABLE SETTINGS:
+ * - Badge colours per kind of preference (PREFERENCE_BADGE_CLASSES)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { Cake, Leaf, Accessibility, Armchair } from 'lucide-react';
+import {
+  BookingPreferences,
+  BookingPreferenceFilter,
+  DietaryRestriction,
+  AccessibilityNeed,
+  OCCASION_LABELS,
+  DIETARY_LABELS,
+  ACCESSIBILITY_LABELS,
+  SEATING_LABELS
+} from '../services/booking.service';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+
+// CHANGEABLE: Badge colours per kind of preference
+const PREFERENCE_BADGE_CLASSES = {
+  occasion: 'bg-pink-500/10 text-pink-500 border-pink-500/20',
+  dietary: 'bg-green-500/10 text-green-500 border-green-500/20',
+  accessibility: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  seating: 'bg-amber-500/10 text-amber-500 border-amber-500/20'
+};
+
+const SELECT_CLASS = 'w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md';
+
+/**
+ * Add or remove a value from a multi-choice preference
+ */
+const toggle = <T extends string>(values: T[] | undefined, value: T, checked: boolean): T[] | undefined => {
+  const next = checked
+    ? [...(values ?? []), value]
+    : (values ?? []).filter(v => v !== value);
+  return next.length > 0 ? next : undefined;
+};
+
+interface BookingPreferenceFieldsProps {
+  value: BookingPreferences;     // Current preferences
+  onChange: (value: BookingPreferences) => void; // Called with the new preferences
+}
+
+/**
+ * BookingPreferenceFields Component
+ *
+ * Selects for occasion and seating, checkboxes for dietary and
+ * accessibility needs (all optional)
+ */
+export function BookingPreferenceFields({ value, onChange }: BookingPreferenceFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Occasion (Optional)</Label>
+          <select
+            value={value.occasion ?? ''}
+            onChange={(e) => onChange({ ...value, occasion: (e.target.value || undefined) as BookingPreferences['occasion'] })}
+            className={SELECT_CLASS}
+          >
+            <option value="">None</option>
+            {Object.entries(OCCASION_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label>Seating (Optional)</Label>
+          <select
+            value={value.seatingPreference ?? ''}
+            onChange={(e) => onChange({ ...value, seatingPreference: (e.target.value || undefined) as BookingPreferences['seatingPreference'] })}
+            className={SELECT_CLASS}
+          >
+            <option value="">No preference</option>
+            {Object.entries(SEATING_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <Label>Dietary Restrictions</Label>
+        <div className="grid grid-cols-2 gap-2 mt-1.5">
+          {(Object.keys(DIETARY_LABELS) as DietaryRestriction[]).map((key) => (
+            <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={value.dietaryRestrictions?.includes(key) ?? false}
+                onCheckedChange={(checked) => onChange({
+                  ...value,
+                  dietaryRestrictions: toggle(value.dietaryRestrictions, key, checked === true)
+                })}
+              />
+              {DIETARY_LABELS[key]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label>Accessibility Needs</Label>
+        <div className="grid grid-cols-2 gap-2 mt-1.5">
+          {(Object.keys(ACCESSIBILITY_LABELS) as AccessibilityNeed[]).map((key) => (
+            <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={value.accessibilityNeeds?.includes(key) ?? false}
+                onCheckedChange={(checked) => onChange({
+                  ...value,
+                  accessibilityNeeds: toggle(value.accessibilityNeeds, key, checked === true)
+                })}
+              />
+              {ACCESSIBILITY_LABELS[key]}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * BookingPreferenceBadges Component
+ *
+ * One badge per preference; renders nothing for bookings without any
+ */
+export function BookingPreferenceBadges({ booking, className = '' }: { booking: BookingPreferences; className?: string }) {
+  const { occasion, dietaryRestrictions = [], accessibilityNeeds = [], seatingPreference } = booking;
+
+  if (!occasion && !seatingPreference && dietaryRestrictions.length === 0 && accessibilityNeeds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {occasion && (
+        <Badge className={`${PREFERENCE_BADGE_CLASSES.occasion} border`}>
+          <Cake />
+          {OCCASION_LABELS[occasion]}
+        </Badge>
+      )}
+      {dietaryRestrictions.map((restriction) => (
+        <Badge key={restriction} className={`${PREFERENCE_BADGE_CLASSES.dietary} border`}>
+          <Leaf />
+          {DIETARY_LABELS[restriction]}
+        </Badge>
+      ))}
+      {accessibilityNeeds.map((need) => (
+        <Badge key={need} className={`${PREFERENCE_BADGE_CLASSES.accessibility} border`}>
+          <Accessibility />
+          {ACCESSIBILITY_LABELS[need]}
+        </Badge>
+      ))}
+      {seatingPreference && (
+        <Badge className={`${PREFERENCE_BADGE_CLASSES.seating} border`}>
+          <Armchair />
+          {SEATING_LABELS[seatingPreference]}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+interface BookingPreferenceFiltersProps {
+  value: BookingPreferenceFilter; // Current filter
+  onChange: (value: BookingPreferenceFilter) => void; // Called with the new filter
+}
+
+/**
+ * BookingPreferenceFilters Component
+ *
+ * One select per kind of preference ("Any" leaves it out of the filter)
+ */
+export function BookingPreferenceFilters({ value, onChange }: BookingPreferenceFiltersProps) {
+  const filters: { key: keyof BookingPreferenceFilter; label: string; options: Record<string, string> }[] = [
+    { key: 'occasion', label: 'Any occasion', options: OCCASION_LABELS },
+    { key: 'dietaryRestriction', label: 'Any diet', options: DIETARY_LABELS },
+    { key: 'accessibilityNeed', label: 'Any accessibility', options: ACCESSIBILITY_LABELS },
+    { key: 'seatingPreference', label: 'Any seating', options: SEATING_LABELS }
+  ];
+
+  return (
+    <div className="flex gap-2 flex-wrap">
+      {filters.map(({ key, label, options }) => (
+        <select
+          key={key}
+          value={value[key] ?? ''}
+          onChange={(e) => onChange({ ...value, [key]: e.target.value || undefined })}
+          className="h-9 px-3 text-sm bg-input-background border border-input rounded-md"
+        >
+          <option value="">{label}</option>
+          {Object.entries(options).map(([option, optionLabel]) => (
+            <option key={option} value={option}>{optionLabel}</option>
+          ))}
+        </select>
+      ))}
+    </div>
+  );
+}
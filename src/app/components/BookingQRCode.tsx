@@ -0,0 +1,62 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * BOOKING QR CODE COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shows the check-in QR code of a confirmed booking. The restaurant scans it
+ * when the party arrives (see CheckInDialog). The reference code underneath
+ * can be read out instead if scanning doesn't work.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Loader2 } from 'lucide-react';
+import { Booking } from '../services/booking.service';
+import { checkInService } from '../services/check-in.service';
+
+/**
+ * BookingQRCode Component
+ *
+ * Loads the booking's check-in code and draws it as a QR code
+ */
+export function BookingQRCode({ booking }: { booking: Booking }) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageUrl(null);
+    setError(null);
+
+    checkInService.getCheckInCode(booking.id)
+      .then(code => QRCode.toDataURL(code, { width: 240, margin: 1 }))
+      .then(url => !cancelled && setImageUrl(url))
+      .catch((err: any) => !cancelled && setError(err.message || 'Failed to load the check-in code'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {imageUrl ? (
+        <img src={imageUrl} alt="Check-in QR code" className="w-48 h-48 rounded-md bg-white p-2" />
+      ) : (
+        <div className="w-48 h-48 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground text-center">
+        Show this code when you arrive
+        {booking.referenceCode && <> or give your reference <span className="font-mono">{booking.referenceCode}</span></>}
+      </p>
+    </div>
+  );
+}
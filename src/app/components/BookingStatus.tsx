@@ -0,0 +1,121 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * BOOKING STATUS COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shared by the customer and manager dashboards:
+ * - BookingStatusBadge: Coloured badge for a booking status
+ * - BookingStatusHistory: Timeline of status changes (who, when, why)
+ * - CustomerReliabilityBadge: Customer's reliability score (manager views)
+ *
+ * CHANGEABLE SETTINGS:
+ * - Badge colours per status (STATUS_BADGE_CLASSES)
+ * - Score bands for the reliability badge (80+ good, 50+ fair)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { Badge } from './ui/badge';
+import {
+  Booking,
+  BookingStatus,
+  CustomerRecord,
+  BOOKING_STATUS_LABELS
+} from '../services/booking.service';
+
+// CHANGEABLE: Badge colours per status
+const STATUS_BADGE_CLASSES: Record<BookingStatus, string> = {
+  'pending-payment': 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  confirmed: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  seated: 'bg-purple-500/10 text-purple-500 border-purple-500/20',
+  completed: 'bg-green-500/10 text-green-500 border-green-500/20',
+  cancelled: 'bg-red-500/10 text-red-500 border-red-500/20',
+  'no-show': 'bg-gray-500/10 text-gray-500 border-gray-500/20'
+};
+
+/**
+ * BookingStatusBadge Component
+ *
+ * Displays a booking status as a coloured badge
+ */
+export function BookingStatusBadge({ status }: { status: BookingStatus }) {
+  return (
+    <Badge className={`${STATUS_BADGE_CLASSES[status] || ''} border`}>
+      {BOOKING_STATUS_LABELS[status] || status}
+    </Badge>
+  );
+}
+
+/**
+ * BookingStatusHistory Component
+ *
+ * Lists every status change of a booking, oldest first
+ */
+export function BookingStatusHistory({ booking }: { booking: Booking }) {
+  const history = booking.statusHistory ?? [];
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded</p>;
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-border pl-4">
+      {history.map((change, index) => (
+        <li key={index} className="relative">
+          <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+          <div className="flex items-center gap-2 flex-wrap">
+            {change.from && (
+              <>
+                <BookingStatusBadge status={change.from} />
+                <span className="text-muted-foreground">→</span>
+              </>
+            )}
+            <BookingStatusBadge status={change.to} />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {new Date(change.changedAt).toLocaleString()} by {change.changedBy.name}
+            {change.changedBy.role !== 'system' && ` (${change.changedBy.role})`}
+          </p>
+          {change.reason && <p className="text-sm mt-0.5">{change.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * CustomerReliabilityBadge Component
+ *
+ * Shows a customer's reliability score with the counts behind it
+ */
+export function CustomerReliabilityBadge({ record }: { record?: CustomerRecord }) {
+  if (!record) {
+    return null;
+  }
+
+  if (record.reliabilityScore === null) {
+    return <Badge variant="outline">New customer</Badge>;
+  }
+
+  // CHANGEABLE: Score bands
+  const score = record.reliabilityScore;
+  const colour = score >= 80
+    ? 'text-green-500 border-green-500/20'
+    : score >= 50
+      ? 'text-yellow-500 border-yellow-500/20'
+      : 'text-red-500 border-red-500/20';
+
+  return (
+    <Badge
+      variant="outline"
+      className={colour}
+      title={`${record.completed} completed, ${record.cancellations} cancelled, ` +
+        `${record.lateCancellations} late cancellations, ${record.noShows} no-shows`}
+    >
+      Reliability {score}%
+      {record.noShows > 0 && ` · ${record.noShows} no-show${record.noShows === 1 ? '' : 's'}`}
+      {record.lateCancellations > 0 && ` · ${record.lateCancellations} late`}
+    </Badge>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHECK-IN DIALOG COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Manager screen for arriving guests:
+ * - Scans the guest's QR code with the device camera (browsers with the
+ *   BarcodeDetector API, e.g. Chrome on Android)
+ * - Or accepts the check-in code / reference code typed in
+ *
+ * A valid code seats the booking. The dialog stays open for the next guest.
+ *
+ * CHANGEABLE SETTINGS:
+ * - How often the camera image is checked for a QR code (SCAN_INTERVAL_MS)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { Camera, Loader2 } from 'lucide-react';
+import { Booking } from '../services/booking.service';
+import { checkInService } from '../services/check-in.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from 'sonner';
+
+interface CheckInDialogProps {
+  open: boolean;                 // Whether the dialog is shown
+  restaurantId: string;          // Restaurant doing the check-in
+  onClose: () => void;           // Called when the dialog is dismissed
+  onCheckedIn: (booking: Booking) => void; // Called after a party was seated
+}
+
+// CHANGEABLE: Milliseconds between two scans of the camera image
+const SCAN_INTERVAL_MS = 500;
+
+// The parts of the BarcodeDetector API used here (not in the DOM typings yet)
+interface BarcodeDetector {
+  detect(image: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+interface BarcodeDetectorWindow extends Window {
+  BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetector;
+}
+
+/**
+ * CheckInDialog Component
+ *
+ * Camera scanner plus manual code entry
+ */
+export function CheckInDialog({ open, restaurantId, onClose, onCheckedIn }: CheckInDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const busyRef = useRef(false);
+  const lastCodeRef = useRef('');
+
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [checkingIn, setCheckingIn] = useState(false);
+
+  const scanningSupported = typeof window !== 'undefined' && 'BarcodeDetector' in window;
+
+  /**
+   * Check in a code and seat its booking
+   * @returns Whether the check-in went through
+   */
+  const submitCode = async (code: string): Promise<boolean> => {
+    if (busyRef.current) return false;
+
+    busyRef.current = true;
+    setCheckingIn(true);
+    try {
+      const booking = await checkInService.checkIn(code, restaurantId);
+      toast.success(`${booking.customerName} checked in`, {
+        description: `Party of ${booking.seats} • ${booking.timeSlot}`
+      });
+      setManualCode('');
+      onCheckedIn(booking);
+      return true;
+    } catch (error: any) {
+      // A failing code stays in view of the camera; show its error only once
+      toast.error(error.message || 'Check-in failed', { id: 'check-in-error' });
+      return false;
+    } finally {
+      busyRef.current = false;
+      setCheckingIn(false);
+    }
+  };
+
+  // Camera: look for a QR code every SCAN_INTERVAL_MS while the camera is on
+  useEffect(() => {
+    const Detector = (window as BarcodeDetectorWindow).BarcodeDetector;
+    if (!open || !cameraOn || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new Detector({ formats: ['qr_code'] });
+        timer = setInterval(async () => {
+          if (busyRef.current || !videoRef.current) return;
+
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          const code = codes[0]?.rawValue;
+          // The same code stays in view for a while; once it is checked in,
+          // ignore it. A code that failed is tried again on the next scan.
+          if (code && code !== lastCodeRef.current && await submitCode(code)) {
+            lastCodeRef.current = code;
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error: any) {
+        setCameraError(error.name === 'NotAllowedError'
+          ? 'Camera access was denied. Type the code instead.'
+          : 'The camera could not be started. Type the code instead.');
+        setCameraOn(false);
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open, cameraOn, restaurantId]);
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setCameraError(null);
+      setManualCode('');
+      lastCodeRef.current = '';
+    } else {
+      setCameraOn(false);
+    }
+  }, [open]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) {
+      submitCode(manualCode);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Check In Guests</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {scanningSupported ? (
+            cameraOn ? (
+              <div className="space-y-2">
+                <video ref={videoRef} className="w-full rounded-md bg-black" muted playsInline />
+                <Button variant="outline" onClick={() => setCameraOn(false)} className="w-full">
+                  Stop Camera
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={() => setCameraOn(true)} className="w-full gap-2">
+                <Camera className="h-4 w-4" />
+                Scan QR Code
+              </Button>
+            )
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              QR scanning isn't supported in this browser. Type the code instead.
+            </p>
+          )}
+          {cameraError && <p className="text-sm text-destructive">{cameraError}</p>}
+
+          <form onSubmit={handleManualSubmit} className="space-y-2">
+            <Label htmlFor="checkInCode">Check-in or reference code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="checkInCode"
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="RX-7K3Q"
+              />
+              <Button type="submit" disabled={checkingIn || !manualCode.trim()}>
+                {checkingIn ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Check In'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEPOSIT PAYMENT COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Deposits for large parties and peak slots:
+ * - DepositPaymentDialog: Pays the deposit of a booking that is awaiting it
+ * - DepositSummary: Amount, payment state and refund of a booking's deposit
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect } from 'react';
+import { CreditCard, Loader2 } from 'lucide-react';
+import {
+  bookingService,
+  Booking,
+  BookingDeposit,
+  DepositStatus
+} from '../services/booking.service';
+import { paymentService, DECLINED_CARD_SUFFIX } from '../services/payment.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from 'sonner';
+
+/**
+ * Display labels for deposit states
+ */
+const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  due: 'Not paid yet',
+  paid: 'Paid',
+  refunded: 'Refunded',
+  forfeited: 'Kept by the restaurant',
+  released: 'Not paid'
+};
+
+/**
+ * Format an amount in BDT
+ */
+const formatTaka = (amount: number) => `৳${amount.toLocaleString()}`;
+
+interface DepositPaymentDialogProps {
+  booking: Booking | null;       // Booking to pay for (dialog is closed when null)
+  onClose: () => void;           // Called when the dialog is dismissed
+  onPaid: (booking: Booking) => void; // Called with the booking after the payment
+}
+
+/**
+ * DepositPaymentDialog Component
+ *
+ * Card form of the payment provider; providers with their own payment
+ * page are opened instead
+ */
+export function DepositPaymentDialog({ booking, onClose, onPaid }: DepositPaymentDialogProps) {
+  const [cardNumber, setCardNumber] = useState('');
+  const [cardHolder, setCardHolder] = useState('');
+  const [expiry, setExpiry] = useState('');
+  const [paying, setPaying] = useState(false);
+
+  const provider = paymentService.getProvider();
+
+  useEffect(() => {
+    if (booking) {
+      setCardNumber('');
+      setCardHolder(booking.customerName);
+      setExpiry('');
+    }
+  }, [booking]);
+
+  if (!booking?.deposit) {
+    return null;
+  }
+
+  const deposit = booking.deposit;
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPaying(true);
+    try {
+      const result = await bookingService.payDeposit(booking.id, { cardNumber, cardHolder, expiry }, provider.id);
+      if (result.redirectUrl) {
+        window.location.href = result.redirectUrl;
+        return;
+      }
+
+      toast.success('Deposit paid', {
+        description: result.booking.status === 'confirmed'
+          ? 'Your booking is confirmed'
+          : 'The restaurant will confirm your booking shortly'
+      });
+      onPaid(result.booking);
+    } catch (error: any) {
+      toast.error(error.message || 'Payment failed');
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay Deposit</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-primary/10 border border-primary/20 rounded-lg p-4 text-sm space-y-1">
+            <div className="flex justify-between font-semibold">
+              <span>{booking.restaurant?.name}</span>
+              <span>{formatTaka(deposit.amount)}</span>
+            </div>
+            <p className="text-muted-foreground">
+              {new Date(booking.date).toLocaleDateString()} • {booking.timeSlot} • {booking.seats} guests
+            </p>
+            <p className="text-muted-foreground">{deposit.reason}</p>
+            <p className="text-muted-foreground">
+              Pay by {new Date(deposit.dueBy).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} or
+              the table is released.
+            </p>
+          </div>
+
+          <form onSubmit={handlePay} className="space-y-4">
+            {provider.collectsCardDetails && (
+              <>
+                <div>
+                  <Label htmlFor="cardNumber">Card Number</Label>
+                  <Input
+                    id="cardNumber"
+                    value={cardNumber}
+                    onChange={(e) => setCardNumber(e.target.value)}
+                    placeholder="4242 4242 4242 4242"
+                    inputMode="numeric"
+                    autoComplete="cc-number"
+                    required
+                    className="mt-1.5"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="cardHolder">Name on Card</Label>
+                    <Input
+                      id="cardHolder"
+                      value={cardHolder}
+                      onChange={(e) => setCardHolder(e.target.value)}
+                      autoComplete="cc-name"
+                      required
+                      className="mt-1.5"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="expiry">Expiry</Label>
+                    <Input
+                      id="expiry"
+                      value={expiry}
+                      onChange={(e) => setExpiry(e.target.value)}
+                      placeholder="MM/YY"
+                      autoComplete="cc-exp"
+                      required
+                      className="mt-1.5"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {provider.id === 'demo' && (
+              <p className="text-xs text-muted-foreground">
+                Demo payment: no money is taken. Any card number works; cards ending in {DECLINED_CARD_SUFFIX} are declined.
+              </p>
+            )}
+
+            <Button type="submit" disabled={paying} className="w-full gap-2">
+              {paying ? <Loader2 className="w-4 h-4 animate-spin" /> : <CreditCard className="h-4 w-4" />}
+              Pay {formatTaka(deposit.amount)} with {provider.name}
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * DepositSummary Component
+ *
+ * Shows what happened to a booking's deposit
+ */
+export function DepositSummary({ deposit }: { deposit: BookingDeposit }) {
+  return (
+    <div className="text-sm space-y-1">
+      <div className="flex justify-between">
+        <span>Deposit ({deposit.reason.toLowerCase()})</span>
+        <span className="font-semibold">{formatTaka(deposit.amount)}</span>
+      </div>
+      <p className="text-muted-foreground">
+        {DEPOSIT_STATUS_LABELS[deposit.status]}
+        {deposit.status === 'paid' && deposit.paidAt && ` on ${new Date(deposit.paidAt).toLocaleString()}`}
+        {deposit.status === 'refunded' && deposit.refundedAmount !== undefined &&
+          `: ${formatTaka(deposit.refundedAmount)} paid back`}
+        {deposit.status === 'due' && ` (due by ${new Date(deposit.dueBy).toLocaleString()})`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,552 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FLOOR PLAN COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * A restaurant's dining room, drawn with react-dnd:
+ * - FloorPlanEditor: Drag tables from the palette onto the room, move them,
+ *   set shape, capacity and zone, and save the layout
+ * - LiveFloorPlan: The same room on service day, with every table's status
+ *   in the chosen slot; drag a booking onto a table to seat it there
+ *
+ * Both need a react-dnd DndProvider above them (see FloorPlanPage).
+ *
+ * CHANGEABLE SETTINGS:
+ * - Zone colours (ZONE_COLORS) and table status colours (TABLE_STATUS_CLASSES)
+ * - Seats a new table starts with per shape (NEW_TABLE_CAPACITY)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useRef, useState, useEffect } from 'react';
+import { useDrag, useDrop, DropTargetMonitor } from 'react-dnd';
+import { Loader2, Save, Trash2, Undo2 } from 'lucide-react';
+import { Table, TableShape } from '../services/restaurant.service';
+import {
+  tableService,
+  TableState,
+  TableStatus,
+  placeTables,
+  FLOOR_PLAN_WIDTH,
+  FLOOR_PLAN_HEIGHT,
+  FLOOR_PLAN_GRID,
+  TABLE_SHAPE_SIZES
+} from '../services/table.service';
+import { Booking } from '../services/booking.service';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { BookingStatusBadge } from './BookingStatus';
+import { toast } from 'sonner';
+
+// Drag item types
+const ItemTypes = {
+  NEW_TABLE: 'new-table',        // Shape dragged from the palette
+  TABLE: 'floor-table',          // Table moved around the room
+  BOOKING: 'booking'             // Booking dragged onto a table
+};
+
+// CHANGEABLE: Colour of each zone, in the order zones first appear
+const ZONE_COLORS = [
+  'border-sky-500 bg-sky-500/10',
+  'border-emerald-500 bg-emerald-500/10',
+  'border-amber-500 bg-amber-500/10',
+  'border-fuchsia-500 bg-fuchsia-500/10',
+  'border-rose-500 bg-rose-500/10',
+  'border-teal-500 bg-teal-500/10'
+];
+
+// CHANGEABLE: Colours of the live table statuses
+const TABLE_STATUS_CLASSES: Record<TableStatus, string> = {
+  free: 'border-green-500 bg-green-500/10',
+  reserved: 'border-blue-500 bg-blue-500/20',
+  seated: 'border-purple-500 bg-purple-500/30'
+};
+
+const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  free: 'Free',
+  reserved: 'Reserved',
+  seated: 'Seated'
+};
+
+// CHANGEABLE: Seats a table starts with when dragged from the palette
+const NEW_TABLE_CAPACITY: Record<TableShape, number> = {
+  round: 2,
+  square: 4,
+  rectangle: 6
+};
+
+const SHAPE_LABELS: Record<TableShape, string> = {
+  round: 'Round',
+  square: 'Square',
+  rectangle: 'Rectangle'
+};
+
+const DEFAULT_ZONE = 'Main Hall';
+
+/**
+ * Snap a position to the grid and keep the table inside the room
+ */
+const snap = (value: number, max: number) =>
+  Math.min(Math.max(0, Math.round(value / FLOOR_PLAN_GRID) * FLOOR_PLAN_GRID), max);
+
+/**
+ * Top-left corner of a drop, relative to the room
+ */
+const getDropPosition = (monitor: DropTargetMonitor, room: HTMLDivElement | null, shape: TableShape) => {
+  const offset = monitor.getSourceClientOffset();
+  const rect = room?.getBoundingClientRect();
+  if (!offset || !rect) return null;
+
+  const size = TABLE_SHAPE_SIZES[shape];
+  return {
+    x: snap(offset.x - rect.left, FLOOR_PLAN_WIDTH - size.width),
+    y: snap(offset.y - rect.top, FLOOR_PLAN_HEIGHT - size.height)
+  };
+};
+
+/**
+ * Outline classes of a table shape
+ */
+const shapeClass = (shape: TableShape = 'square') => (shape === 'round' ? 'rounded-full' : 'rounded-md');
+
+/**
+ * ─────────────────────────────────────────────────────────────────────────
+ * TABLE ON THE FLOOR PLAN
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+interface FloorTableProps {
+  table: Table;                  // Table to draw (placed, see placeTables)
+  className: string;             // Colour classes
+  selected?: boolean;            // Highlighted in the editor
+  draggable?: boolean;           // Can be moved (editor)
+  onClick?: () => void;          // Called when the table is clicked
+  onDropBooking?: (bookingId: string) => void; // Called when a booking is dropped on it (live view)
+  children?: React.ReactNode;    // Extra text under the label
+}
+
+/**
+ * FloorTable Component
+ *
+ * One table, drawn at its position in its shape
+ */
+function FloorTable({ table, className, selected, draggable, onClick, onDropBooking, children }: FloorTableProps) {
+  const [{ isDragging }, drag] = useDrag(() => ({
+    type: ItemTypes.TABLE,
+    item: { id: table.id, shape: table.shape },
+    canDrag: !!draggable,
+    collect: (monitor) => ({ isDragging: monitor.isDragging() })
+  }), [table.id, table.shape, draggable]);
+
+  const [{ isOver }, drop] = useDrop(() => ({
+    accept: ItemTypes.BOOKING,
+    canDrop: () => !!onDropBooking,
+    drop: (item: { id: string }) => onDropBooking?.(item.id),
+    collect: (monitor) => ({ isOver: monitor.isOver() && monitor.canDrop() })
+  }), [onDropBooking]);
+
+  const size = TABLE_SHAPE_SIZES[table.shape ?? 'square'];
+
+  return (
+    <div
+      ref={(node) => { drag(drop(node)); }}
+      onClick={onClick}
+      style={{ left: table.x, top: table.y, width: size.width, height: size.height }}
+      className={`absolute border-2 flex flex-col items-center justify-center text-center text-xs leading-tight select-none
+        ${shapeClass(table.shape)} ${className}
+        ${draggable ? 'cursor-move' : onClick ? 'cursor-pointer' : ''}
+        ${selected || isOver ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}
+        ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <span className="font-semibold">{table.label}</span>
+      <span className="text-muted-foreground">{table.capacity} seats</span>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * ─────────────────────────────────────────────────────────────────────────
+ * FLOOR PLAN EDITOR
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+/**
+ * PaletteShape Component
+ *
+ * A table shape that can be dragged into the room
+ */
+function PaletteShape({ shape }: { shape: TableShape }) {
+  const [, drag] = useDrag(() => ({
+    type: ItemTypes.NEW_TABLE,
+    item: { shape }
+  }), [shape]);
+
+  const size = TABLE_SHAPE_SIZES[shape];
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div
+        ref={(node) => { drag(node); }}
+        style={{ width: size.width * 0.75, height: size.height * 0.75 }}
+        className={`border-2 border-dashed border-primary bg-primary/10 cursor-grab ${shapeClass(shape)}`}
+      />
+      <span className="text-xs text-muted-foreground">{SHAPE_LABELS[shape]}</span>
+    </div>
+  );
+}
+
+interface FloorPlanEditorProps {
+  restaurantId: string;          // Restaurant whose room is drawn
+  tables: Table[];               // Current layout
+  onSaved: (tables: Table[]) => void; // Called with the saved layout
+}
+
+/**
+ * FloorPlanEditor Component
+ *
+ * Palette, room and a form for the selected table. Nothing is stored until
+ * the layout is saved
+ */
+export function FloorPlanEditor({ restaurantId, tables: savedTables, onSaved }: FloorPlanEditorProps) {
+  const roomRef = useRef<HTMLDivElement | null>(null);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTables(placeTables(savedTables));
+    setSelectedId(null);
+    setDirty(false);
+  }, [savedTables]);
+
+  const zones = [...new Set(tables.map(t => t.zone))];
+  const zoneClass = (zone: string) => ZONE_COLORS[zones.indexOf(zone) % ZONE_COLORS.length];
+  const selected = tables.find(t => t.id === selectedId);
+
+  const updateTable = (id: string, changes: Partial<Table>) => {
+    setTables(prev => prev.map(t => (t.id === id ? { ...t, ...changes } : t)));
+    setDirty(true);
+  };
+
+  const addTable = (shape: TableShape, position: { x: number; y: number }) => {
+    const nextNumber = Math.max(0, ...tables.map(t => parseInt(t.label.replace(/\D/g, '')) || 0)) + 1;
+    const capacity = NEW_TABLE_CAPACITY[shape];
+    const table: Table = {
+      id: `table-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      restaurantId,
+      label: `T${nextNumber}`,
+      capacity,
+      minPartySize: capacity >= 6 ? Math.ceil(capacity / 2) : 1,
+      combinable: capacity <= 4,
+      zone: selected?.zone ?? zones[0] ?? DEFAULT_ZONE,
+      shape,
+      ...position
+    };
+    setTables(prev => [...prev, table]);
+    setSelectedId(table.id);
+    setDirty(true);
+  };
+
+  const [{ isOver }, drop] = useDrop(() => ({
+    accept: [ItemTypes.NEW_TABLE, ItemTypes.TABLE],
+    drop: (item: { id?: string; shape: TableShape }, monitor) => {
+      const position = getDropPosition(monitor, roomRef.current, item.shape ?? 'square');
+      if (!position) return;
+
+      if (item.id) {
+        updateTable(item.id, position);
+      } else {
+        addTable(item.shape, position);
+      }
+    },
+    collect: (monitor) => ({ isOver: monitor.isOver() })
+  }), [tables, selected]);
+
+  const handleDelete = () => {
+    if (!selected) return;
+    setTables(prev => prev.filter(t => t.id !== selected.id));
+    setSelectedId(null);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await tableService.saveFloorPlan(restaurantId, tables);
+      toast.success('Floor plan saved');
+      onSaved(saved);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save the floor plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Discard your changes to the floor plan?')) return;
+    setTables(placeTables(savedTables));
+    setSelectedId(null);
+    setDirty(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-end gap-6">
+          {(Object.keys(SHAPE_LABELS) as TableShape[]).map((shape) => (
+            <PaletteShape key={shape} shape={shape} />
+          ))}
+          <p className="text-sm text-muted-foreground max-w-xs">
+            Drag a shape into the room to add a table, drag tables to move them, click one to edit it.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleReset} disabled={!dirty || saving} className="gap-2">
+            <Undo2 className="h-4 w-4" />
+            Discard
+          </Button>
+          <Button onClick={handleSave} disabled={!dirty || saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save Floor Plan
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-4 flex-col xl:flex-row">
+        <div className="overflow-auto border border-border rounded-lg">
+          <div
+            ref={(node) => { roomRef.current = node; drop(node); }}
+            onClick={(e) => e.target === e.currentTarget && setSelectedId(null)}
+            style={{ width: FLOOR_PLAN_WIDTH, height: FLOOR_PLAN_HEIGHT }}
+            className={`relative ${isOver ? 'bg-primary/5' : 'bg-muted/20'}`}
+          >
+            {tables.map((table) => (
+              <FloorTable
+                key={table.id}
+                table={table}
+                className={zoneClass(table.zone)}
+                selected={table.id === selectedId}
+                draggable
+                onClick={() => setSelectedId(table.id)}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="xl:w-72 space-y-4">
+          <div>
+            <h4 className="font-semibold mb-2">Zones</h4>
+            <div className="space-y-1 text-sm">
+              {zones.map((zone) => {
+                const zoneTables = tables.filter(t => t.zone === zone);
+                return (
+                  <div key={zone} className="flex items-center gap-2">
+                    <span className={`h-3 w-3 rounded-sm border-2 ${zoneClass(zone)}`} />
+                    <span className="flex-1">{zone}</span>
+                    <span className="text-muted-foreground">
+                      {zoneTables.length} tables • {zoneTables.reduce((sum, t) => sum + t.capacity, 0)} seats
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {selected ? (
+            <div className="space-y-3 border border-border rounded-lg p-4">
+              <h4 className="font-semibold">Table {selected.label}</h4>
+              <div>
+                <Label>Label</Label>
+                <Input
+                  value={selected.label}
+                  onChange={(e) => updateTable(selected.id, { label: e.target.value })}
+                  className="mt-1.5"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>Seats</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={selected.capacity}
+                    onChange={(e) => updateTable(selected.id, { capacity: parseInt(e.target.value) || 1 })}
+                    className="mt-1.5"
+                  />
+                </div>
+                <div>
+                  <Label>Min. Party</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={selected.capacity}
+                    value={selected.minPartySize}
+                    onChange={(e) => updateTable(selected.id, { minPartySize: parseInt(e.target.value) || 1 })}
+                    className="mt-1.5"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Shape</Label>
+                <select
+                  value={selected.shape}
+                  onChange={(e) => {
+                    const shape = e.target.value as TableShape;
+                    const size = TABLE_SHAPE_SIZES[shape];
+                    // A wider shape must still fit inside the room
+                    updateTable(selected.id, {
+                      shape,
+                      x: Math.min(selected.x ?? 0, FLOOR_PLAN_WIDTH - size.width),
+                      y: Math.min(selected.y ?? 0, FLOOR_PLAN_HEIGHT - size.height)
+                    });
+                  }}
+                  className="w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md"
+                >
+                  {(Object.keys(SHAPE_LABELS) as TableShape[]).map((shape) => (
+                    <option key={shape} value={shape}>{SHAPE_LABELS[shape]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label>Zone</Label>
+                <Input
+                  value={selected.zone}
+                  onChange={(e) => updateTable(selected.id, { zone: e.target.value })}
+                  list="floor-plan-zones"
+                  placeholder="e.g. Rooftop"
+                  className="mt-1.5"
+                />
+                <datalist id="floor-plan-zones">
+                  {zones.map((zone) => <option key={zone} value={zone} />)}
+                </datalist>
+              </div>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selected.combinable}
+                  onCheckedChange={(checked) => updateTable(selected.id, { combinable: checked === true })}
+                />
+                Can be pushed together with other tables in its zone
+              </label>
+              <Button variant="destructive" size="sm" onClick={handleDelete} className="w-full gap-2">
+                <Trash2 className="h-4 w-4" />
+                Remove Table
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {tables.length} tables • {tables.reduce((sum, t) => sum + t.capacity, 0)} seats.
+              Select a table to change it.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * ─────────────────────────────────────────────────────────────────────────
+ * LIVE FLOOR PLAN
+ * ─────────────────────────────────────────────────────────────────────────
+ */
+
+/**
+ * SlotBooking Component
+ *
+ * A booking of the slot that can be dragged onto a table
+ */
+function SlotBooking({ booking, tableLabels }: { booking: Booking; tableLabels: string }) {
+  const [{ isDragging }, drag] = useDrag(() => ({
+    type: ItemTypes.BOOKING,
+    item: { id: booking.id },
+    collect: (monitor) => ({ isDragging: monitor.isDragging() })
+  }), [booking.id]);
+
+  return (
+    <div
+      ref={(node) => { drag(node); }}
+      className={`border border-border rounded-lg p-3 text-sm cursor-grab bg-card ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium truncate">{booking.customerName}</span>
+        <BookingStatusBadge status={booking.status} />
+      </div>
+      <p className="text-muted-foreground mt-1">
+        {booking.seats} guests • {booking.timeSlot} • {tableLabels || 'No table'}
+      </p>
+    </div>
+  );
+}
+
+interface LiveFloorPlanProps {
+  tables: Table[];               // Restaurant's layout
+  states: Record<string, TableState>; // Status of each table in the slot (see getTableStates)
+  bookings: Booking[];           // Bookings of the slot that hold a table
+  onAssign: (bookingId: string, tableId: string) => void; // Called when a booking is dropped on a table
+}
+
+/**
+ * LiveFloorPlan Component
+ *
+ * Tables coloured by status, with the slot's bookings next to the room
+ */
+export function LiveFloorPlan({ tables, states, bookings, onAssign }: LiveFloorPlanProps) {
+  const placed = placeTables(tables);
+  const labelsOf = (booking: Booking) => placed
+    .filter(t => states[t.id]?.booking?.id === booking.id)
+    .map(t => t.label)
+    .join(' + ');
+
+  return (
+    <div className="flex gap-4 flex-col xl:flex-row">
+      <div className="space-y-2">
+        <div className="flex gap-4 text-sm">
+          {(Object.keys(TABLE_STATUS_LABELS) as TableStatus[]).map((status) => (
+            <span key={status} className="flex items-center gap-2">
+              <span className={`h-3 w-3 rounded-sm border-2 ${TABLE_STATUS_CLASSES[status]}`} />
+              {TABLE_STATUS_LABELS[status]} ({placed.filter(t => (states[t.id]?.status ?? 'free') === status).length})
+            </span>
+          ))}
+        </div>
+        <div className="overflow-auto border border-border rounded-lg">
+          <div style={{ width: FLOOR_PLAN_WIDTH, height: FLOOR_PLAN_HEIGHT }} className="relative">
+            {placed.map((table) => {
+              const state = states[table.id];
+              return (
+                <FloorTable
+                  key={table.id}
+                  table={table}
+                  className={TABLE_STATUS_CLASSES[state?.status ?? 'free']}
+                  onDropBooking={(bookingId) => onAssign(bookingId, table.id)}
+                >
+                  {state?.booking && (
+                    <span className="truncate max-w-full px-1">{state.booking.customerName.split(' ')[0]}</span>
+                  )}
+                </FloorTable>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="xl:w-72 space-y-2">
+        <h4 className="font-semibold">Bookings in this slot</h4>
+        {bookings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bookings in this slot</p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">Drag a booking onto a table to seat the party there.</p>
+            {bookings.map((booking) => (
+              <SlotBooking key={booking.id} booking={booking} tableLabels={labelsOf(booking)} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * HOST BOOKING DIALOG COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Quick entry for hosts at the front desk:
+ * - Phone: books a date and slot for a guest on the phone (confirmed)
+ * - Walk-in: seats a party that just arrived in the slot being served
+ *
+ * Only the name, phone, party size and slot are asked for. The free tables
+ * of the chosen slot are shown while typing.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect } from 'react';
+import { Loader2, Phone, DoorOpen } from 'lucide-react';
+import { restaurantService, Restaurant, SlotAvailability } from '../services/restaurant.service';
+import { bookingService, Booking, HostBookingData, BOOKING_SOURCE_LABELS } from '../services/booking.service';
+import { timeSlotService } from '../services/time-slot.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from 'sonner';
+
+interface HostBookingDialogProps {
+  open: boolean;                 // Whether the dialog is shown
+  restaurant: Restaurant | undefined; // Restaurant taking the booking
+  onClose: () => void;           // Called when the dialog is dismissed
+  onCreated: (booking: Booking) => void; // Called after a booking was made
+}
+
+const EMPTY_GUEST = { customerName: '', customerPhone: '', seats: 2 };
+
+/**
+ * HostBookingDialog Component
+ *
+ * Phone / walk-in toggle with a short form
+ */
+export function HostBookingDialog({ open, restaurant, onClose, onCreated }: HostBookingDialogProps) {
+  const today = timeSlotService.toDateString(new Date());
+
+  const [source, setSource] = useState<HostBookingData['source']>('phone');
+  const [guest, setGuest] = useState(EMPTY_GUEST);
+  const [date, setDate] = useState(today);
+  const [timeSlot, setTimeSlot] = useState('');
+  const [availability, setAvailability] = useState<SlotAvailability | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Walk-ins always take the slot being served right now
+  const walkInSlot = restaurant && source === 'walk-in' ? timeSlotService.getWalkInSlot(restaurant) : null;
+  const slots = restaurant && source === 'phone' ? timeSlotService.getTimeSlots(restaurant, date) : [];
+  const bookingDate = source === 'walk-in' ? today : date;
+  const bookingSlot = source === 'walk-in' ? walkInSlot?.label ?? '' : timeSlot;
+
+  // Start every entry from a clean form
+  useEffect(() => {
+    if (open) {
+      setGuest(EMPTY_GUEST);
+      setDate(today);
+    }
+  }, [open]);
+
+  // Keep the picked slot valid when the date changes
+  useEffect(() => {
+    if (!slots.some(slot => slot.label === timeSlot)) {
+      setTimeSlot(slots[0]?.label ?? '');
+    }
+  }, [restaurant?.id, source, date]);
+
+  // Free tables for the party in the chosen slot
+  useEffect(() => {
+    if (!open || !restaurant || !bookingSlot || guest.seats < 1) {
+      setAvailability(null);
+      return;
+    }
+
+    restaurantService.getAvailability(restaurant.id, bookingDate, bookingSlot, guest.seats, undefined, source === 'walk-in')
+      .then(setAvailability)
+      .catch(() => setAvailability(null));
+  }, [open, restaurant?.id, bookingDate, bookingSlot, guest.seats, source]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant) return;
+
+    setSubmitting(true);
+    try {
+      const booking = await bookingService.createHostBooking({
+        ...guest,
+        restaurantId: restaurant.id,
+        source,
+        date: bookingDate,
+        timeSlot: bookingSlot
+      });
+      toast.success(source === 'walk-in' ? `${booking.customerName} seated` : `Booked ${booking.customerName}`, {
+        description: `Party of ${booking.seats} • ${booking.timeSlot}${booking.referenceCode ? ` • ${booking.referenceCode}` : ''}`
+      });
+      onCreated(booking);
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create booking');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Booking</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['phone', 'walk-in'] as const).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant={source === option ? 'default' : 'outline'}
+                onClick={() => setSource(option)}
+                className="gap-2"
+              >
+                {option === 'phone' ? <Phone className="h-4 w-4" /> : <DoorOpen className="h-4 w-4" />}
+                {BOOKING_SOURCE_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="host-name">Guest Name</Label>
+            <Input
+              id="host-name"
+              value={guest.customerName}
+              onChange={(e) => setGuest({ ...guest, customerName: e.target.value })}
+              required
+              autoFocus
+              className="mt-1.5"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="host-phone">Phone</Label>
+              <Input
+                id="host-phone"
+                type="tel"
+                value={guest.customerPhone}
+                onChange={(e) => setGuest({ ...guest, customerPhone: e.target.value })}
+                required
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label htmlFor="host-seats">Party Size</Label>
+              <Input
+                id="host-seats"
+                type="number"
+                min={1}
+                value={guest.seats}
+                onChange={(e) => setGuest({ ...guest, seats: parseInt(e.target.value) || 0 })}
+                required
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+
+          {source === 'phone' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="host-date">Date</Label>
+                <Input
+                  id="host-date"
+                  type="date"
+                  min={today}
+                  value={date}
+                  onChange={(e) => e.target.value && setDate(e.target.value)}
+                  className="mt-1.5"
+                />
+              </div>
+              <div>
+                <Label htmlFor="host-slot">Time Slot</Label>
+                <select
+                  id="host-slot"
+                  value={timeSlot}
+                  onChange={(e) => setTimeSlot(e.target.value)}
+                  className="w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md"
+                >
+                  {slots.length === 0 && <option value="">No slots left</option>}
+                  {slots.map((slot) => (
+                    <option key={slot.label} value={slot.label}>{slot.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm">
+              {walkInSlot
+                ? <>Seated now in <span className="font-semibold">{walkInSlot.label}</span></>
+                : <span className="text-muted-foreground">The restaurant isn't serving right now</span>}
+            </p>
+          )}
+
+          {availability && (
+            <p className={`text-sm ${availability.canSeat ? 'text-muted-foreground' : 'text-red-500'}`}>
+              {availability.closedReason
+                ?? (availability.canSeat
+                  ? `${availability.tables.map(t => t.label).join(' + ')} free for ${guest.seats} • ${availability.availableSeats} seats left`
+                  : `No table free for ${guest.seats} (largest party: ${availability.largestParty})`)}
+            </p>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={submitting || !bookingSlot || availability?.canSeat === false}
+          >
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {source === 'walk-in' ? 'Seat Walk-in' : 'Book Table'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MENU ITEM DIALOG COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Add / edit form for one dish on a restaurant's menu (react-hook-form).
+ * The photo can be a link or an uploaded file (see PhotoInput).
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Loader2 } from 'lucide-react';
+import { MenuItem, MENU_CATEGORIES } from '../services/restaurant.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
+import { PhotoInput } from './PhotoInput';
+import { toast } from 'sonner';
+
+export type MenuItemFormValues = Pick<MenuItem, 'name' | 'description' | 'price' | 'category' | 'image' | 'available'>;
+
+interface MenuItemDialogProps {
+  open: boolean;                 // Whether the dialog is shown
+  item: MenuItem | null;         // Item being edited (null to add one)
+  onClose: () => void;           // Called when the dialog is dismissed
+  onSave: (values: MenuItemFormValues) => Promise<void>; // Saves the item (throws to keep the dialog open)
+}
+
+const EMPTY_ITEM: MenuItemFormValues = {
+  name: '',
+  description: '',
+  price: 0,
+  category: 'Main Course',
+  image: '',
+  available: true
+};
+
+/**
+ * MenuItemDialog Component
+ *
+ * Name, category, price, description, photo and availability of a dish
+ */
+export function MenuItemDialog({ open, item, onClose, onSave }: MenuItemDialogProps) {
+  const form = useForm<MenuItemFormValues>({ defaultValues: EMPTY_ITEM });
+
+  // Fill the form with the item being edited each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset(item
+        ? {
+            name: item.name,
+            description: item.description,
+            price: item.price,
+            category: item.category,
+            image: item.image,
+            available: item.available
+          }
+        : EMPTY_ITEM);
+    }
+  }, [open, item]);
+
+  const handleSubmit = async (values: MenuItemFormValues) => {
+    try {
+      await onSave({ ...values, price: Number(values.price) });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save the dish');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item ? `Edit ${item.name}` : 'Add Dish'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              rules={{ validate: (value) => value.trim() !== '' || 'Please enter a name' }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g., Margherita Pizza" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <FormControl>
+                      <select {...field} className="w-full h-10 px-3 bg-input-background border border-input rounded-md">
+                        {MENU_CATEGORIES.map((category) => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="price"
+                rules={{ validate: (value) => Number(value) > 0 || 'Price must be above ৳0' }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price (৳)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={1} step="any" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder="Ingredients, portion, spice level..." />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="image"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Photo</FormLabel>
+                  <PhotoInput value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="available"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>Available to order</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {item ? 'Save Changes' : 'Add Dish'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
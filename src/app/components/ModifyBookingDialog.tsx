@@ -0,0 +1,281 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MODIFY BOOKING DIALOG COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Lets a customer change the date, time slot, party size and special
+ * requests of an upcoming booking in two steps:
+ * 1. Edit: pick the new details (a new date/slot/party size is checked
+ *    for a free table before moving on)
+ * 2. Review: see every change side by side and confirm it
+ *
+ * Confirmed bookings may go back to pending, depending on the
+ * restaurant's reapprovalPolicy. The review step says so before saving.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect } from 'react';
+import { Loader2, ArrowRight } from 'lucide-react';
+import { restaurantService, Restaurant } from '../services/restaurant.service';
+import { bookingService, Booking, CreateBookingData } from '../services/booking.service';
+import { timeSlotService } from '../services/time-slot.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { toast } from 'sonner';
+
+interface ModifyBookingDialogProps {
+  booking: Booking | null;       // Booking to change (dialog is closed when null)
+  onClose: () => void;           // Called when the dialog is dismissed
+  onModified: () => void;        // Called after the change was saved
+}
+
+type EditableField = 'date' | 'timeSlot' | 'seats' | 'specialRequests';
+
+// Labels used in the review step
+const FIELD_LABELS: Record<EditableField, string> = {
+  date: 'Date',
+  timeSlot: 'Time Slot',
+  seats: 'Party Size',
+  specialRequests: 'Special Requests'
+};
+
+/**
+ * ModifyBookingDialog Component
+ *
+ * Edit → review → save flow for changing an upcoming booking
+ */
+export function ModifyBookingDialog({ booking, onClose, onModified }: ModifyBookingDialogProps) {
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [step, setStep] = useState<'edit' | 'review'>('edit');
+  const [checking, setChecking] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    date: '',
+    timeSlot: '',
+    seats: 1,
+    specialRequests: ''
+  });
+
+  // Start from the booking's current details every time the dialog opens
+  useEffect(() => {
+    if (!booking) return;
+
+    setStep('edit');
+    setForm({
+      date: booking.date,
+      timeSlot: booking.timeSlot,
+      seats: booking.seats,
+      specialRequests: booking.specialRequests || ''
+    });
+
+    setRestaurant(null);
+    restaurantService.getRestaurantById(booking.restaurantId)
+      .then(setRestaurant)
+      .catch(() => setRestaurant(null));
+  }, [booking]);
+
+  if (!booking) {
+    return null;
+  }
+
+  // Offer the restaurant's slots for the chosen date; the booking's own
+  // slot stays selectable on its original date
+  const timeSlots = restaurant
+    ? timeSlotService.getTimeSlots(restaurant, form.date).map(slot => slot.label)
+    : [];
+  if (form.date === booking.date && !timeSlots.includes(booking.timeSlot)) {
+    timeSlots.unshift(booking.timeSlot);
+  }
+
+  // Fields that differ from the booking
+  const changes: Partial<CreateBookingData> = {};
+  if (form.date !== booking.date) changes.date = form.date;
+  if (form.timeSlot !== booking.timeSlot) changes.timeSlot = form.timeSlot;
+  if (form.seats !== booking.seats) changes.seats = form.seats;
+  if (form.specialRequests !== (booking.specialRequests || '')) changes.specialRequests = form.specialRequests;
+  const changedFields = Object.keys(changes) as EditableField[];
+
+  const needsReapproval = bookingService.needsReapproval(booking, changes, restaurant?.reapprovalPolicy);
+  const { modificationsLeft } = bookingService.getCancellationTerms(booking, restaurant?.cancellationPolicy);
+
+  const handleReview = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (changedFields.length === 0) {
+      toast.error('Nothing has been changed');
+      return;
+    }
+
+    // A new date, slot or party size needs a fresh availability check
+    if (changes.date || changes.timeSlot || changes.seats) {
+      setChecking(true);
+      try {
+        const availability = await restaurantService.getAvailability(
+          booking.restaurantId,
+          form.date,
+          form.timeSlot,
+          form.seats,
+          booking.id
+        );
+
+        if (availability.closedReason) {
+          toast.error(availability.closedReason);
+          return;
+        }
+
+        if (!availability.canSeat) {
+          toast.error(
+            availability.largestParty > 0
+              ? `No table for ${form.seats} guests. Largest party we can seat: ${availability.largestParty}`
+              : 'This time slot is fully booked'
+          );
+          return;
+        }
+      } catch (error: any) {
+        toast.error(error.message || 'Failed to check availability');
+        return;
+      } finally {
+        setChecking(false);
+      }
+    }
+
+    setStep('review');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const updated = await bookingService.updateBooking(booking.id, changes);
+      toast.success(
+        booking.status === 'confirmed' && updated.status === 'pending'
+          ? 'Booking updated and sent to the restaurant for approval'
+          : 'Booking updated'
+      );
+      onModified();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update booking');
+      setStep('edit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatValue = (field: EditableField, value: string | number | undefined) => {
+    if (field === 'date' && value) return timeSlotService.parseDate(value as string).toLocaleDateString();
+    if (field === 'seats') return `${value} guests`;
+    return value || 'None';
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {step === 'edit' ? 'Change Booking' : 'Review Changes'} at {booking.restaurant?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === 'edit' ? (
+          <form onSubmit={handleReview} className="space-y-4">
+            <div>
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value, timeSlot: '' })}
+                min={timeSlotService.toDateString(new Date())}
+                required
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label>Time Slot</Label>
+              <select
+                value={form.timeSlot}
+                onChange={(e) => setForm({ ...form, timeSlot: e.target.value })}
+                className="w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md"
+                required
+              >
+                <option value="">Select time slot</option>
+                {timeSlots.map((slot) => (
+                  <option key={slot} value={slot}>{slot}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Number of Seats</Label>
+              <Input
+                type="number"
+                value={form.seats}
+                onChange={(e) => setForm({ ...form, seats: parseInt(e.target.value) || 1 })}
+                min={1}
+                max={20}
+                required
+                className="mt-1.5"
+              />
+            </div>
+            <div>
+              <Label>Special Requests (Optional)</Label>
+              <Textarea
+                value={form.specialRequests}
+                onChange={(e) => setForm({ ...form, specialRequests: e.target.value })}
+                rows={3}
+                className="mt-1.5"
+              />
+            </div>
+            <p className={`text-sm ${modificationsLeft > 0 ? 'text-muted-foreground' : 'text-destructive'}`}>
+              {modificationsLeft > 0
+                ? `You can change this booking ${modificationsLeft} more time${modificationsLeft === 1 ? '' : 's'}.`
+                : 'This booking cannot be changed any more.'}
+            </p>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={checking || modificationsLeft <= 0} className="flex-1">
+                {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Review Changes'}
+              </Button>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-3">
+              {changedFields.map((field) => (
+                <div key={field} className="border border-border rounded-lg p-3">
+                  <p className="text-sm font-semibold mb-1">{FIELD_LABELS[field]}</p>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground line-through">
+                      {formatValue(field, booking[field])}
+                    </span>
+                    <ArrowRight className="h-4 w-4 text-primary flex-shrink-0" />
+                    <span>{formatValue(field, changes[field])}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {needsReapproval && (
+              <p className="text-sm text-yellow-500">
+                Your booking is confirmed. After this change, {booking.restaurant?.name || 'the restaurant'} has
+                to approve it again and it will be pending until then.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving} className="flex-1">
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Confirm Changes'}
+              </Button>
+              <Button variant="outline" onClick={() => setStep('edit')} disabled={saving}>
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PHOTO INPUT COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * A photo given as a link or uploaded from the device. Uploads are scaled
+ * down to a data URL (so demo mode can keep them in localStorage) and
+ * previewed before saving.
+ *
+ * CHANGEABLE SETTINGS:
+ * - Size and quality of uploaded photos (PHOTO_MAX_SIZE, PHOTO_QUALITY)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useRef, useState } from 'react';
+import { Loader2, ImagePlus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { toast } from 'sonner';
+
+// CHANGEABLE: Longest side of an uploaded photo in pixels, and its JPEG quality
+const PHOTO_MAX_SIZE = 640;
+const PHOTO_QUALITY = 0.8;
+
+/**
+ * Scale a photo down and turn it into a data URL
+ */
+const readPhoto = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(new Error('The photo could not be read'));
+  reader.onload = () => {
+    const image = new Image();
+    image.onerror = () => reject(new Error('That file is not a photo'));
+    image.onload = () => {
+      const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+    };
+    image.src = reader.result as string;
+  };
+  reader.readAsDataURL(file);
+});
+
+interface PhotoInputProps {
+  value: string;                 // Photo link or data URL ('' for none)
+  onChange: (value: string) => void; // Called with the new photo
+  previewClassName?: string;     // Size of the preview (default a small thumbnail)
+}
+
+/**
+ * PhotoInput Component
+ *
+ * Link field, upload button and a preview with a remove button
+ */
+export function PhotoInput({ value, onChange, previewClassName = 'w-40 h-28' }: PhotoInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [reading, setReading] = useState(false);
+  const uploaded = value.startsWith('data:');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    try {
+      onChange(await readPhoto(file));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to read the photo');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={uploaded ? '' : value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={uploaded ? 'Uploaded photo' : 'Image link, or upload a photo'}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={reading}
+          className="gap-2"
+        >
+          {reading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+          Upload
+        </Button>
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+      </div>
+      {value && (
+        <div className={`relative ${previewClassName}`}>
+          <img src={value} alt="Preview" className="w-full h-full object-cover rounded-md border border-border" />
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="absolute top-1 right-1 p-0.5 bg-card/90 rounded-full hover:bg-card"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
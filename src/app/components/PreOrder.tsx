@@ -0,0 +1,241 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRE-ORDER COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Dishes ordered ahead with a booking:
+ * - PreOrderEditor: Pick dishes, quantities and dietary notes from the menu
+ * - PreOrderSummary: Read-only list with the subtotal (customer and manager views)
+ * - PreOrderDialog: Change the pre-order of an existing booking until the cutoff
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect } from 'react';
+import { Minus, Plus, Loader2 } from 'lucide-react';
+import { restaurantService, MenuItem, Restaurant } from '../services/restaurant.service';
+import { bookingService, Booking, PreOrderItem } from '../services/booking.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { toast } from 'sonner';
+
+/**
+ * Format an amount in BDT
+ */
+const formatTaka = (amount: number) => `৳${amount.toLocaleString()}`;
+
+interface PreOrderEditorProps {
+  menuItems: MenuItem[];         // Restaurant's menu
+  items: PreOrderItem[];         // Current pre-order
+  onChange: (items: PreOrderItem[]) => void; // Called with the new pre-order
+}
+
+/**
+ * PreOrderEditor Component
+ *
+ * Menu grouped by category with quantity buttons; chosen dishes get a
+ * dietary notes field
+ */
+export function PreOrderEditor({ menuItems, items, onChange }: PreOrderEditorProps) {
+  const available = menuItems.filter(item => item.available);
+  const categories = [...new Set(available.map(item => item.category))];
+
+  const setQuantity = (menuItem: MenuItem, quantity: number) => {
+    const existing = items.find(item => item.menuItemId === menuItem.id);
+    if (quantity <= 0) {
+      onChange(items.filter(item => item.menuItemId !== menuItem.id));
+    } else if (existing) {
+      onChange(items.map(item => item.menuItemId === menuItem.id ? { ...item, quantity } : item));
+    } else {
+      onChange([...items, { menuItemId: menuItem.id, name: menuItem.name, price: menuItem.price, quantity }]);
+    }
+  };
+
+  const setNotes = (menuItemId: string, dietaryNotes: string) => {
+    onChange(items.map(item => item.menuItemId === menuItemId ? { ...item, dietaryNotes } : item));
+  };
+
+  if (available.length === 0) {
+    return <p className="text-sm text-muted-foreground">No dishes are available for pre-order</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-64 overflow-y-auto space-y-4 pr-1">
+        {categories.map((category) => (
+          <div key={category}>
+            <p className="text-xs font-semibold uppercase text-muted-foreground mb-2">{category}</p>
+            <div className="space-y-2">
+              {available.filter(item => item.category === category).map((menuItem) => {
+                const selected = items.find(item => item.menuItemId === menuItem.id);
+                return (
+                  <div key={menuItem.id} className="space-y-1.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{menuItem.name}</p>
+                        <p className="text-xs text-primary">{formatTaka(menuItem.price)}</p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="outline"
+                          className="h-7 w-7"
+                          onClick={() => setQuantity(menuItem, (selected?.quantity ?? 0) - 1)}
+                          disabled={!selected}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <span className="w-6 text-center text-sm">{selected?.quantity ?? 0}</span>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="outline"
+                          className="h-7 w-7"
+                          onClick={() => setQuantity(menuItem, (selected?.quantity ?? 0) + 1)}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    {selected && (
+                      <Input
+                        value={selected.dietaryNotes ?? ''}
+                        onChange={(e) => setNotes(menuItem.id, e.target.value)}
+                        placeholder="Dietary notes (e.g. no nuts, mild)"
+                        className="h-8 text-sm"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-sm font-semibold border-t border-border pt-2">
+        <span>Subtotal</span>
+        <span>{formatTaka(bookingService.getPreOrderSubtotal(items))}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * PreOrderSummary Component
+ *
+ * Lists the pre-ordered dishes with notes and the subtotal
+ */
+export function PreOrderSummary({ items }: { items?: PreOrderItem[] }) {
+  if (!items?.length) {
+    return <p className="text-sm text-muted-foreground">No dishes pre-ordered</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {items.map((item) => (
+        <div key={item.menuItemId}>
+          <div className="flex justify-between gap-2">
+            <span>{item.quantity} × {item.name}</span>
+            <span>{formatTaka(item.price * item.quantity)}</span>
+          </div>
+          {item.dietaryNotes && (
+            <p className="text-xs text-yellow-500">{item.dietaryNotes}</p>
+          )}
+        </div>
+      ))}
+      <div className="flex justify-between font-semibold border-t border-border pt-2">
+        <span>Subtotal</span>
+        <span>{formatTaka(bookingService.getPreOrderSubtotal(items))}</span>
+      </div>
+    </div>
+  );
+}
+
+interface PreOrderDialogProps {
+  booking: Booking | null;       // Booking to change (dialog is closed when null)
+  onClose: () => void;           // Called when the dialog is dismissed
+  onSaved: () => void;           // Called after the pre-order was saved
+}
+
+/**
+ * PreOrderDialog Component
+ *
+ * Loads the restaurant's menu and lets the customer change the pre-order
+ */
+export function PreOrderDialog({ booking, onClose, onSaved }: PreOrderDialogProps) {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [items, setItems] = useState<PreOrderItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!booking) return;
+
+    setItems(booking.preOrder ?? []);
+    setLoading(true);
+    Promise.all([
+      restaurantService.getRestaurantMenu(booking.restaurantId),
+      restaurantService.getRestaurantById(booking.restaurantId)
+    ])
+      .then(([menu, details]) => {
+        setMenuItems(menu);
+        setRestaurant(details);
+      })
+      .catch((error: any) => toast.error(error.message || 'Failed to load the menu'))
+      .finally(() => setLoading(false));
+  }, [booking]);
+
+  if (!booking) {
+    return null;
+  }
+
+  const cutoff = bookingService.getPreOrderCutoff(booking, restaurant?.preOrderCutoffHours);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await bookingService.updatePreOrder(booking.id, items);
+      toast.success(items.length > 0 ? 'Pre-order saved' : 'Pre-order removed');
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save the pre-order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pre-order at {booking.restaurant?.name}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <PreOrderEditor menuItems={menuItems} items={items} onChange={setItems} />
+            {cutoff && (
+              <p className="text-xs text-muted-foreground">
+                You can change your pre-order until {cutoff.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving} className="flex-1">
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save Pre-order'}
+              </Button>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * RESTAURANT FORM COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Sections of a restaurant's profile, shared by the onboarding wizard and
+ * the profile editor:
+ * - RestaurantBasicsFields: Name, cuisine, price range, phone, description
+ * - RestaurantLocationFields: Division, city and street address
+ * - RestaurantHoursFields: Opening and closing time, days closed
+ * - TableGroupFields: Seating as groups of identical tables
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Restaurant, DIVISION_CITIES, PRICE_RANGES } from '../services/restaurant.service';
+import { TableGroup } from '../services/table.service';
+import { timeSlotService, DAYS_OF_WEEK } from '../services/time-slot.service';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+
+const SELECT_CLASS = 'w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md';
+
+interface RestaurantFieldsProps {
+  value: Partial<Restaurant>;    // Details entered so far
+  onChange: (value: Partial<Restaurant>) => void; // Called with the new details
+}
+
+/**
+ * "7:00 PM" → "19:00" for a time input
+ */
+const toTimeInput = (time = '') => {
+  const minutes = timeSlotService.parseTime(time);
+  if (minutes === null) return '';
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * "19:00" from a time input → "7:00 PM"
+ */
+const fromTimeInput = (value: string) => {
+  const minutes = timeSlotService.parseTime(value);
+  return minutes === null ? '' : timeSlotService.formatTime(minutes);
+};
+
+/**
+ * RestaurantBasicsFields Component
+ *
+ * What guests see first about the restaurant
+ */
+export function RestaurantBasicsFields({ value, onChange, cuisines }: RestaurantFieldsProps & { cuisines: string[] }) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="restaurant-name">Restaurant Name</Label>
+        <Input
+          id="restaurant-name"
+          value={value.name ?? ''}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          className="mt-1.5"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="restaurant-cuisine">Cuisine</Label>
+          <select
+            id="restaurant-cuisine"
+            value={value.cuisine ?? ''}
+            onChange={(e) => onChange({ ...value, cuisine: e.target.value })}
+            className={SELECT_CLASS}
+          >
+            <option value="">Pick a cuisine</option>
+            {cuisines.map((cuisine) => (
+              <option key={cuisine} value={cuisine}>{cuisine}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="restaurant-price">Price Range</Label>
+          <select
+            id="restaurant-price"
+            value={value.priceRange ?? '৳৳'}
+            onChange={(e) => onChange({ ...value, priceRange: e.target.value })}
+            className={SELECT_CLASS}
+          >
+            {PRICE_RANGES.map((range) => (
+              <option key={range} value={range}>{range}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="restaurant-phone">Phone</Label>
+        <Input
+          id="restaurant-phone"
+          type="tel"
+          value={value.phone ?? ''}
+          onChange={(e) => onChange({ ...value, phone: e.target.value })}
+          placeholder="+880 1XXX-XXXXXX"
+          className="mt-1.5"
+        />
+      </div>
+      <div>
+        <Label htmlFor="restaurant-description">Description</Label>
+        <Textarea
+          id="restaurant-description"
+          value={value.description ?? ''}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+          rows={4}
+          placeholder="What makes your restaurant special?"
+          className="mt-1.5"
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RestaurantLocationFields Component
+ *
+ * Division, a city in it, and the street address
+ */
+export function RestaurantLocationFields({ value, onChange }: RestaurantFieldsProps) {
+  const cities = DIVISION_CITIES[value.division ?? ''] ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="restaurant-division">Division</Label>
+          <select
+            id="restaurant-division"
+            value={value.division ?? ''}
+            onChange={(e) => onChange({ ...value, division: e.target.value, city: '' })}
+            className={SELECT_CLASS}
+          >
+            <option value="">Pick a division</option>
+            {Object.keys(DIVISION_CITIES).map((division) => (
+              <option key={division} value={division}>{division}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="restaurant-city">City</Label>
+          <select
+            id="restaurant-city"
+            value={value.city ?? ''}
+            onChange={(e) => onChange({ ...value, city: e.target.value })}
+            disabled={cities.length === 0}
+            className={SELECT_CLASS}
+          >
+            <option value="">Pick a city</option>
+            {cities.map((city) => (
+              <option key={city} value={city}>{city}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="restaurant-address">Street Address</Label>
+        <Input
+          id="restaurant-address"
+          value={value.location ?? ''}
+          onChange={(e) => onChange({ ...value, location: e.target.value })}
+          placeholder="e.g., Shaheb Bazar, Rajshahi"
+          className="mt-1.5"
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RestaurantHoursFields Component
+ *
+ * Daily opening hours and the weekdays the restaurant is closed. Days with
+ * their own service periods (e.g., lunch and dinner) keep them while open
+ */
+export function RestaurantHoursFields({ value, onChange }: RestaurantFieldsProps) {
+  const schedule = value.weeklySchedule ?? {};
+
+  const setClosed = (day: typeof DAYS_OF_WEEK[number], closed: boolean) => {
+    const next = { ...schedule };
+    if (closed) {
+      next[day] = [];
+    } else {
+      delete next[day];
+    }
+    onChange({ ...value, weeklySchedule: next });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="restaurant-opening">Opening Time</Label>
+          <Input
+            id="restaurant-opening"
+            type="time"
+            value={toTimeInput(value.openingTime)}
+            onChange={(e) => onChange({ ...value, openingTime: fromTimeInput(e.target.value) })}
+            className="mt-1.5"
+          />
+        </div>
+        <div>
+          <Label htmlFor="restaurant-closing">Closing Time</Label>
+          <Input
+            id="restaurant-closing"
+            type="time"
+            value={toTimeInput(value.closingTime)}
+            onChange={(e) => onChange({ ...value, closingTime: fromTimeInput(e.target.value) })}
+            className="mt-1.5"
+          />
+        </div>
+      </div>
+      <div>
+        <Label>Open On</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-1.5">
+          {DAYS_OF_WEEK.map((day) => (
+            <label key={day} className="flex items-center gap-2 text-sm cursor-pointer capitalize">
+              <Checkbox
+                checked={schedule[day]?.length !== 0}
+                onCheckedChange={(checked) => setClosed(day, checked !== true)}
+              />
+              {day}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TableGroupFieldsProps {
+  value: TableGroup[];           // Table groups entered so far
+  onChange: (value: TableGroup[]) => void; // Called with the new groups
+}
+
+/**
+ * TableGroupFields Component
+ *
+ * One row per table size and zone (e.g., "6 tables for 4 in Main Hall").
+ * Tables can be moved and reshaped on the floor plan later
+ */
+export function TableGroupFields({ value, onChange }: TableGroupFieldsProps) {
+  const update = (index: number, changes: Partial<TableGroup>) =>
+    onChange(value.map((group, i) => i === index ? { ...group, ...changes } : group));
+
+  const totalSeats = value.reduce((sum, group) => sum + group.capacity * group.count, 0);
+  const totalTables = value.reduce((sum, group) => sum + group.count, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 text-sm text-muted-foreground">
+        <span>Tables</span>
+        <span>Seats each</span>
+        <span>Zone</span>
+        <span className="w-9" />
+      </div>
+      {value.map((group, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={group.count}
+            onChange={(e) => update(index, { count: parseInt(e.target.value) || 0 })}
+            aria-label="Number of tables"
+          />
+          <Input
+            type="number"
+            min={1}
+            value={group.capacity}
+            onChange={(e) => update(index, { capacity: parseInt(e.target.value) || 0 })}
+            aria-label="Seats per table"
+          />
+          <Input
+            value={group.zone}
+            onChange={(e) => update(index, { zone: e.target.value })}
+            placeholder="e.g., Main Hall"
+            aria-label="Zone"
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={value.length === 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...value, { count: 1, capacity: 4, zone: value[value.length - 1]?.zone ?? '' }])}
+          className="gap-1"
+        >
+          <Plus className="h-4 w-4" />
+          Add Tables
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {totalTables} tables • {totalSeats} seats
+        </span>
+      </div>
+    </div>
+  );
+}
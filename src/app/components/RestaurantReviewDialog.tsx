@@ -0,0 +1,242 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * RESTAURANT REVIEW DIALOG COMPONENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Full preview of a restaurant for admins (profile, hours, seating and
+ * menu) with the status changes allowed from its current status: approve,
+ * reject, block or unblock. Rejecting and blocking ask for a reason, which
+ * the manager sees on their dashboard.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { useState, useEffect } from 'react';
+import { Loader2, MapPin, Phone, Clock, Users, Star } from 'lucide-react';
+import {
+  restaurantService,
+  Restaurant,
+  RestaurantStatus,
+  MenuItem,
+  Table,
+  RESTAURANT_STATUS_TRANSITIONS
+} from '../services/restaurant.service';
+import { tableService } from '../services/table.service';
+import { DAYS_OF_WEEK } from '../services/time-slot.service';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { RestaurantStatusBadge } from './RestaurantStatus';
+import { toast } from 'sonner';
+
+// Button text for moving a restaurant to each status
+const STATUS_ACTION_LABELS: Record<RestaurantStatus, string> = {
+  pending: 'Reopen',
+  active: 'Approve',
+  rejected: 'Reject',
+  blocked: 'Block'
+};
+
+interface RestaurantReviewDialogProps {
+  restaurant: Restaurant | null; // Restaurant to preview (null when closed)
+  onClose: () => void;           // Called when the dialog is dismissed
+  onStatusChange: (restaurant: Restaurant) => void; // Called with the restaurant after its status changed
+}
+
+/**
+ * RestaurantReviewDialog Component
+ *
+ * Everything guests would see about the restaurant, and the admin's actions
+ */
+export function RestaurantReviewDialog({ restaurant, onClose, onStatusChange }: RestaurantReviewDialogProps) {
+  const [menu, setMenu] = useState<MenuItem[]>([]);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!restaurant) return;
+
+    setLoading(true);
+    Promise.all([
+      restaurantService.getRestaurantMenu(restaurant.id),
+      tableService.getRestaurantTables(restaurant.id)
+    ])
+      .then(([menuItems, layout]) => {
+        setMenu(menuItems);
+        setTables(layout);
+      })
+      .catch((error: any) => toast.error(error.message || 'Failed to load the restaurant\'s menu and tables'))
+      .finally(() => setLoading(false));
+  }, [restaurant?.id]);
+
+  const handleStatusChange = async (status: RestaurantStatus) => {
+    if (!restaurant) return;
+
+    let reason: string | undefined;
+    if (status === 'rejected' || status === 'blocked') {
+      const answer = window.prompt(
+        status === 'rejected'
+          ? 'What does the manager need to fix?'
+          : `Why is ${restaurant.name} being blocked?`
+      );
+      if (answer === null) return;
+      reason = answer;
+    }
+
+    setUpdating(true);
+    try {
+      const updated = await restaurantService.updateRestaurantStatus(restaurant.id, status, reason);
+      toast.success(
+        status === 'active'
+          ? `${updated.name} is live`
+          : `${updated.name} ${status === 'rejected' ? 'sent back to its manager' : 'blocked'}`
+      );
+      onStatusChange(updated);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the restaurant');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const closedDays = DAYS_OF_WEEK.filter(day => restaurant?.weeklySchedule?.[day]?.length === 0);
+  const zones = [...new Set(tables.map(table => table.zone))];
+  const categories = [...new Set(menu.map(item => item.category))];
+
+  return (
+    <Dialog open={restaurant !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{restaurant?.name}</DialogTitle>
+        </DialogHeader>
+
+        {restaurant && (
+          <div className="space-y-5">
+            {restaurant.image ? (
+              <img src={restaurant.image} alt={restaurant.name} className="w-full h-48 object-cover rounded-lg" />
+            ) : (
+              <div className="w-full h-24 rounded-lg border border-dashed border-border flex items-center justify-center text-sm text-muted-foreground">
+                No cover photo
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>{restaurant.cuisine}</span>
+                <span>•</span>
+                <span>{restaurant.priceRange}</span>
+                {restaurant.totalReviews > 0 && (
+                  <>
+                    <span>•</span>
+                    <Star className="h-4 w-4 fill-primary text-primary" />
+                    <span>{restaurant.rating} ({restaurant.totalReviews})</span>
+                  </>
+                )}
+              </div>
+              <RestaurantStatusBadge status={restaurant.status} />
+            </div>
+
+            {restaurant.statusReason && (
+              <p className="text-sm text-muted-foreground">Reason given: {restaurant.statusReason}</p>
+            )}
+
+            <p className="text-sm whitespace-pre-line">
+              {restaurant.description || <span className="text-muted-foreground">No description</span>}
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+              <div className="flex items-start gap-2">
+                <MapPin className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                <span>{restaurant.location}, {restaurant.city}, {restaurant.division}</span>
+              </div>
+              <div className="flex items-start gap-2">
+                <Phone className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                <span>{restaurant.phone}</span>
+              </div>
+              <div className="flex items-start gap-2">
+                <Clock className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                <span>
+                  {restaurant.openingTime} - {restaurant.closingTime}
+                  {closedDays.length > 0 && (
+                    <span className="block text-muted-foreground capitalize">Closed {closedDays.join(', ')}</span>
+                  )}
+                </span>
+              </div>
+              <div className="flex items-start gap-2">
+                <Users className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                <span>{restaurant.totalSeats} seats</span>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <h4 className="font-semibold mb-2">Tables</h4>
+                  {tables.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No tables set up</p>
+                  ) : (
+                    <ul className="text-sm space-y-1">
+                      {zones.map((zone) => {
+                        const zoneTables = tables.filter(table => table.zone === zone);
+                        return (
+                          <li key={zone}>
+                            {zone}: {zoneTables.length} tables, {zoneTables.reduce((sum, table) => sum + table.capacity, 0)} seats
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Menu</h4>
+                  {menu.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No dishes added</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {categories.map((category) => (
+                        <div key={category}>
+                          <p className="text-xs font-semibold uppercase text-muted-foreground mb-1">{category}</p>
+                          <ul className="text-sm space-y-1">
+                            {menu.filter(item => item.category === category).map((item) => (
+                              <li key={item.id} className="flex justify-between gap-4">
+                                <span className={item.available ? '' : 'text-muted-foreground line-through'}>{item.name}</span>
+                                <span>৳{item.price}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Submitted {new Date(restaurant.createdAt).toLocaleDateString()}
+            </p>
+
+            <div className="flex gap-2 justify-end">
+              {RESTAURANT_STATUS_TRANSITIONS[restaurant.status].map((status) => (
+                <Button
+                  key={status}
+                  variant={status === 'active' ? 'default' : 'outline'}
+                  onClick={() => handleStatusChange(status)}
+                  disabled={updating}
+                  className={status === 'active' ? '' : 'text-destructive'}
+                >
+                  {status === 'active' && restaurant.status === 'blocked' ? 'Unblock' : STATUS_ACTION_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
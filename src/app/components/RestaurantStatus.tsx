@@ -0,0 +1,81 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * RESTAURANT STATUS COMPONENTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shared by the manager pages and the admin dashboard:
+ * - RestaurantStatusBadge: Coloured badge for a restaurant status
+ * - RestaurantStatusNotice: Tells the manager why guests can't book yet
+ *
+ * CHANGEABLE SETTINGS:
+ * - Badge colours per status (STATUS_BADGE_CLASSES)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { Ban, Hourglass, MessageSquareWarning } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Card } from './ui/card';
+import { Restaurant, RestaurantStatus, RESTAURANT_STATUS_LABELS } from '../services/restaurant.service';
+
+// CHANGEABLE: Badge colours per status
+const STATUS_BADGE_CLASSES: Record<RestaurantStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  active: 'bg-green-500/10 text-green-500 border-green-500/20',
+  rejected: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  blocked: 'bg-red-500/10 text-red-500 border-red-500/20'
+};
+
+/**
+ * RestaurantStatusBadge Component
+ *
+ * Displays a restaurant status as a coloured badge
+ */
+export function RestaurantStatusBadge({ status }: { status: RestaurantStatus }) {
+  return (
+    <Badge className={`${STATUS_BADGE_CLASSES[status] || ''} border`}>
+      {RESTAURANT_STATUS_LABELS[status] || status}
+    </Badge>
+  );
+}
+
+/**
+ * RestaurantStatusNotice Component
+ *
+ * Banner for a restaurant that isn't live, with the admin's reason when
+ * it was rejected or blocked (nothing for active restaurants)
+ */
+export function RestaurantStatusNotice({ restaurant }: { restaurant: Restaurant }) {
+  if (restaurant.status === 'active') return null;
+
+  const notices = {
+    pending: {
+      icon: <Hourglass className="h-5 w-5 text-yellow-500 flex-shrink-0" />,
+      className: 'border-yellow-500/30 bg-yellow-500/5',
+      text: `${restaurant.name} is waiting for approval. Guests can book it once an admin has reviewed it.`
+    },
+    rejected: {
+      icon: <MessageSquareWarning className="h-5 w-5 text-orange-500 flex-shrink-0" />,
+      className: 'border-orange-500/30 bg-orange-500/5',
+      text: `${restaurant.name} needs changes before it can go live. Save the fixed profile to send it for approval again.`
+    },
+    blocked: {
+      icon: <Ban className="h-5 w-5 text-red-500 flex-shrink-0" />,
+      className: 'border-red-500/30 bg-red-500/5',
+      text: `${restaurant.name} has been blocked by an admin and is hidden from guests.`
+    }
+  };
+  const notice = notices[restaurant.status];
+
+  return (
+    <Card className={`p-4 flex items-start gap-3 ${notice.className}`}>
+      {notice.icon}
+      <div className="text-sm space-y-1">
+        <p>{notice.text}</p>
+        {restaurant.statusReason && (
+          <p className="text-muted-foreground">Reason: {restaurant.statusReason}</p>
+        )}
+      </div>
+    </Card>
+  );
+}
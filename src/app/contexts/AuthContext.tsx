@@ -7,6 +7,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   register: (email: string, password: string, name: string, role: 'customer' | 'manager') => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
+  endSession: (reason: string) => void;
   updateProfile: (updates: Partial<User>) => Promise<void>;
   isAuthenticated: boolean;
   loading: boolean;
@@ -76,6 +77,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     toast.success('Logged out successfully');
   };
 
+  // Logs out a user whose session an admin ended (suspended or forced logout)
+  const endSession = (reason: string) => {
+    authService.logout();
+    setUser(null);
+    toast.error(reason);
+  };
+
   const updateProfile = async (updates: Partial<User>) => {
     try {
       const updated = await authService.updateProfile(updates);
@@ -93,6 +101,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       login,
       register,
       logout,
+      endSession,
       updateProfile,
       isAuthenticated: !!user,
       loading
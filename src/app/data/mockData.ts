@@ -1,4 +1,5 @@
 import { Calendar, CheckCircle, Clock, MapPin, Users } from 'lucide-react';
+import { timeSlotService } from '../services/time-slot.service';
 
 // --- Types ---
 
@@ -25,6 +26,8 @@ export interface Restaurant {
   image: string;
   cuisine: string;
   totalSeats: number;
+  openingTime: string; // Booking slots are generated from these (see timeSlotService)
+  closingTime: string;
   rating: number;
   price: string;
   status: 'approved' | 'pending';
@@ -66,15 +69,6 @@ export interface Review {
   date: string;
 }
 
-// --- Constants ---
-
-export const TIME_SLOTS = [
-  '12:00 PM - 2:00 PM',
-  '2:00 PM - 4:00 PM',
-  '6:00 PM - 8:00 PM',
-  '8:00 PM - 10:00 PM',
-];
-
 // --- Initial Data ---
 
 const INITIAL_USERS: User[] = [
@@ -100,6 +94,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1767277680127-dc94441d576c?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxtb2Rlcm4lMjByZXN0YXVyYW50JTIwaW50ZXJpb3IlMjBkYXJrJTIwbHV4dXJ5fGVufDF8fHx8MTc3MTE2ODkxNXww&ixlib=rb-4.1.0&q=80&w=1080',
     cuisine: 'Fine Dining',
     totalSeats: 60,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.9,
     price: '$$$$',
     status: 'approved',
@@ -118,6 +114,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1712849848587-f7428f18337a?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxyb29mdG9wJTIwcmVzdGF1cmFudCUyMG5pZ2h0JTIwdmlld3xlbnwxfHx8fDE3NzExNjg5MTV8MA&ixlib=rb-4.1.0&q=80&w=1080',
     cuisine: 'Rooftop Cafe',
     totalSeats: 45,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.7,
     price: '$$$',
     status: 'approved',
@@ -136,6 +134,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1681073302782-10f85371deb0?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxjb3p5JTIwY2FmZSUyMGludGVyaW9yJTIwd2FybSUyMGxpZ2h0aW5nfGVufDF8fHx8MTc3MTE2MDYyOXww&ixlib=rb-4.1.0&q=80&w=1080',
     cuisine: 'Cafe & Continental',
     totalSeats: 50,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.5,
     price: '$$',
     status: 'approved',
@@ -154,6 +154,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1763596304819-c97878428b32?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxidXJnZXIlMjByZXN0YXVyYW50JTIwbW9kZXJuJTIwaW50ZXJpb3J8ZW58MXx8fHwxNzcxMTY4OTE1fDA&ixlib=rb-4.1.0&q=80&w=1080',
     cuisine: 'Burger & Fast Food',
     totalSeats: 40,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.6,
     price: '$$',
     status: 'approved',
@@ -172,6 +174,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1595854341625-f33ee10dbf94?auto=format&fit=crop&q=80&w=1080', // Fallback or generic
     cuisine: 'Pizza',
     totalSeats: 35,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.4,
     price: '$$',
     status: 'approved',
@@ -190,6 +194,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1631033286192-787635f7ba0b?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxrZWJhYiUyMGdyaWxsJTIwcmVzdGF1cmFudCUyMGludGVyaW9yfGVufDF8fHx8MTc3MTE2ODkxNXww&ixlib=rb-4.1.0&q=80&w=1080',
     cuisine: 'Grill & BBQ',
     totalSeats: 55,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.3,
     price: '$$',
     status: 'approved',
@@ -208,6 +214,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?auto=format&fit=crop&q=80&w=1080',
     cuisine: 'Fusion',
     totalSeats: 30,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.2,
     price: '$$$',
     status: 'approved',
@@ -226,6 +234,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1763208692631-00a41bbdc11f?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxnYXJkZW4lMjByZXN0YXVyYW50JTIwb3V0ZG9vciUyMHNlYXRpbmclMjBuaWdodHxlbnwxfHx8fDE3NzExNjg5MTV8MA&ixlib=rb-4.1.0&q=80&w=1080',
     cuisine: 'Outdoor',
     totalSeats: 48,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.8,
     price: '$$$',
     status: 'approved',
@@ -244,6 +254,8 @@ const INITIAL_RESTAURANTS: Restaurant[] = [
     image: 'https://images.unsplash.com/photo-1555396273-367ea4eb4db5?auto=format&fit=crop&q=80&w=1080',
     cuisine: 'Cafe',
     totalSeats: 42,
+    openingTime: '12:00 PM',
+    closingTime: '10:00 PM',
     rating: 4.4,
     price: '$$',
     status: 'approved',
@@ -266,20 +278,25 @@ const INITIAL_MENU_ITEMS: MenuItem[] = [
   { id: 'm7', restaurantId: '5', name: 'Pepperoni Pizza', description: 'Spicy pepperoni with mozzarella cheese.', price: 600, category: 'Main', image: 'https://images.unsplash.com/photo-1628840042765-356cda07504e?auto=format&fit=crop&q=80&w=300' },
 ];
 
+// Aurora's 6:00 PM slot
+const DEMO_BOOKING_SLOT = timeSlotService
+  .getTimeSlots(INITIAL_RESTAURANTS[0], '')
+  .find(slot => slot.start === 18 * 60)!.label;
+
 const INITIAL_BOOKINGS: Booking[] = [
   {
     id: 'b1',
     userId: '1',
     restaurantId: '1', // Aurora
     date: new Date().toISOString().split('T')[0], // Today
-    timeSlot: TIME_SLOTS[2], // 6-8 PM
+    timeSlot: DEMO_BOOKING_SLOT, // 6-8 PM
     guests: 4,
     status: 'confirmed',
     createdAt: new Date().toISOString(),
     // Compat fields
     restaurantName: 'Aurora',
     restaurantImage: 'https://images.unsplash.com/photo-1767277680127-dc94441d576c?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxtb2Rlcm4lMjByZXN0YXVyYW50JTIwaW50ZXJpb3IlMjBkYXJrJTIwbHV4dXJ5fGVufDF8fHx8MTc3MTE2ODkxNXww&ixlib=rb-4.1.0&q=80&w=1080',
-    time: '6:00 PM - 8:00 PM'
+    time: DEMO_BOOKING_SLOT
   }
 ];
 
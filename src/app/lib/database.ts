@@ -1,6 +1,10 @@
 // Mock database with localStorage persistence
 // Simulates SQL relationships for ReserveX
 
+import { getDemoTablesByRestaurantId } from '../services/demo-data';
+import { assignTables, getOccupiedTableIds } from '../services/table.service';
+import { timeSlotService } from '../services/time-slot.service';
+
 export interface User {
   id: string;
   email: string;
@@ -51,6 +55,7 @@ export interface Booking {
   date: string;
   timeSlot: string;
   seats: number;
+  tableIds?: string[];
   status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
   customerName: string;
   customerEmail: string;
@@ -747,6 +752,8 @@ class Database {
     const bookings = this.getBookings();
     const newBooking: Booking = {
       ...booking,
+      tableIds: this.findTablesForParty(booking.restaurantId, booking.date, booking.timeSlot, booking.seats)
+        ?.map(t => t.id),
       id: `booking-${Date.now()}`,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
@@ -771,19 +778,37 @@ class Database {
     return undefined;
   }
 
+  // Table availability: seats are only counted on tables nobody holds
   getAvailableSeats(restaurantId: string, date: string, timeSlot: string): number {
+    const tables = getDemoTablesByRestaurantId(restaurantId);
+    const occupied = this.getOccupiedTables(restaurantId, date, timeSlot);
+    return tables
+      .filter(t => !occupied.has(t.id))
+      .reduce((sum, t) => sum + t.capacity, 0);
+  }
+
+  canSeatParty(restaurantId: string, date: string, timeSlot: string, partySize: number): boolean {
+    return this.findTablesForParty(restaurantId, date, timeSlot, partySize) !== null;
+  }
+
+  private findTablesForParty(restaurantId: string, date: string, timeSlot: string, partySize: number) {
     const restaurant = this.getRestaurantById(restaurantId);
-    if (!restaurant) return 0;
+    if (restaurant && !timeSlotService.isWithinOpeningHours(restaurant, date, timeSlot)) {
+      return null;
+    }
+
+    const tables = getDemoTablesByRestaurantId(restaurantId);
+    const occupied = this.getOccupiedTables(restaurantId, date, timeSlot);
+    return assignTables(tables.filter(t => !occupied.has(t.id)), partySize);
+  }
 
-    const confirmedBookings = this.getBookings().filter(b =>
+  private getOccupiedTables(restaurantId: string, date: string, timeSlot: string): Set<string> {
+    const slotBookings = this.getBookings().filter(b =>
       b.restaurantId === restaurantId &&
       b.date === date &&
-      b.timeSlot === timeSlot &&
-      (b.status === 'confirmed' || b.status === 'pending')
+      timeSlotService.slotsOverlap(b.timeSlot, timeSlot)
     );
-
-    const bookedSeats = confirmedBookings.reduce((sum, b) => sum + b.seats, 0);
-    return restaurant.totalSeats - bookedSeats;
+    return getOccupiedTableIds(getDemoTablesByRestaurantId(restaurantId), slotBookings);
   }
 
   // Review methods
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
+import { ChefHat, Home, Search, Calendar, Clock, Users, MapPin, Loader2, CalendarPlus, CreditCard } from 'lucide-react';
+import { bookingService, Booking } from '../services/booking.service';
+import { restaurantService, CancellationPolicy, DepositPolicy } from '../services/restaurant.service';
+import { calendarService } from '../services/calendar.service';
+import { Button } from '../components/ui/button';
+import { Card } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { BookingStatusBadge } from '../components/BookingStatus';
+import { DepositPaymentDialog, DepositSummary } from '../components/DepositPayment';
+import { BookingPreferenceBadges } from '../components/BookingPreferences';
+import { toast } from 'sonner';
+
+/**
+ * FindBookingPage Component
+ *
+ * Lets guests without an account look up a booking with its reference code
+ * and the email it was made with, and cancel it
+ */
+export function FindBookingPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  const [referenceCode, setReferenceCode] = useState(searchParams.get('code') ?? '');
+  const [email, setEmail] = useState('');
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [policy, setPolicy] = useState<CancellationPolicy | undefined>(undefined);
+  const [depositPolicy, setDepositPolicy] = useState<DepositPolicy | undefined>(undefined);
+  const [searching, setSearching] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [paying, setPaying] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearching(true);
+    setBooking(null);
+    try {
+      const found = await bookingService.findGuestBooking(referenceCode, email);
+      setBooking(found);
+
+      try {
+        const restaurant = await restaurantService.getRestaurantById(found.restaurantId);
+        setPolicy(restaurant.cancellationPolicy);
+        setDepositPolicy(restaurant.depositPolicy);
+      } catch (error) {
+        setPolicy(undefined);
+        setDepositPolicy(undefined);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to find booking');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!booking) return;
+
+    // Warn before a late cancellation (or refuse one the restaurant won't accept)
+    const terms = bookingService.getCancellationTerms(booking, policy);
+    if (!terms.canCancel) {
+      toast.error('The free-cancellation window has passed. Please contact the restaurant');
+      return;
+    }
+
+    let message = terms.isLate
+      ? 'The free-cancellation window has passed. This will be recorded as a late cancellation. Cancel anyway?'
+      : 'Are you sure you want to cancel this booking?';
+    if (booking.deposit?.status === 'paid') {
+      const refund = bookingService.getDepositRefund(booking.deposit, terms.isLate, depositPolicy);
+      message += `\n\n৳${refund.toLocaleString()} of your ৳${booking.deposit.amount.toLocaleString()} deposit will be refunded.`;
+    }
+    if (!window.confirm(message)) return;
+
+    setCancelling(true);
+    try {
+      const updated = await bookingService.cancelGuestBooking(referenceCode, email);
+      setBooking(updated);
+      toast.success('Booking cancelled', {
+        action: {
+          label: 'Update Calendar',
+          onClick: () => calendarService.downloadBookingEvent(updated)
+        }
+      });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to cancel booking');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const terms = booking ? bookingService.getCancellationTerms(booking, policy) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <ChefHat className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold text-primary">ReserveX</h1>
+                <p className="text-xs text-muted-foreground">Find My Booking</p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => navigate('/')}>
+              <Home className="h-4 w-4 mr-2" />
+              Home
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-xl space-y-6">
+        <Card className="p-6">
+          <h2 className="text-2xl font-bold mb-2">Find My Booking</h2>
+          <p className="text-sm text-muted-foreground mb-6">
+            Enter the reference code from your confirmation (e.g. RX-7K3Q) and the email you booked with.
+          </p>
+          <form onSubmit={handleSearch} className="space-y-4">
+            <div>
+              <Label htmlFor="referenceCode">Reference Code</Label>
+              <Input
+                id="referenceCode"
+                value={referenceCode}
+                onChange={(e) => setReferenceCode(e.target.value)}
+                placeholder="RX-7K3Q"
+                required
+                className="mt-1.5 uppercase"
+              />
+            </div>
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="mt-1.5"
+              />
+            </div>
+            <Button type="submit" disabled={searching} className="w-full gap-2">
+              {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              Find Booking
+            </Button>
+          </form>
+        </Card>
+
+        {booking && (
+          <Card className="p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="font-bold text-lg">{booking.restaurant?.name}</h3>
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {booking.restaurant?.location}
+                </p>
+              </div>
+              <BookingStatusBadge status={booking.status} />
+            </div>
+
+            <div className="space-y-2 text-sm mb-4">
+              <p className="font-mono font-semibold">{booking.referenceCode}</p>
+              <p className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-primary" />
+                {new Date(booking.date).toLocaleDateString()}
+              </p>
+              <p className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-primary" />
+                {booking.timeSlot}
+              </p>
+              <p className="flex items-center gap-2">
+                <Users className="h-4 w-4 text-primary" />
+                {booking.seats} guests • {booking.customerName}
+              </p>
+              <BookingPreferenceBadges booking={booking} />
+              {booking.specialRequests && (
+                <p className="text-muted-foreground">{booking.specialRequests}</p>
+              )}
+            </div>
+
+            {booking.lateCancellation && (
+              <p className="text-sm text-destructive mb-4">Cancelled after the free-cancellation window</p>
+            )}
+
+            {booking.deposit && (
+              <div className="mb-4">
+                <DepositSummary deposit={booking.deposit} />
+              </div>
+            )}
+
+            {booking.status === 'pending-payment' && (
+              <Button onClick={() => setPaying(true)} className="w-full gap-2 mb-3">
+                <CreditCard className="h-4 w-4" />
+                Pay Deposit
+              </Button>
+            )}
+
+            {(booking.status === 'pending' || booking.status === 'confirmed') && (
+              <Button
+                variant="outline"
+                onClick={() => calendarService.downloadBookingEvent(booking)}
+                className="w-full gap-2 mb-3"
+              >
+                <CalendarPlus className="h-4 w-4" />
+                Add to Calendar
+              </Button>
+            )}
+
+            {bookingService.canTransition(booking.status, 'cancelled') && terms && (
+              <div className="space-y-3">
+                {terms.freeUntil && (
+                  <p className="text-sm text-muted-foreground">
+                    {terms.isLate
+                      ? 'The free-cancellation window has passed.'
+                      : `Free cancellation until ${terms.freeUntil.toLocaleString()}.`}
+                  </p>
+                )}
+                <Button
+                  variant="destructive"
+                  onClick={handleCancel}
+                  disabled={cancelling || !terms.canCancel}
+                  className="w-full"
+                >
+                  {cancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Cancel Booking'}
+                </Button>
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+
+      <DepositPaymentDialog
+        booking={paying ? booking : null}
+        onClose={() => setPaying(false)}
+        onPaid={(paid) => {
+          setPaying(false);
+          setBooking(paid);
+        }}
+      />
+    </div>
+  );
+}
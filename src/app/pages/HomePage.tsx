@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router';
-import { Search, MapPin, Star, Users, Clock, ChefHat, LogIn, User, Loader2 } from 'lucide-react';
+import { Search, MapPin, Star, Users, Clock, ChefHat, LogIn, User, Loader2, Ticket } from 'lucide-react';
 import { restaurantService, Restaurant } from '../services/restaurant.service';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/button';
@@ -97,6 +97,10 @@ export function HomePage() {
             </div>
             
             <div className="flex items-center gap-3">
+              <Button onClick={() => navigate('/find-booking')} variant="ghost" className="gap-2">
+                <Ticket className="h-4 w-4" />
+                Find My Booking
+              </Button>
               {user ? (
                 <Button onClick={handleDashboardClick} variant="outline" className="gap-2">
                   <User className="h-4 w-4" />
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Calendar, Users, MapPin, Search, Star } from 'lucide-react';
-import { db, TIME_SLOTS } from '../data/mockData';
+import { db, Restaurant } from '../data/mockData';
+import { timeSlotService } from '../services/time-slot.service';
 
 interface ListingsPageProps {
   onNavigate: (page: string, params?: any) => void;
@@ -17,9 +18,12 @@ export const ListingsPage: React.FC<ListingsPageProps> = ({ onNavigate }) => {
     r.city.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  // Check availability for "Tonight" (Defaulting to today's 6-8 PM slot for preview)
-  const today = new Date().toISOString().split('T')[0];
-  const peakSlot = TIME_SLOTS[2]; // 6:00 PM - 8:00 PM
+  // Check availability for "Tonight" (today's 6:00 PM slot, or the last slot of the day, for preview)
+  const today = timeSlotService.toDateString(new Date());
+  const getPeakSlot = (restaurant: Restaurant) => {
+    const slots = timeSlotService.getTimeSlots(restaurant, today, { includeStarted: true });
+    return slots.find(slot => slot.start === 18 * 60) ?? slots[slots.length - 1];
+  };
 
   return (
     <div className="min-h-screen bg-[#1a1a1a] py-12">
@@ -57,7 +61,8 @@ export const ListingsPage: React.FC<ListingsPageProps> = ({ onNavigate }) => {
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           {filteredRestaurants.map((restaurant) => {
-             const availableSeats = db.getAvailableSeats(restaurant.id, today, peakSlot);
+             const peakSlot = getPeakSlot(restaurant);
+             const availableSeats = peakSlot ? db.getAvailableSeats(restaurant.id, today, peakSlot.label) : 0;
              const isAvailable = availableSeats > 0;
 
              return (
@@ -98,7 +103,7 @@ export const ListingsPage: React.FC<ListingsPageProps> = ({ onNavigate }) => {
                       {isAvailable ? (
                         <span className="text-green-500 font-medium flex items-center gap-1">
                           <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                          {availableSeats} Seats (6-8 PM)
+                          {availableSeats} Seats ({peakSlot.label})
                         </span>
                       ) : (
                         <span className="text-red-500 font-medium flex items-center gap-1">
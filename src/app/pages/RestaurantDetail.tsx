@@ -9,12 +9,32 @@ import {
   Loader2,
   ArrowLeft,
   Users,
+  Repeat,
   Calendar as CalendarIcon
 } from 'lucide-react';
-import { restaurantService, Restaurant, MenuItem } from '../services/restaurant.service';
+import {
+  restaurantService,
+  Restaurant,
+  MenuItem,
+  SlotAvailability,
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_PAYMENT_WINDOW_MINUTES
+} from '../services/restaurant.service';
 import { reviewService, Review } from '../services/review.service';
 import { favouriteService } from '../services/favourite.service';
-import { bookingService } from '../services/booking.service';
+import {
+  bookingService,
+  Booking,
+  PreOrderItem,
+  BookingPreferences,
+  RecurrenceRule,
+  SeriesOccurrence,
+  MAX_SERIES_OCCURRENCES
+} from '../services/booking.service';
+import { calendarService } from '../services/calendar.service';
+import { waitlistService, CLAIM_WINDOW_MINUTES } from '../services/waitlist.service';
+import { timeSlotService, DAYS_OF_WEEK } from '../services/time-slot.service';
+import { authService, GuestVerification, GUEST_CODE_LENGTH } from '../services/auth.service';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from 'sonner';
 import { Button } from '../components/ui/button';
@@ -22,6 +42,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from '../components/ui/label';
 import { Input } from '../components/ui/input';
 import { Textarea } from '../components/ui/textarea';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
+import { PreOrderEditor } from '../components/PreOrder';
+import { DepositPaymentDialog } from '../components/DepositPayment';
+import { BookingPreferenceFields } from '../components/BookingPreferences';
 
 export default function RestaurantDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -39,13 +63,24 @@ export default function RestaurantDetailPage() {
   // Booking form state
   const [bookingForm, setBookingForm] = useState({
     date: '',
-    timeSlot: '6:00 PM - 8:00 PM',
+    timeSlot: '',
     seats: 2,
     customerName: user?.name || '',
     customerEmail: user?.email || '',
     customerPhone: '',
-    specialRequests: ''
+    specialRequests: '',
+    preOrder: [] as PreOrderItem[]
   });
+  const [preferences, setPreferences] = useState<BookingPreferences>({});
+  const [showPreOrder, setShowPreOrder] = useState(false);
+  const [paymentBooking, setPaymentBooking] = useState<Booking | null>(null);
+  const [recurrence, setRecurrence] = useState({
+    frequency: 'none' as 'none' | RecurrenceRule['frequency'],
+    endType: 'count' as 'count' | 'date',
+    occurrences: 4,
+    endDate: ''
+  });
+  const [seriesCheck, setSeriesCheck] = useState<SeriesOccurrence[] | null>(null);
 
   // Review form state
   const [reviewForm, setReviewForm] = useState({
@@ -53,9 +88,14 @@ export default function RestaurantDetailPage() {
     comment: ''
   });
 
-  const [availableSeats, setAvailableSeats] = useState<number | null>(null);
+  const [availability, setAvailability] = useState<SlotAvailability | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
+  // Guest checkout: email verification with a one-time code
+  const [guestStep, setGuestStep] = useState<'details' | 'verify'>('details');
+  const [guestCode, setGuestCode] = useState('');
+  const [guestVerification, setGuestVerification] = useState<GuestVerification | null>(null);
+
   useEffect(() => {
     if (id) {
       loadRestaurantData();
@@ -79,10 +119,33 @@ export default function RestaurantDetailPage() {
   }, [id, isAuthenticated]);
 
   useEffect(() => {
-    if (bookingForm.date && bookingForm.timeSlot && id) {
+    if (bookingForm.date && bookingForm.timeSlot && bookingForm.seats > 0 && id) {
       checkAvailability();
+    } else {
+      setAvailability(null);
+    }
+  }, [bookingForm.date, bookingForm.timeSlot, bookingForm.seats, id]);
+
+  // Every date of a repeating booking is checked before booking
+  useEffect(() => {
+    const hasEnd = recurrence.endType === 'count' || !!recurrence.endDate;
+    if (recurrence.frequency !== 'none' && hasEnd && bookingForm.date && bookingForm.timeSlot && bookingForm.seats > 0 && id) {
+      bookingService.checkSeries({ restaurantId: id, ...bookingForm }, getRecurrenceRule())
+        .then(setSeriesCheck)
+        .catch(() => setSeriesCheck(null));
+    } else {
+      setSeriesCheck(null);
     }
-  }, [bookingForm.date, bookingForm.timeSlot, id]);
+  }, [recurrence, bookingForm.date, bookingForm.timeSlot, bookingForm.seats, id]);
+
+  // Drop the chosen slot when it is not offered on the newly picked date
+  useEffect(() => {
+    if (!restaurant || !bookingForm.timeSlot) return;
+    const slots = timeSlotService.getTimeSlots(restaurant, bookingForm.date);
+    if (!slots.some(slot => slot.label === bookingForm.timeSlot)) {
+      setBookingForm(prev => ({ ...prev, timeSlot: '' }));
+    }
+  }, [bookingForm.date, restaurant]);
 
   const loadRestaurantData = async () => {
     setLoading(true);
@@ -115,14 +178,15 @@ export default function RestaurantDetailPage() {
 
   const checkAvailability = async () => {
     try {
-      const seats = await restaurantService.getAvailableSeats(
+      const result = await restaurantService.getAvailability(
         id!,
         bookingForm.date,
-        bookingForm.timeSlot
+        bookingForm.timeSlot,
+        bookingForm.seats
       );
-      setAvailableSeats(seats);
+      setAvailability(result);
     } catch (error) {
-      setAvailableSeats(null);
+      setAvailability(null);
     }
   };
 
@@ -146,30 +210,164 @@ export default function RestaurantDetailPage() {
     e.preventDefault();
     
     if (!isAuthenticated) {
-      toast.error('Please login to make a booking');
-      navigate('/auth');
+      if (slotFull) {
+        toast.error('Please login to join the waitlist');
+        navigate('/auth');
+        return;
+      }
+
+      // Guests confirm their email once; later bookings reuse the verification
+      if (guestVerification?.email === bookingForm.customerEmail.trim().toLowerCase()) {
+        await submitBooking(guestVerification.token);
+      } else {
+        await sendGuestCode();
+      }
       return;
     }
 
+    await submitBooking();
+  };
+
+  const sendGuestCode = async () => {
     setSubmitting(true);
     try {
-      await bookingService.createBooking({
-        restaurantId: id!,
-        ...bookingForm
+      const request = await authService.requestGuestCode(bookingForm.customerEmail);
+      setGuestCode('');
+      setGuestStep('verify');
+      toast.success(`We sent a code to ${request.email}`, {
+        description: request.demoCode && `Demo mode: your code is ${request.demoCode}`
       });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send the code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerifyGuestCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let verification: GuestVerification;
+    setSubmitting(true);
+    try {
+      verification = await authService.verifyGuestCode(bookingForm.customerEmail, guestCode);
+      setGuestVerification(verification);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to verify the code');
+      setSubmitting(false);
+      return;
+    }
+
+    await submitBooking(verification.token);
+  };
+
+  const handleBookingDialogChange = (open: boolean) => {
+    setBookingDialogOpen(open);
+    if (!open) {
+      setGuestStep('details');
+    }
+  };
+
+  const getRecurrenceRule = (): RecurrenceRule => ({
+    frequency: recurrence.frequency === 'biweekly' ? 'biweekly' : 'weekly',
+    ...(recurrence.endType === 'count'
+      ? { occurrences: recurrence.occurrences }
+      : { endDate: recurrence.endDate })
+  });
+
+  // Guests pass their verification token; signed-in customers book as themselves
+  const submitBooking = async (guestToken?: string) => {
+    setSubmitting(true);
+    try {
+      if (repeating) {
+        // Conflicting dates are left out once the customer agrees
+        const occurrences = seriesCheck ?? [];
+        const conflicts = occurrences.filter(o => o.conflict);
+        if (occurrences.length === conflicts.length) {
+          toast.error('None of the dates can be booked');
+          return;
+        }
+        if (conflicts.length > 0 && !window.confirm(
+          `${conflicts.length} of the dates can't be booked:\n` +
+          conflicts.map(o => `${timeSlotService.parseDate(o.date).toLocaleDateString()}: ${o.conflict}`).join('\n') +
+          `\n\nBook the other ${occurrences.length - conflicts.length}?`
+        )) {
+          return;
+        }
+
+        const result = await bookingService.createSeries(
+          { restaurantId: id!, ...bookingForm, ...preferences },
+          getRecurrenceRule(),
+          conflicts.map(o => o.date)
+        );
+        if (result.bookings.length === 0) {
+          toast.error(result.failed[0]?.conflict || 'None of the dates could be booked');
+          return;
+        }
+        const notBooked = result.failed.length > 0
+          ? `Not booked: ${result.failed.map(o => timeSlotService.parseDate(o.date).toLocaleDateString()).join(', ')}`
+          : '';
+        // Dates that need a deposit are only held until each one is paid
+        const unpaid = result.bookings.filter(b => b.status === 'pending-payment');
+        if (unpaid.length > 0) {
+          toast.warning(`${result.bookings.length} bookings made, ${unpaid.length} awaiting a deposit`, {
+            description: `${notBooked ? `${notBooked}. ` : ''}Pay the deposit of each date from your dashboard before it is due, or that date is released`,
+            action: { label: 'Dashboard', onClick: () => navigate('/customer') }
+          });
+        } else {
+          toast.success(`${result.bookings.length} bookings made`, {
+            description: notBooked || 'Manage the series from your dashboard'
+          });
+        }
+      } else if (slotFull) {
+        const entry = await waitlistService.joinWaitlist({
+          restaurantId: id!,
+          date: bookingForm.date,
+          timeSlot: bookingForm.timeSlot,
+          seats: bookingForm.seats,
+          customerName: bookingForm.customerName,
+          customerEmail: bookingForm.customerEmail,
+          customerPhone: bookingForm.customerPhone
+        });
+        toast.success(`You're #${entry.position ?? 1} on the waitlist`);
+      } else {
+        const data = { restaurantId: id!, ...bookingForm, ...preferences };
+        const booking = guestToken
+          ? await bookingService.createGuestBooking(data, guestToken)
+          : await bookingService.createBooking(data);
+        if (booking.status === 'pending-payment') {
+          // The table is only held until the deposit is paid
+          setPaymentBooking(booking);
+        } else {
+          toast.success(booking.status === 'confirmed'
+            ? 'Booking confirmed!'
+            : 'Booking created successfully! The restaurant will confirm it soon', {
+            description: booking.referenceCode && (guestToken
+              ? `Your reference code is ${booking.referenceCode}. Use it with your email under Find My Booking`
+              : `Your reference code is ${booking.referenceCode}`),
+            action: {
+              label: 'Add to Calendar',
+              onClick: () => calendarService.downloadBookingEvent(booking)
+            }
+          });
+        }
+      }
       
-      toast.success('Booking created successfully!');
-      setBookingDialogOpen(false);
+      handleBookingDialogChange(false);
       // Reset form
       setBookingForm({
         date: '',
-        timeSlot: '6:00 PM - 8:00 PM',
+        timeSlot: '',
         seats: 2,
         customerName: user?.name || '',
         customerEmail: user?.email || '',
         customerPhone: '',
-        specialRequests: ''
+        specialRequests: '',
+        preOrder: []
       });
+      setPreferences({});
+      setShowPreOrder(false);
+      setRecurrence(prev => ({ ...prev, frequency: 'none' }));
     } catch (error: any) {
       toast.error(error.message || 'Failed to create booking');
     } finally {
@@ -206,16 +404,32 @@ export default function RestaurantDetailPage() {
     }
   };
 
-  const timeSlots = [
-    '11:00 AM - 1:00 PM',
-    '1:00 PM - 3:00 PM',
-    '3:00 PM - 5:00 PM',
-    '5:00 PM - 7:00 PM',
-    '6:00 PM - 8:00 PM',
-    '7:00 PM - 9:00 PM',
-    '8:00 PM - 10:00 PM',
-    '9:00 PM - 11:00 PM'
-  ];
+  // Slots come from the restaurant's own hours (past slots hidden for today)
+  const timeSlots = restaurant ? timeSlotService.getTimeSlots(restaurant, bookingForm.date) : [];
+  // Cancellation rules for the booking being made
+  const cancellationPolicy = restaurant?.cancellationPolicy ?? DEFAULT_CANCELLATION_POLICY;
+  const freeCancellationUntil = bookingForm.timeSlot
+    ? bookingService.getCancellationTerms(bookingForm, cancellationPolicy).freeUntil
+    : null;
+
+  // Deposit the restaurant asks for this party and slot
+  const depositRequirement = restaurant && bookingForm.timeSlot
+    ? bookingService.getDepositRequirement(restaurant, bookingForm)
+    : null;
+
+  // A full slot (not a closed one) can still be waitlisted
+  const slotFull = availability !== null && !availability.canSeat && !availability.closedReason;
+  // Signed-in customers can book the same table every (other) week
+  const repeating = isAuthenticated && recurrence.frequency !== 'none';
+  const bookableDates = seriesCheck?.filter(o => !o.conflict).length ?? 0;
+  const openingHours = restaurant && bookingForm.date
+    ? timeSlotService.getOpeningHours(restaurant, bookingForm.date)
+    : null;
+  // Holidays, blackout dates and special hours that are still ahead
+  const today = timeSlotService.toDateString(new Date());
+  const upcomingExceptions = (restaurant?.scheduleExceptions ?? [])
+    .filter(e => e.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
 
   const groupedMenu = menuItems.reduce((acc, item) => {
     if (!acc[item.category]) acc[item.category] = [];
@@ -422,9 +636,38 @@ export default function RestaurantDetailPage() {
                 <Clock className="w-5 h-5 text-primary mt-0.5 flex-shrink-0" />
                 <div>
                   <p className="font-semibold">Hours</p>
-                  <p className="text-sm text-muted-foreground">
-                    {restaurant.openingTime} - {restaurant.closingTime}
-                  </p>
+                  {restaurant.weeklySchedule ? (
+                    <div className="text-sm text-muted-foreground space-y-0.5">
+                      {DAYS_OF_WEEK.map((day) => (
+                        <p key={day} className="flex justify-between gap-4">
+                          <span className="capitalize">{day}</span>
+                          <span>
+                            {timeSlotService.describePeriods(
+                              restaurant.weeklySchedule?.[day] ??
+                                [{ openingTime: restaurant.openingTime, closingTime: restaurant.closingTime }]
+                            )}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {restaurant.openingTime} - {restaurant.closingTime}
+                    </p>
+                  )}
+                  {upcomingExceptions.length > 0 && (
+                    <div className="text-sm text-muted-foreground mt-2 space-y-0.5">
+                      {upcomingExceptions.map((exception) => (
+                        <p key={exception.date}>
+                          {exception.date}: {exception.reason} (
+                          {timeSlotService.describePeriods(
+                            timeSlotService.getOpeningHours(restaurant, exception.date).periods
+                          )}
+                          )
+                        </p>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -436,7 +679,7 @@ export default function RestaurantDetailPage() {
                 </div>
               </div>
 
-              <Dialog open={bookingDialogOpen} onOpenChange={setBookingDialogOpen}>
+              <Dialog open={bookingDialogOpen} onOpenChange={handleBookingDialogChange}>
                 <DialogTrigger asChild>
                   <Button className="w-full mt-4" size="lg">
                     Book a Table
@@ -446,96 +689,300 @@ export default function RestaurantDetailPage() {
                   <DialogHeader>
                     <DialogTitle>Book a Table at {restaurant.name}</DialogTitle>
                   </DialogHeader>
-                  <form onSubmit={handleBooking} className="space-y-4">
-                    <div>
-                      <Label>Date</Label>
-                      <Input
-                        type="date"
-                        value={bookingForm.date}
-                        onChange={(e) => setBookingForm({ ...bookingForm, date: e.target.value })}
-                        min={new Date().toISOString().split('T')[0]}
-                        required
-                        className="mt-1.5"
-                      />
-                    </div>
-                    <div>
-                      <Label>Time Slot</Label>
-                      <select
-                        value={bookingForm.timeSlot}
-                        onChange={(e) => setBookingForm({ ...bookingForm, timeSlot: e.target.value })}
-                        className="w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md"
-                        required
+                  {guestStep === 'verify' ? (
+                    <form onSubmit={handleVerifyGuestCode} className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        Enter the {GUEST_CODE_LENGTH}-digit code we sent to {bookingForm.customerEmail} to
+                        confirm your booking.
+                      </p>
+                      <div className="flex justify-center">
+                        <InputOTP maxLength={GUEST_CODE_LENGTH} value={guestCode} onChange={setGuestCode}>
+                          <InputOTPGroup>
+                            {Array.from({ length: GUEST_CODE_LENGTH }).map((_, index) => (
+                              <InputOTPSlot key={index} index={index} />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                      <Button
+                        type="submit"
+                        disabled={submitting || guestCode.length < GUEST_CODE_LENGTH}
+                        className="w-full"
                       >
-                        {timeSlots.map((slot) => (
-                          <option key={slot} value={slot}>{slot}</option>
-                        ))}
-                      </select>
-                      {availableSeats !== null && (
-                        <p className="text-sm mt-1 text-muted-foreground">
-                          {availableSeats > 0 ? `${availableSeats} seats available` : 'Fully booked'}
+                        {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify & Book'}
+                      </Button>
+                      <div className="flex justify-between text-sm">
+                        <button
+                          type="button"
+                          onClick={() => setGuestStep('details')}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          Back
+                        </button>
+                        <button
+                          type="button"
+                          onClick={sendGuestCode}
+                          disabled={submitting}
+                          className="text-primary hover:underline"
+                        >
+                          Send a new code
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <form onSubmit={handleBooking} className="space-y-4">
+                      {!isAuthenticated && (
+                        <p className="text-sm text-muted-foreground border border-border rounded-md p-3">
+                          Booking as a guest. We'll email you a code to confirm your address.{' '}
+                          <Link to="/auth/login" className="text-primary hover:underline">Sign in</Link> to
+                          keep your bookings in one place.
                         </p>
                       )}
-                    </div>
-                    <div>
-                      <Label>Number of Seats</Label>
-                      <Input
-                        type="number"
-                        value={bookingForm.seats}
-                        onChange={(e) => setBookingForm({ ...bookingForm, seats: parseInt(e.target.value) })}
-                        min={1}
-                        max={20}
-                        required
-                        className="mt-1.5"
-                      />
-                    </div>
-                    <div>
-                      <Label>Name</Label>
-                      <Input
-                        value={bookingForm.customerName}
-                        onChange={(e) => setBookingForm({ ...bookingForm, customerName: e.target.value })}
-                        required
-                        className="mt-1.5"
-                      />
-                    </div>
-                    <div>
-                      <Label>Email</Label>
-                      <Input
-                        type="email"
-                        value={bookingForm.customerEmail}
-                        onChange={(e) => setBookingForm({ ...bookingForm, customerEmail: e.target.value })}
-                        required
-                        className="mt-1.5"
-                      />
-                    </div>
-                    <div>
-                      <Label>Phone</Label>
-                      <Input
-                        type="tel"
-                        value={bookingForm.customerPhone}
-                        onChange={(e) => setBookingForm({ ...bookingForm, customerPhone: e.target.value })}
-                        required
-                        className="mt-1.5"
-                      />
-                    </div>
-                    <div>
-                      <Label>Special Requests (Optional)</Label>
-                      <Textarea
-                        value={bookingForm.specialRequests}
-                        onChange={(e) => setBookingForm({ ...bookingForm, specialRequests: e.target.value })}
-                        rows={3}
-                        className="mt-1.5"
-                      />
-                    </div>
-                    <Button 
-                      type="submit" 
-                      disabled={submitting || (availableSeats !== null && availableSeats < bookingForm.seats)} 
-                      className="w-full"
-                    >
-                      {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Confirm Booking'}
-                    </Button>
-                  </form>
+                      <div>
+                        <Label>Date</Label>
+                        <Input
+                          type="date"
+                          value={bookingForm.date}
+                          onChange={(e) => setBookingForm({ ...bookingForm, date: e.target.value })}
+                          min={timeSlotService.toDateString(new Date())}
+                          required
+                          className="mt-1.5"
+                        />
+                      </div>
+                      <div>
+                        <Label>Time Slot</Label>
+                        <select
+                          value={bookingForm.timeSlot}
+                          onChange={(e) => setBookingForm({ ...bookingForm, timeSlot: e.target.value })}
+                          className="w-full mt-1.5 h-10 px-3 bg-input-background border border-input rounded-md"
+                          required
+                        >
+                          <option value="">Select time slot</option>
+                          {timeSlots.map((slot) => (
+                            <option key={slot.label} value={slot.label}>{slot.label}</option>
+                          ))}
+                        </select>
+                        {openingHours?.closed ? (
+                          <p className="text-sm mt-1 text-destructive">
+                            Closed on this date{openingHours.reason ? ` (${openingHours.reason})` : ''}
+                          </p>
+                        ) : bookingForm.date && timeSlots.length === 0 && (
+                          <p className="text-sm mt-1 text-muted-foreground">No time slots left on this date</p>
+                        )}
+                        {availability !== null && (
+                          <p className="text-sm mt-1 text-muted-foreground">
+                            {availability.closedReason
+                              ? availability.closedReason
+                              : availability.canSeat
+                              ? `Table for ${bookingForm.seats} available`
+                              : availability.largestParty > 0
+                                ? `No table for ${bookingForm.seats} guests. Largest party we can seat: ${availability.largestParty}`
+                                : 'Fully booked'}
+                          </p>
+                        )}
+                        {slotFull && (
+                          <p className="text-sm mt-1 text-muted-foreground">
+                            Join the waitlist and we'll offer you a table if one frees up.
+                            You'll have {CLAIM_WINDOW_MINUTES} minutes to claim it.
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label>Number of Seats</Label>
+                        <Input
+                          type="number"
+                          value={bookingForm.seats}
+                          onChange={(e) => setBookingForm({ ...bookingForm, seats: parseInt(e.target.value) })}
+                          min={1}
+                          max={20}
+                          required
+                          className="mt-1.5"
+                        />
+                      </div>
+                      {isAuthenticated && (
+                        <div className="space-y-2">
+                          <Label className="flex items-center gap-2">
+                            <Repeat className="h-4 w-4" />
+                            Repeat
+                          </Label>
+                          <select
+                            value={recurrence.frequency}
+                            onChange={(e) => setRecurrence({ ...recurrence, frequency: e.target.value as typeof recurrence.frequency })}
+                            className="w-full h-10 px-3 bg-input-background border border-input rounded-md"
+                          >
+                            <option value="none">Does not repeat</option>
+                            <option value="weekly">Every week</option>
+                            <option value="biweekly">Every 2 weeks</option>
+                          </select>
+                          {repeating && (
+                            <>
+                              <div className="grid grid-cols-2 gap-2">
+                                <select
+                                  value={recurrence.endType}
+                                  onChange={(e) => setRecurrence({ ...recurrence, endType: e.target.value as 'count' | 'date' })}
+                                  className="h-10 px-3 bg-input-background border border-input rounded-md"
+                                >
+                                  <option value="count">Number of times</option>
+                                  <option value="date">Until a date</option>
+                                </select>
+                                {recurrence.endType === 'count' ? (
+                                  <Input
+                                    type="number"
+                                    value={recurrence.occurrences}
+                                    onChange={(e) => setRecurrence({ ...recurrence, occurrences: parseInt(e.target.value) || 1 })}
+                                    min={2}
+                                    max={MAX_SERIES_OCCURRENCES}
+                                    required
+                                  />
+                                ) : (
+                                  <Input
+                                    type="date"
+                                    value={recurrence.endDate}
+                                    onChange={(e) => setRecurrence({ ...recurrence, endDate: e.target.value })}
+                                    min={bookingForm.date || undefined}
+                                    required
+                                  />
+                                )}
+                              </div>
+                              {seriesCheck && (
+                                <ul className="text-sm border border-border rounded-md p-3 space-y-1 max-h-40 overflow-y-auto">
+                                  {seriesCheck.map((occurrence) => (
+                                    <li
+                                      key={occurrence.date}
+                                      className={`flex justify-between gap-2 ${occurrence.conflict ? 'text-destructive' : ''}`}
+                                    >
+                                      <span>{timeSlotService.parseDate(occurrence.date).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}</span>
+                                      <span className="text-right">{occurrence.conflict ?? 'Available'}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      )}
+                      <div>
+                        <Label>Name</Label>
+                        <Input
+                          value={bookingForm.customerName}
+                          onChange={(e) => setBookingForm({ ...bookingForm, customerName: e.target.value })}
+                          required
+                          className="mt-1.5"
+                        />
+                      </div>
+                      <div>
+                        <Label>Email</Label>
+                        <Input
+                          type="email"
+                          value={bookingForm.customerEmail}
+                          onChange={(e) => setBookingForm({ ...bookingForm, customerEmail: e.target.value })}
+                          required
+                          className="mt-1.5"
+                        />
+                      </div>
+                      <div>
+                        <Label>Phone</Label>
+                        <Input
+                          type="tel"
+                          value={bookingForm.customerPhone}
+                          onChange={(e) => setBookingForm({ ...bookingForm, customerPhone: e.target.value })}
+                          required
+                          className="mt-1.5"
+                        />
+                      </div>
+                      <div>
+                        <Label>Special Requests (Optional)</Label>
+                        <Textarea
+                          value={bookingForm.specialRequests}
+                          onChange={(e) => setBookingForm({ ...bookingForm, specialRequests: e.target.value })}
+                          rows={3}
+                          className="mt-1.5"
+                        />
+                      </div>
+                      {!slotFull && (
+                        <BookingPreferenceFields value={preferences} onChange={setPreferences} />
+                      )}
+                      {!slotFull && menuItems.some(item => item.available) && (
+                        <div>
+                          {showPreOrder ? (
+                            <>
+                              <Label>Pre-order Dishes (Optional)</Label>
+                              <div className="mt-1.5 border border-border rounded-md p-3">
+                                <PreOrderEditor
+                                  menuItems={menuItems}
+                                  items={bookingForm.preOrder}
+                                  onChange={(preOrder) => setBookingForm({ ...bookingForm, preOrder })}
+                                />
+                              </div>
+                            </>
+                          ) : (
+                            <Button type="button" variant="outline" onClick={() => setShowPreOrder(true)} className="w-full">
+                              Pre-order Dishes (Optional)
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      <div className="text-sm text-muted-foreground border border-border rounded-md p-3 space-y-1">
+                        <p className="font-semibold text-foreground">Cancellation Policy</p>
+                        <p>
+                          Free cancellation up to {cancellationPolicy.freeCancellationHours} hours before your booking
+                          {freeCancellationUntil && ` (until ${freeCancellationUntil.toLocaleString([], {
+                            dateStyle: 'medium',
+                            timeStyle: 'short'
+                          })})`}.
+                        </p>
+                        <p>
+                          {cancellationPolicy.allowLateCancellation
+                            ? 'Later cancellations are recorded as late cancellations.'
+                            : 'Later cancellations are not accepted.'}
+                        </p>
+                        <p>
+                          You can change the booking up to {cancellationPolicy.maxModifications} time
+                          {cancellationPolicy.maxModifications === 1 ? '' : 's'}.
+                        </p>
+                      </div>
+                      {depositRequirement && !slotFull && (
+                        <div className="text-sm text-muted-foreground border border-primary/20 bg-primary/10 rounded-md p-3 space-y-1">
+                          <p className="font-semibold text-foreground">
+                            Deposit: ৳{depositRequirement.amount.toLocaleString()} ({depositRequirement.reason.toLowerCase()})
+                          </p>
+                          <p>
+                            Pay within {restaurant?.depositPolicy?.paymentWindowMinutes ?? DEFAULT_PAYMENT_WINDOW_MINUTES} minutes
+                            of booking or the table is released. It is refunded in full if you cancel in time
+                            {restaurant?.depositPolicy?.lateCancellationRefundPercent
+                              ? `, and ${restaurant.depositPolicy.lateCancellationRefundPercent}% after that.`
+                              : '.'}
+                          </p>
+                          {repeating && <p>Each date of a repeating booking needs its own deposit.</p>}
+                        </div>
+                      )}
+                      <Button 
+                        type="submit" 
+                        disabled={submitting || !!openingHours?.closed || !!availability?.closedReason || (repeating && bookableDates === 0)}
+                        className="w-full"
+                      >
+                        {submitting
+                          ? <Loader2 className="w-4 h-4 animate-spin" />
+                          : repeating ? `Book ${bookableDates} Date${bookableDates === 1 ? '' : 's'}`
+                          : slotFull ? 'Join Waitlist' : depositRequirement ? 'Continue to Payment' : 'Confirm Booking'}
+                      </Button>
+                    </form>
+                  )}
                 </DialogContent>
               </Dialog>
+
+              <DepositPaymentDialog
+                booking={paymentBooking}
+                onClose={() => {
+                  toast.info('Your table is held until the payment window closes', {
+                    description: isAuthenticated
+                      ? 'You can pay the deposit from your dashboard'
+                      : `You can pay the deposit under Find My Booking with ${paymentBooking?.referenceCode}`
+                  });
+                  setPaymentBooking(null);
+                }}
+                onPaid={() => setPaymentBooking(null)}
+              />
             </div>
           </div>
         </div>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router';
 import { ArrowLeft, Star, MapPin, Clock, Phone, Heart, Users, ChefHat } from 'lucide-react';
 import { db, Restaurant, MenuItem, Review } from '../lib/database';
+import { timeSlotService } from '../services/time-slot.service';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
@@ -37,14 +38,7 @@ export function RestaurantDetailsPage() {
   const [newReviewRating, setNewReviewRating] = useState(5);
   const [newReviewComment, setNewReviewComment] = useState('');
 
-  const timeSlots = [
-    '11:00 AM - 1:00 PM',
-    '1:00 PM - 3:00 PM',
-    '3:00 PM - 5:00 PM',
-    '5:00 PM - 7:00 PM',
-    '7:00 PM - 9:00 PM',
-    '9:00 PM - 11:00 PM'
-  ];
+  const timeSlots = restaurant ? timeSlotService.getTimeSlots(restaurant, bookingDate) : [];
 
   useEffect(() => {
     if (id) {
@@ -109,8 +103,8 @@ export function RestaurantDetailsPage() {
       return;
     }
 
-    if (seats > availableSeats) {
-      toast.error(`Only ${availableSeats} seats available for this time slot`);
+    if (!db.canSeatParty(restaurant.id, bookingDate, timeSlot, seats)) {
+      toast.error(`No table available for a party of ${seats} in this time slot`);
       return;
     }
 
@@ -447,8 +441,11 @@ export function RestaurantDetailsPage() {
                         id="date"
                         type="date"
                         value={bookingDate}
-                        onChange={(e) => setBookingDate(e.target.value)}
-                        min={new Date().toISOString().split('T')[0]}
+                        onChange={(e) => {
+                          setBookingDate(e.target.value);
+                          setTimeSlot('');
+                        }}
+                        min={timeSlotService.toDateString(new Date())}
                         required
                         className="mt-2"
                       />
@@ -465,8 +462,8 @@ export function RestaurantDetailsPage() {
                       >
                         <option value="">Select time slot</option>
                         {timeSlots.map((slot) => (
-                          <option key={slot} value={slot}>
-                            {slot}
+                          <option key={slot.label} value={slot.label}>
+                            {slot.label}
                           </option>
                         ))}
                       </select>
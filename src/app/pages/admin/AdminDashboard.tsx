@@ -1,13 +1,18 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router';
-import { ChefHat, LogOut, Home } from 'lucide-react';
+import { ChefHat, LogOut, Home, Store, Users, BarChart3 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { Button } from '../../components/ui/button';
-import { Card } from '../../components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { RestaurantApprovals } from './RestaurantApprovals';
+import { UserManagement } from './UserManagement';
+import { PlatformAnalytics } from './PlatformAnalytics';
 import { toast } from 'sonner';
 
 export function AdminDashboard() {
   const navigate = useNavigate();
   const { user, logout } = useAuth();
+  const [selectedTab, setSelectedTab] = useState('restaurants');
 
   const handleLogout = () => {
     logout();
@@ -47,17 +52,40 @@ export function AdminDashboard() {
         </div>
       </header>
 
-      <div className="container mx-auto px-4 py-8">
-        <Card className="p-8 text-center">
-          <h2 className="text-2xl font-bold mb-4">Admin Dashboard</h2>
-          <p className="text-muted-foreground mb-4">
-            Welcome, {user.name}! This is the Admin dashboard.
-          </p>
-          <p className="text-sm text-muted-foreground">
-            Admin features include managing users, approving restaurants, monitoring bookings,
-            and viewing platform analytics.
-          </p>
-        </Card>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Welcome, {user.name}!</h2>
+          <p className="text-muted-foreground">Review new restaurants, manage the people using ReserveX and follow how the platform is doing</p>
+        </div>
+
+        <Tabs value={selectedTab} onValueChange={setSelectedTab} className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="restaurants" className="gap-2">
+              <Store className="h-4 w-4" />
+              Restaurants
+            </TabsTrigger>
+            <TabsTrigger value="users" className="gap-2">
+              <Users className="h-4 w-4" />
+              Users
+            </TabsTrigger>
+            <TabsTrigger value="analytics" className="gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Analytics
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="restaurants">
+            <RestaurantApprovals />
+          </TabsContent>
+
+          <TabsContent value="users">
+            <UserManagement />
+          </TabsContent>
+
+          <TabsContent value="analytics">
+            <PlatformAnalytics />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
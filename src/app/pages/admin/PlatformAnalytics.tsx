@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { DateRange } from 'react-day-picker';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { CalendarRange, Loader2 } from 'lucide-react';
+import { analyticsService, AnalyticsRange, PlatformAnalytics as Analytics } from '../../services/analytics.service';
+import { BookingStatus, BOOKING_STATUS_LABELS } from '../../services/booking.service';
+import { timeSlotService } from '../../services/time-slot.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Calendar } from '../../components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '../../components/ui/popover';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '../../components/ui/chart';
+import { toast } from 'sonner';
+
+// Quick picks for the date range, in days back from today
+const RANGE_PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 }
+];
+
+// Bar colours per booking status (same hues as the status badges)
+const STATUS_COLORS: Record<BookingStatus, string> = {
+  'pending-payment': '#f97316',
+  pending: '#eab308',
+  confirmed: '#3b82f6',
+  seated: '#a855f7',
+  completed: '#22c55e',
+  cancelled: '#ef4444',
+  'no-show': '#6b7280'
+};
+
+const STATUS_CHART_CONFIG = Object.fromEntries(
+  (Object.keys(STATUS_COLORS) as BookingStatus[]).map(status => [
+    status,
+    { label: BOOKING_STATUS_LABELS[status], color: STATUS_COLORS[status] }
+  ])
+) satisfies ChartConfig;
+
+const COVERS_CHART_CONFIG = {
+  covers: { label: 'Covers', color: 'var(--chart-1)' }
+} satisfies ChartConfig;
+
+const RATES_CHART_CONFIG = {
+  cancellationRate: { label: 'Cancelled %', color: '#ef4444' },
+  noShowRate: { label: 'No-show %', color: '#6b7280' }
+} satisfies ChartConfig;
+
+const USERS_CHART_CONFIG = {
+  customers: { label: 'Customers', color: 'var(--chart-2)' },
+  managers: { label: 'Managers', color: 'var(--chart-4)' }
+} satisfies ChartConfig;
+
+const CUISINES_CHART_CONFIG = {
+  bookings: { label: 'Bookings', color: 'var(--chart-3)' }
+} satisfies ChartConfig;
+
+const RATING_CHART_CONFIG = {
+  averageRating: { label: 'Average rating', color: 'var(--chart-5)' }
+} satisfies ChartConfig;
+
+/**
+ * The last `days` days, ending today
+ */
+const getPresetRange = (days: number): AnalyticsRange => {
+  const today = new Date();
+  return {
+    from: timeSlotService.toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() - days + 1)),
+    to: timeSlotService.toDateString(today)
+  };
+};
+
+/**
+ * "2026-10-19" → "Oct 19"
+ */
+const formatDay = (date: string) =>
+  timeSlotService.parseDate(date).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+/**
+ * Card with a title and one chart (or a note when there is nothing to show)
+ */
+function ChartCard({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold mb-4">{title}</h3>
+      {empty ? (
+        <p className="text-center text-muted-foreground py-16">Nothing in this period</p>
+      ) : (
+        children
+      )}
+    </Card>
+  );
+}
+
+/**
+ * PlatformAnalytics Component
+ *
+ * Admin dashboard section: platform charts for a date range
+ */
+export function PlatformAnalytics() {
+  const [range, setRange] = useState<AnalyticsRange>(getPresetRange(30));
+  const [picking, setPicking] = useState<DateRange | undefined>();
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Ignore the answer for a range that was replaced while it loaded
+    let stale = false;
+
+    setLoading(true);
+    analyticsService.getPlatformAnalytics(range)
+      .then(result => !stale && setAnalytics(result))
+      .catch((error: any) => !stale && toast.error(error.message || 'Failed to load analytics'))
+      .finally(() => !stale && setLoading(false));
+
+    return () => {
+      stale = true;
+    };
+  }, [range.from, range.to]);
+
+  // A range picked on the calendar is used once both ends are chosen
+  const handlePick = (picked: DateRange | undefined) => {
+    setPicking(picked);
+    if (picked?.from && picked.to) {
+      setRange({ from: timeSlotService.toDateString(picked.from), to: timeSlotService.toDateString(picked.to) });
+      setPickerOpen(false);
+    }
+  };
+
+  const totals = analytics?.totals;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex gap-2 flex-wrap">
+          {RANGE_PRESETS.map((preset) => {
+            const presetRange = getPresetRange(preset.days);
+            const selected = presetRange.from === range.from && presetRange.to === range.to;
+            return (
+              <Button
+                key={preset.days}
+                size="sm"
+                variant={selected ? 'default' : 'outline'}
+                onClick={() => setRange(presetRange)}
+              >
+                {preset.label}
+              </Button>
+            );
+          })}
+        </div>
+        <Popover
+          open={pickerOpen}
+          onOpenChange={(open) => {
+            setPickerOpen(open);
+            setPicking(undefined);
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="gap-2">
+              <CalendarRange className="h-4 w-4" />
+              {formatDay(range.from)} – {formatDay(range.to)}, {range.to.slice(0, 4)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="range"
+              selected={picking}
+              onSelect={handlePick}
+              defaultMonth={timeSlotService.parseDate(range.from)}
+              numberOfMonths={2}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {loading && !analytics ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : analytics && totals && (
+        <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {[
+              { label: 'Bookings', value: totals.bookings },
+              { label: 'Covers', value: totals.covers },
+              { label: 'Cancelled', value: `${totals.cancellationRate}%` },
+              { label: 'No-shows', value: `${totals.noShowRate}%` },
+              { label: 'New Users', value: totals.newUsers },
+              { label: 'Avg. Rating', value: totals.averageRating ?? '–' }
+            ].map((stat) => (
+              <Card key={stat.label} className="p-4">
+                <p className="text-sm text-muted-foreground">{stat.label}</p>
+                <p className="text-2xl font-bold">{stat.value}</p>
+              </Card>
+            ))}
+          </div>
+
+          <ChartCard title="Bookings per Day" empty={totals.bookings === 0}>
+            <ChartContainer config={STATUS_CHART_CONFIG} className="h-72 w-full aspect-auto">
+              <BarChart data={analytics.bookingsPerDay}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {(Object.keys(STATUS_COLORS) as BookingStatus[]).map((status) => (
+                  <Bar key={status} dataKey={status} stackId="status" fill={`var(--color-${status})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ChartCard title="Covers by Restaurant" empty={analytics.coversByRestaurant.length === 0}>
+              <ChartContainer config={COVERS_CHART_CONFIG} className="h-72 w-full aspect-auto">
+                <BarChart data={analytics.coversByRestaurant} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="covers" fill="var(--color-covers)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Cancellation and No-show Rates" empty={totals.bookings === 0}>
+              <ChartContainer config={RATES_CHART_CONFIG} className="h-72 w-full aspect-auto">
+                <LineChart data={analytics.ratesPerWeek}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis unit="%" tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatDay(week)}`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="cancellationRate" stroke="var(--color-cancellationRate)" strokeWidth={2} connectNulls />
+                  <Line dataKey="noShowRate" stroke="var(--color-noShowRate)" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="New Users per Week" empty={totals.newUsers === 0}>
+              <ChartContainer config={USERS_CHART_CONFIG} className="h-72 w-full aspect-auto">
+                <BarChart data={analytics.newUsersPerWeek}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="week" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatDay(week)}`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="customers" stackId="role" fill="var(--color-customers)" />
+                  <Bar dataKey="managers" stackId="role" fill="var(--color-managers)" />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard title="Top Cuisines by Bookings" empty={analytics.topCuisines.length === 0}>
+              <ChartContainer config={CUISINES_CHART_CONFIG} className="h-72 w-full aspect-auto">
+                <BarChart data={analytics.topCuisines}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="cuisine" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="bookings" fill="var(--color-bookings)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+          </div>
+
+          <ChartCard title="Average Rating over Time" empty={totals.averageRating === null}>
+            <ChartContainer config={RATING_CHART_CONFIG} className="h-72 w-full aspect-auto">
+              <LineChart data={analytics.ratingPerWeek}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(week) => `Week of ${formatDay(week)}`} />} />
+                <Line dataKey="averageRating" stroke="var(--color-averageRating)" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ChartContainer>
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+}
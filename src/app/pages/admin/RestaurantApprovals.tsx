@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Search, Eye } from 'lucide-react';
+import {
+  restaurantService,
+  Restaurant,
+  RestaurantStatus,
+  RESTAURANT_STATUS_LABELS
+} from '../../services/restaurant.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { RestaurantStatusBadge } from '../../components/RestaurantStatus';
+import { RestaurantReviewDialog } from '../../components/RestaurantReviewDialog';
+import { toast } from 'sonner';
+
+/**
+ * RestaurantApprovals Component
+ *
+ * Admin dashboard section: the queue of restaurants waiting for approval,
+ * and every restaurant on the platform with its status
+ */
+export function RestaurantApprovals() {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<RestaurantStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [reviewing, setReviewing] = useState<Restaurant | null>(null);
+
+  useEffect(() => {
+    restaurantService.getAdminRestaurants()
+      .then(setRestaurants)
+      .catch((error: any) => toast.error(error.message || 'Failed to load restaurants'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleStatusChange = (updated: Restaurant) => {
+    setRestaurants(restaurants.map(r => r.id === updated.id ? updated : r));
+    setReviewing(null);
+  };
+
+  const pending = restaurants.filter(r => r.status === 'pending');
+  const searchLower = search.trim().toLowerCase();
+  const filtered = restaurants.filter(r =>
+    (statusFilter === 'all' || r.status === statusFilter) &&
+    (!searchLower || r.name.toLowerCase().includes(searchLower) || r.city.toLowerCase().includes(searchLower))
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <h3 className="text-xl font-bold mb-4">
+          Waiting for Approval {pending.length > 0 && `(${pending.length})`}
+        </h3>
+        {pending.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No restaurants are waiting for approval</p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((restaurant) => (
+              <div key={restaurant.id} className="flex items-center gap-4 p-4 border border-border rounded-lg">
+                {restaurant.image ? (
+                  <img src={restaurant.image} alt={restaurant.name} className="w-16 h-16 object-cover rounded-md" />
+                ) : (
+                  <div className="w-16 h-16 rounded-md bg-muted" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-semibold truncate">{restaurant.name}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {restaurant.cuisine} • {restaurant.city} • Submitted {new Date(restaurant.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button onClick={() => setReviewing(restaurant)} className="gap-2">
+                  <Eye className="h-4 w-4" />
+                  Review
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+          <h3 className="text-xl font-bold">All Restaurants</h3>
+          <div className="flex gap-2 flex-wrap">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Name or city"
+                className="pl-9 w-48"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as RestaurantStatus | 'all')}
+              className="h-10 px-3 bg-input-background border border-input rounded-md"
+            >
+              <option value="all">All statuses</option>
+              {(Object.keys(RESTAURANT_STATUS_LABELS) as RestaurantStatus[]).map((status) => (
+                <option key={status} value={status}>{RESTAURANT_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No restaurants match</p>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map((restaurant) => (
+              <div key={restaurant.id} className="flex items-center justify-between gap-4 p-3 border border-border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{restaurant.name}</p>
+                  <p className="text-sm text-muted-foreground">{restaurant.cuisine} • {restaurant.city}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <RestaurantStatusBadge status={restaurant.status} />
+                  <Button size="sm" variant="outline" onClick={() => setReviewing(restaurant)}>
+                    View
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <RestaurantReviewDialog
+        restaurant={reviewing}
+        onClose={() => setReviewing(null)}
+        onStatusChange={handleStatusChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Search, Star, ChevronLeft, ChevronRight, LogOut, Ban, CheckCircle } from 'lucide-react';
+import { authService, User, UserPage } from '../../services/auth.service';
+import { bookingService } from '../../services/booking.service';
+import { reviewService, Review } from '../../services/review.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Badge } from '../../components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { toast } from 'sonner';
+
+// Milliseconds without typing before the search runs
+const SEARCH_DELAY_MS = 300;
+
+const ROLE_LABELS: Record<User['role'], string> = {
+  customer: 'Customer',
+  manager: 'Manager',
+  admin: 'Admin'
+};
+
+// A listed user with their activity
+interface AdminUser extends User {
+  bookingCount: number;          // Bookings the user has made
+  reviewCount: number;           // Reviews the user has written
+}
+
+type AdminUserPage = Omit<UserPage, 'users'> & { users: AdminUser[] };
+
+/**
+ * Load a page of users with their booking and review counts
+ */
+const loadUsers = async (query: Parameters<typeof authService.getUsers>[0]): Promise<AdminUserPage> => {
+  const userPage = await authService.getUsers(query);
+  const userIds = userPage.users.map(u => u.id);
+  const [bookingCounts, reviewCounts] = await Promise.all([
+    bookingService.getBookingCounts(userIds),
+    reviewService.getReviewCounts(userIds)
+  ]);
+
+  return {
+    ...userPage,
+    users: userPage.users.map(u => ({
+      ...u,
+      bookingCount: bookingCounts[u.id] ?? 0,
+      reviewCount: reviewCounts[u.id] ?? 0
+    }))
+  };
+};
+
+/**
+ * UserManagement Component
+ *
+ * Admin dashboard section: search and page through every user, see their
+ * bookings and reviews, change their role, suspend or reactivate them and
+ * end their sessions
+ */
+export function UserManagement() {
+  const [result, setResult] = useState<AdminUserPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<User['role'] | ''>('');
+  const [page, setPage] = useState(1);
+  const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loadingReviews, setLoadingReviews] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setLoading(true);
+      loadUsers({ search, role: roleFilter || undefined, page })
+        .then(setResult)
+        .catch((error: any) => toast.error(error.message || 'Failed to load users'))
+        .finally(() => setLoading(false));
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [search, roleFilter, page]);
+
+  useEffect(() => {
+    if (!selectedUser) return;
+
+    setLoadingReviews(true);
+    reviewService.getAllReviews({ userId: selectedUser.id })
+      .then(setReviews)
+      .catch((error: any) => toast.error(error.message || 'Failed to load reviews'))
+      .finally(() => setLoadingReviews(false));
+  }, [selectedUser?.id]);
+
+  // Apply a change an admin made to the list and the open dialog
+  const applyUpdate = (updated: User) => {
+    if (!result) return;
+
+    const merge = (u: AdminUser) => u.id === updated.id ? { ...u, ...updated } : u;
+    setResult({ ...result, users: result.users.map(merge) });
+    setSelectedUser(selectedUser && merge(selectedUser));
+  };
+
+  const runAction = async (action: () => Promise<User>, message: string) => {
+    setUpdating(true);
+    try {
+      applyUpdate(await action());
+      toast.success(message);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the user');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRoleChange = (user: AdminUser, role: 'customer' | 'manager') => {
+    if (!window.confirm(`Make ${user.name} a ${ROLE_LABELS[role].toLowerCase()}? They will be logged out.`)) return;
+    runAction(() => authService.updateUserRole(user.id, role), `${user.name} is now a ${ROLE_LABELS[role].toLowerCase()}`);
+  };
+
+  const handleStatusChange = (user: AdminUser) => {
+    if (user.status === 'suspended') {
+      runAction(() => authService.updateUserStatus(user.id, 'active'), `${user.name} reactivated`);
+      return;
+    }
+
+    if (!window.confirm(`Suspend ${user.name}? They will be logged out and can't log in again until reactivated.`)) return;
+    runAction(() => authService.updateUserStatus(user.id, 'suspended'), `${user.name} suspended`);
+  };
+
+  const handleForceLogout = (user: AdminUser) => {
+    if (!window.confirm(`Log ${user.name} out of every device?`)) return;
+    runAction(() => authService.forceLogout(user.id), `${user.name} logged out`);
+  };
+
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+        <h3 className="text-xl font-bold">Users {result && `(${result.total})`}</h3>
+        <div className="flex gap-2 flex-wrap">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              placeholder="Name, email or phone"
+              className="pl-9 w-56"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => {
+              setRoleFilter(e.target.value as User['role'] | '');
+              setPage(1);
+            }}
+            className="h-10 px-3 bg-input-background border border-input rounded-md"
+          >
+            <option value="">All roles</option>
+            {(Object.keys(ROLE_LABELS) as User['role'][]).map((role) => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !result ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !result || result.users.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No users match</p>
+      ) : (
+        <div className={`space-y-2 ${loading ? 'opacity-60' : ''}`}>
+          <div className="hidden md:grid grid-cols-[2fr_1fr_1fr_1fr_1fr_auto] gap-4 px-3 text-sm text-muted-foreground">
+            <span>User</span>
+            <span>Role</span>
+            <span>Bookings</span>
+            <span>Reviews</span>
+            <span>Status</span>
+            <span className="w-14" />
+          </div>
+          {result.users.map((user) => (
+            <div
+              key={user.id}
+              className="grid grid-cols-2 md:grid-cols-[2fr_1fr_1fr_1fr_1fr_auto] gap-4 items-center p-3 border border-border rounded-lg"
+            >
+              <div className="min-w-0 col-span-2 md:col-span-1">
+                <p className="font-medium truncate">{user.name}</p>
+                <p className="text-sm text-muted-foreground truncate">{user.email}</p>
+              </div>
+              <span className="text-sm">{ROLE_LABELS[user.role]}</span>
+              <span className="text-sm">{user.bookingCount}</span>
+              <span className="text-sm">{user.reviewCount}</span>
+              <div>
+                {user.status === 'suspended' ? (
+                  <Badge className="bg-red-500/10 text-red-500 border-red-500/20 border">Suspended</Badge>
+                ) : (
+                  <Badge className="bg-green-500/10 text-green-500 border-green-500/20 border">Active</Badge>
+                )}
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setSelectedUser(user)}>
+                View
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result && pageCount > 1 && (
+        <div className="flex items-center justify-end gap-2 mt-4">
+          <Button size="icon" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {pageCount}</span>
+          <Button size="icon" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pageCount || loading}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={selectedUser !== null} onOpenChange={(isOpen) => !isOpen && setSelectedUser(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedUser?.name}</DialogTitle>
+          </DialogHeader>
+          {selectedUser && (
+            <div className="space-y-5">
+              <div className="text-sm text-muted-foreground space-y-1">
+                <p>{selectedUser.email}{selectedUser.phone && ` • ${selectedUser.phone}`}</p>
+                <p>Joined {new Date(selectedUser.createdAt).toLocaleDateString()}</p>
+                <p>{selectedUser.bookingCount} bookings • {selectedUser.reviewCount} reviews</p>
+                {selectedUser.sessionsRevokedAt && (
+                  <p>Last logged out by an admin {new Date(selectedUser.sessionsRevokedAt).toLocaleString()}</p>
+                )}
+              </div>
+
+              {selectedUser.role === 'admin' ? (
+                <p className="text-sm text-muted-foreground">Admin accounts can't be changed here</p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm font-medium">Role</span>
+                    <select
+                      value={selectedUser.role}
+                      onChange={(e) => handleRoleChange(selectedUser, e.target.value as 'customer' | 'manager')}
+                      disabled={updating}
+                      className="h-10 px-3 bg-input-background border border-input rounded-md"
+                    >
+                      <option value="customer">Customer</option>
+                      <option value="manager">Manager</option>
+                    </select>
+                  </div>
+                  <div className="flex gap-2 justify-end">
+                    <Button
+                      variant="outline"
+                      onClick={() => handleForceLogout(selectedUser)}
+                      disabled={updating}
+                      className="gap-2"
+                    >
+                      <LogOut className="h-4 w-4" />
+                      Force Logout
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleStatusChange(selectedUser)}
+                      disabled={updating}
+                      className={`gap-2 ${selectedUser.status === 'suspended' ? '' : 'text-destructive'}`}
+                    >
+                      {selectedUser.status === 'suspended' ? (
+                        <>
+                          <CheckCircle className="h-4 w-4" />
+                          Reactivate
+                        </>
+                      ) : (
+                        <>
+                          <Ban className="h-4 w-4" />
+                          Suspend
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h4 className="font-semibold mb-2">Reviews</h4>
+                {loadingReviews ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                  </div>
+                ) : reviews.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No reviews written</p>
+                ) : (
+                  <div className="space-y-3">
+                    {reviews.map((review) => (
+                      <div key={review.id} className="p-3 border border-border rounded-lg text-sm">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="font-medium">{review.restaurant?.name ?? 'Restaurant'}</span>
+                          <span className="flex items-center gap-1 text-muted-foreground">
+                            <Star className="h-4 w-4 fill-primary text-primary" />
+                            {review.rating} • {new Date(review.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        <p className="text-muted-foreground">{review.comment}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
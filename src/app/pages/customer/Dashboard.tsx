@@ -12,11 +12,21 @@ import {
   Clock,
   Trash2,
   Loader2,
-  X
+  X,
+  History,
+  Pencil,
+  CalendarPlus,
+  Rss,
+  UtensilsCrossed,
+  CreditCard,
+  Repeat
 } from 'lucide-react';
 import { favouriteService, Favourite } from '../../services/favourite.service';
-import { bookingService, Booking } from '../../services/booking.service';
+import { restaurantService } from '../../services/restaurant.service';
+import { bookingService, Booking, BookingStatus } from '../../services/booking.service';
 import { reviewService, Review } from '../../services/review.service';
+import { waitlistService, WaitlistEntry } from '../../services/waitlist.service';
+import { calendarService } from '../../services/calendar.service';
 import { useAuth } from '../../contexts/AuthContext';
 import { Button } from '../../components/ui/button';
 import { Card } from '../../components/ui/card';
@@ -24,6 +34,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/ta
 import { Badge } from '../../components/ui/badge';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import { BookingStatusBadge, BookingStatusHistory } from '../../components/BookingStatus';
+import { ModifyBookingDialog } from '../../components/ModifyBookingDialog';
+import { BookingQRCode } from '../../components/BookingQRCode';
+import { PreOrderDialog, PreOrderSummary } from '../../components/PreOrder';
+import { DepositPaymentDialog, DepositSummary } from '../../components/DepositPayment';
+import { BookingPreferenceBadges } from '../../components/BookingPreferences';
 import { toast } from 'sonner';
 
 export function CustomerDashboard() {
@@ -32,9 +49,15 @@ export function CustomerDashboard() {
 
   const [favourites, setFavourites] = useState<Favourite[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTab, setSelectedTab] = useState('overview');
+  const [detailBooking, setDetailBooking] = useState<Booking | null>(null);
+  const [modifyBooking, setModifyBooking] = useState<Booking | null>(null);
+  const [preOrderBooking, setPreOrderBooking] = useState<Booking | null>(null);
+  const [paymentBooking, setPaymentBooking] = useState<Booking | null>(null);
+  const [claimableBookings, setClaimableBookings] = useState<Booking[]>([]);
 
   // Profile edit state
   const [editName, setEditName] = useState('');
@@ -57,10 +80,12 @@ export function CustomerDashboard() {
   const loadDashboardData = async () => {
     setLoading(true);
     try {
-      const [favData, bookData, revData] = await Promise.all([
+      const [favData, bookData, revData, waitData, claimData] = await Promise.all([
         favouriteService.getMyFavourites(),
         bookingService.getMyBookings(),
-        reviewService.getMyReviews()
+        reviewService.getMyReviews(),
+        waitlistService.getMyWaitlist(),
+        bookingService.getClaimableGuestBookings()
       ]);
 
       setFavourites(favData);
@@ -68,6 +93,8 @@ export function CustomerDashboard() {
         new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       ));
       setReviews(revData);
+      setWaitlist(waitData.filter(e => e.status === 'waiting' || e.status === 'offered'));
+      setClaimableBookings(claimData);
     } catch (error: any) {
       toast.error(error.message || 'Failed to load dashboard data');
     } finally {
@@ -80,18 +107,123 @@ export function CustomerDashboard() {
     navigate('/');
   };
 
-  const handleCancelBooking = async (bookingId: string) => {
-    if (!window.confirm('Are you sure you want to cancel this booking?')) return;
+  // Guest bookings made with this email before the account existed
+  const handleClaimBookings = async () => {
+    try {
+      const claimed = await bookingService.claimGuestBookings();
+      toast.success(`${claimed.length} booking${claimed.length === 1 ? '' : 's'} added to your account`);
+      loadDashboardData();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to claim bookings');
+    }
+  };
+
+  const handleCancelBooking = async (booking: Booking) => {
+    // Warn before a late cancellation (or refuse one the restaurant won't accept)
+    let message = 'Are you sure you want to cancel this booking?';
+    try {
+      const restaurant = await restaurantService.getRestaurantById(booking.restaurantId);
+      const terms = bookingService.getCancellationTerms(booking, restaurant.cancellationPolicy);
+      if (!terms.canCancel) {
+        toast.error('The free-cancellation window has passed. Please contact the restaurant');
+        return;
+      }
+      if (terms.isLate) {
+        message = 'The free-cancellation window has passed. This will be recorded as a late cancellation. Cancel anyway?';
+      }
+      // Tell the customer how much of a paid deposit comes back
+      if (booking.deposit?.status === 'paid') {
+        const refund = bookingService.getDepositRefund(booking.deposit, terms.isLate, restaurant.depositPolicy);
+        message += refund === booking.deposit.amount
+          ? `\n\nYour deposit of ৳${refund.toLocaleString()} will be refunded.`
+          : `\n\n৳${refund.toLocaleString()} of your ৳${booking.deposit.amount.toLocaleString()} deposit will be refunded.`;
+      }
+    } catch (error) {
+      // Without the policy the service still enforces it on cancel
+    }
+
+    if (!window.confirm(message)) return;
 
     try {
-      await bookingService.cancelBooking(bookingId);
-      toast.success('Booking cancelled');
+      const cancelled = await bookingService.cancelBooking(booking.id);
+      // Lets customers remove the event they added earlier
+      toast.success('Booking cancelled', {
+        action: {
+          label: 'Update Calendar',
+          onClick: () => calendarService.downloadBookingEvent(cancelled)
+        }
+      });
       loadDashboardData();
     } catch (error: any) {
       toast.error(error.message || 'Failed to cancel booking');
     }
   };
 
+  // Cancels every upcoming booking of a recurring series
+  const handleCancelSeries = async (booking: Booking) => {
+    const count = upcomingBookings.filter(b => b.seriesId === booking.seriesId).length;
+    if (!window.confirm(`Cancel all ${count} upcoming bookings of this series?`)) return;
+
+    try {
+      const cancelled = await bookingService.cancelSeries(booking.seriesId!);
+      if (cancelled.length < count) {
+        toast.warning(`${cancelled.length} of ${count} bookings cancelled`, {
+          description: 'The others are past their cancellation window. Please contact the restaurant'
+        });
+      } else {
+        toast.success('Series cancelled');
+      }
+      loadDashboardData();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to cancel the series');
+    }
+  };
+
+  // Calendar apps subscribe to the feed URL; demo mode has none, so the
+  // upcoming bookings are downloaded instead
+  const handleCalendarFeed = async () => {
+    const url = await calendarService.getFeedUrl();
+    if (!url) {
+      calendarService.downloadFeed(bookings);
+      toast.success('Upcoming bookings downloaded', {
+        description: 'Calendar subscriptions are not available in demo mode'
+      });
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Calendar feed link copied', {
+        description: 'Add it to your calendar app as a subscription'
+      });
+    } catch (error) {
+      window.prompt('Copy this link into your calendar app:', url);
+    }
+  };
+
+  const handleClaimOffer = async (entryId: string) => {
+    try {
+      await waitlistService.claimOffer(entryId);
+      toast.success('Table claimed! Your booking is waiting for confirmation');
+      loadDashboardData();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to claim the table');
+      loadDashboardData();
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    if (!window.confirm('Are you sure you want to leave the waitlist?')) return;
+
+    try {
+      await waitlistService.leaveWaitlist(entryId);
+      toast.success('You left the waitlist');
+      loadDashboardData();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to leave the waitlist');
+    }
+  };
+
   const handleDeleteReview = async (reviewId: string) => {
     if (!window.confirm('Are you sure you want to delete this review?')) return;
 
@@ -134,26 +266,14 @@ export function CustomerDashboard() {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const variants: Record<string, string> = {
-      pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
-      confirmed: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
-      completed: 'bg-green-500/10 text-green-500 border-green-500/20',
-      cancelled: 'bg-red-500/10 text-red-500 border-red-500/20'
-    };
-
-    return (
-      <Badge className={`${variants[status] || ''} border`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
-      </Badge>
-    );
-  };
+  const getStatusBadge = (status: BookingStatus) => <BookingStatusBadge status={status} />;
 
+  // Completed, cancelled and no-show bookings are final
   const upcomingBookings = bookings.filter(b => 
-    b.status !== 'cancelled' && b.status !== 'completed'
+    bookingService.getNextStatuses(b.status).length > 0
   );
   const pastBookings = bookings.filter(b => 
-    b.status === 'completed' || b.status === 'cancelled'
+    bookingService.getNextStatuses(b.status).length === 0
   );
 
   if (loading) {
@@ -198,6 +318,24 @@ export function CustomerDashboard() {
           <p className="text-muted-foreground">Manage your bookings, favourites, and reviews</p>
         </div>
 
+        {claimableBookings.length > 0 && (
+          <Card className="p-4 mb-6 flex items-center justify-between gap-4 flex-wrap border-primary/40">
+            <p className="text-sm">
+              We found {claimableBookings.length} booking{claimableBookings.length === 1 ? '' : 's'} you
+              made as a guest with {user?.email}. Add {claimableBookings.length === 1 ? 'it' : 'them'} to
+              your account?
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleClaimBookings}>
+                Claim These Bookings
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setClaimableBookings([])}>
+                Not Now
+              </Button>
+            </div>
+          </Card>
+        )}
+
         <Tabs value={selectedTab} onValueChange={setSelectedTab} className="space-y-6">
           <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
             <TabsTrigger value="overview" className="gap-2">
@@ -274,6 +412,7 @@ export function CustomerDashboard() {
                           <span>•</span>
                           <span>{booking.seats} seats</span>
                         </div>
+                        <BookingPreferenceBadges booking={booking} className="mt-2" />
                       </div>
                       {getStatusBadge(booking.status)}
                     </div>
@@ -286,7 +425,13 @@ export function CustomerDashboard() {
           {/* Bookings Tab */}
           <TabsContent value="bookings" className="space-y-6">
             <Card className="p-6">
-              <h3 className="text-xl font-bold mb-4">Upcoming Bookings</h3>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <h3 className="text-xl font-bold">Upcoming Bookings</h3>
+                <Button size="sm" variant="outline" onClick={handleCalendarFeed} className="gap-2">
+                  <Rss className="h-4 w-4" />
+                  Calendar Feed
+                </Button>
+              </div>
               {upcomingBookings.length === 0 ? (
                 <p className="text-center text-muted-foreground py-8">No upcoming bookings</p>
               ) : (
@@ -298,7 +443,18 @@ export function CustomerDashboard() {
                           <h4 className="font-bold text-lg">{booking.restaurant?.name}</h4>
                           <p className="text-sm text-muted-foreground">{booking.restaurant?.location}</p>
                         </div>
-                        {getStatusBadge(booking.status)}
+                        <div className="flex items-center gap-2">
+                          {booking.seriesId && (
+                            <Badge variant="outline" className="gap-1">
+                              <Repeat className="h-3 w-3" />
+                              Series
+                            </Badge>
+                          )}
+                          {booking.referenceCode && (
+                            <span className="font-mono text-sm text-muted-foreground">{booking.referenceCode}</span>
+                          )}
+                          {getStatusBadge(booking.status)}
+                        </div>
                       </div>
 
                       <div className="grid grid-cols-2 gap-4 mb-4">
@@ -312,7 +468,9 @@ export function CustomerDashboard() {
                         </div>
                       </div>
 
-                      <div className="flex gap-2">
+                      <BookingPreferenceBadges booking={booking} className="mb-4" />
+
+                      <div className="flex gap-2 flex-wrap">
                         <Button 
                           size="sm" 
                           variant="outline"
@@ -320,13 +478,66 @@ export function CustomerDashboard() {
                         >
                           View Restaurant
                         </Button>
-                        {booking.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDetailBooking(booking)}
+                        >
+                          <History className="h-4 w-4 mr-1" />
+                          Details
+                        </Button>
+                        {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setModifyBooking(booking)}
+                          >
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Modify
+                          </Button>
+                        )}
+                        {booking.status === 'pending-payment' && (
+                          <Button size="sm" onClick={() => setPaymentBooking(booking)}>
+                            <CreditCard className="h-4 w-4 mr-1" />
+                            Pay Deposit
+                          </Button>
+                        )}
+                        {bookingService.canEditPreOrder(booking) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPreOrderBooking(booking)}
+                          >
+                            <UtensilsCrossed className="h-4 w-4 mr-1" />
+                            {booking.preOrder?.length ? 'Edit Pre-order' : 'Pre-order'}
+                          </Button>
+                        )}
+                        {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => calendarService.downloadBookingEvent(booking)}
+                          >
+                            <CalendarPlus className="h-4 w-4 mr-1" />
+                            Add to Calendar
+                          </Button>
+                        )}
+                        {bookingService.canTransition(booking.status, 'cancelled') && (
                           <Button 
                             size="sm" 
                             variant="destructive"
-                            onClick={() => handleCancelBooking(booking.id)}
+                            onClick={() => handleCancelBooking(booking)}
+                          >
+                            {booking.seriesId ? 'Cancel This Date' : 'Cancel Booking'}
+                          </Button>
+                        )}
+                        {booking.seriesId && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleCancelSeries(booking)}
                           >
-                            Cancel Booking
+                            Cancel Series
                           </Button>
                         )}
                       </div>
@@ -336,6 +547,59 @@ export function CustomerDashboard() {
               )}
             </Card>
 
+            {waitlist.length > 0 && (
+              <Card className="p-6">
+                <h3 className="text-xl font-bold mb-4">Waitlist</h3>
+                <div className="space-y-4">
+                  {waitlist.map((entry) => (
+                    <div key={entry.id} className="border border-border rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-3">
+                        <div className="flex-1">
+                          <h4 className="font-bold text-lg">{entry.restaurant?.name}</h4>
+                          <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
+                            <span>{new Date(entry.date).toLocaleDateString()}</span>
+                            <span>•</span>
+                            <span>{entry.timeSlot}</span>
+                            <span>•</span>
+                            <span>{entry.seats} seats</span>
+                          </div>
+                        </div>
+                        {entry.status === 'offered' ? (
+                          <Badge className="bg-green-500/10 text-green-500 border-green-500/20 border">
+                            Table available
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">#{entry.position} in line</Badge>
+                        )}
+                      </div>
+
+                      {entry.status === 'offered' && entry.offerExpiresAt && (
+                        <p className="text-sm mb-3">
+                          A table freed up for you. Claim it before{' '}
+                          {new Date(entry.offerExpiresAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.
+                        </p>
+                      )}
+
+                      <div className="flex gap-2">
+                        {entry.status === 'offered' && (
+                          <Button size="sm" onClick={() => handleClaimOffer(entry.id)}>
+                            Claim Table
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleLeaveWaitlist(entry.id)}
+                        >
+                          {entry.status === 'offered' ? 'Decline' : 'Leave Waitlist'}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
             <Card className="p-6">
               <h3 className="text-xl font-bold mb-4">Past Bookings</h3>
               {pastBookings.length === 0 ? (
@@ -352,8 +616,14 @@ export function CustomerDashboard() {
                             <span>•</span>
                             <span>{booking.timeSlot}</span>
                           </div>
+                          <BookingPreferenceBadges booking={booking} className="mt-2" />
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button size="sm" variant="ghost" onClick={() => setDetailBooking(booking)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {getStatusBadge(booking.status)}
                         </div>
-                        {getStatusBadge(booking.status)}
                       </div>
                     </div>
                   ))}
@@ -537,6 +807,80 @@ export function CustomerDashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      {/* Modify Booking Dialog */}
+      <ModifyBookingDialog
+        booking={modifyBooking}
+        onClose={() => setModifyBooking(null)}
+        onModified={() => {
+          setModifyBooking(null);
+          loadDashboardData();
+        }}
+      />
+
+      {/* Deposit Payment Dialog */}
+      <DepositPaymentDialog
+        booking={paymentBooking}
+        onClose={() => setPaymentBooking(null)}
+        onPaid={() => {
+          setPaymentBooking(null);
+          loadDashboardData();
+        }}
+      />
+
+      {/* Pre-order Dialog */}
+      <PreOrderDialog
+        booking={preOrderBooking}
+        onClose={() => setPreOrderBooking(null)}
+        onSaved={() => {
+          setPreOrderBooking(null);
+          loadDashboardData();
+        }}
+      />
+
+      {/* Booking Details Dialog */}
+      <Dialog open={detailBooking !== null} onOpenChange={(open) => !open && setDetailBooking(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{detailBooking?.restaurant?.name}</DialogTitle>
+          </DialogHeader>
+          {detailBooking && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-muted-foreground">
+                  {detailBooking.referenceCode && (
+                    <p className="font-mono font-semibold text-foreground">{detailBooking.referenceCode}</p>
+                  )}
+                  <p>{new Date(detailBooking.date).toLocaleDateString()} • {detailBooking.timeSlot}</p>
+                  <p>{detailBooking.seats} seats</p>
+                </div>
+                {getStatusBadge(detailBooking.status)}
+              </div>
+              <BookingPreferenceBadges booking={detailBooking} />
+              {detailBooking.specialRequests && (
+                <p className="text-sm">{detailBooking.specialRequests}</p>
+              )}
+              {detailBooking.lateCancellation && (
+                <p className="text-sm text-destructive">Cancelled after the free-cancellation window</p>
+              )}
+              {detailBooking.status === 'confirmed' && (
+                <BookingQRCode booking={detailBooking} />
+              )}
+              {detailBooking.deposit && <DepositSummary deposit={detailBooking.deposit} />}
+              {detailBooking.preOrder?.length ? (
+                <div>
+                  <h4 className="font-semibold mb-2">Pre-order</h4>
+                  <PreOrderSummary items={detailBooking.preOrder} />
+                </div>
+              ) : null}
+              <div>
+                <h4 className="font-semibold mb-2">Status History</h4>
+                <BookingStatusHistory booking={detailBooking} />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router';
+import { DndProvider } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
+import { ChefHat, ArrowLeft, Loader2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { restaurantService, Restaurant, Table } from '../../services/restaurant.service';
+import { tableService, getTableStates } from '../../services/table.service';
+import { bookingService, Booking } from '../../services/booking.service';
+import { timeSlotService } from '../../services/time-slot.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
+import { FloorPlanEditor, LiveFloorPlan } from '../../components/FloorPlan';
+import { toast } from 'sonner';
+
+// Statuses shown next to the live floor plan (the ones that hold a table)
+const LIVE_STATUSES: Booking['status'][] = ['pending-payment', 'pending', 'confirmed', 'seated'];
+
+/**
+ * The slot being served now, or the next one today (the first slot on
+ * other days)
+ */
+const getCurrentSlot = (restaurant: Restaurant, date: string): string => {
+  const slots = timeSlotService.getTimeSlots(restaurant, date, { includeStarted: true });
+  if (date !== timeSlotService.toDateString(new Date())) {
+    return slots[0]?.label ?? '';
+  }
+
+  const now = new Date();
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return (slots.find(slot => slot.end > minutes) ?? slots[slots.length - 1])?.label ?? '';
+};
+
+export function FloorPlanPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurantId, setSelectedRestaurantId] = useState('');
+  const [tables, setTables] = useState<Table[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [date, setDate] = useState(() => timeSlotService.toDateString(new Date()));
+  const [timeSlot, setTimeSlot] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const restaurant = restaurants.find(r => r.id === selectedRestaurantId);
+
+  useEffect(() => {
+    if (!user || user.role !== 'manager') return;
+
+    restaurantService.getMyRestaurants()
+      .then((data) => {
+        setRestaurants(data);
+        setSelectedRestaurantId(data[0]?.id ?? '');
+      })
+      .catch((error: any) => toast.error(error.message || 'Failed to load restaurants'))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  useEffect(() => {
+    if (!selectedRestaurantId) return;
+
+    tableService.getRestaurantTables(selectedRestaurantId)
+      .then(setTables)
+      .catch((error: any) => toast.error(error.message || 'Failed to load tables'));
+  }, [selectedRestaurantId]);
+
+  useEffect(() => {
+    if (selectedRestaurantId) {
+      loadBookings();
+    }
+  }, [selectedRestaurantId, date]);
+
+  // Start on the slot being served when the restaurant or date changes
+  useEffect(() => {
+    if (restaurant) {
+      setTimeSlot(getCurrentSlot(restaurant, date));
+    }
+  }, [restaurant?.id, date]);
+
+  const loadBookings = async () => {
+    try {
+      setBookings(await bookingService.getRestaurantBookings(selectedRestaurantId, { date }));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load bookings');
+    }
+  };
+
+  const handleAssign = async (bookingId: string, tableId: string) => {
+    try {
+      await bookingService.assignTables(bookingId, [tableId]);
+      const table = tables.find(t => t.id === tableId);
+      toast.success(`Booking moved to ${table?.label ?? 'the table'}`);
+      loadBookings();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to assign the table');
+    }
+  };
+
+  if (!user || user.role !== 'manager') {
+    navigate('/');
+    return null;
+  }
+
+  const slots = restaurant ? timeSlotService.getTimeSlots(restaurant, date, { includeStarted: true }) : [];
+  const slotBookings = bookings.filter(b => timeSlot && timeSlotService.slotsOverlap(b.timeSlot, timeSlot));
+  const liveBookings = slotBookings
+    .filter(b => LIVE_STATUSES.includes(b.status))
+    .sort((a, b) => a.timeSlot.localeCompare(b.timeSlot) || a.customerName.localeCompare(b.customerName));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ChefHat className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-xl font-bold text-primary">ReserveX</h1>
+                <p className="text-xs text-muted-foreground">Floor Plan</p>
+              </div>
+            </div>
+
+            <Button variant="outline" onClick={() => navigate('/manager')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-3xl font-bold mb-2">Floor Plan</h2>
+            <p className="text-muted-foreground">Draw your dining room and see which tables are taken</p>
+          </div>
+          {restaurants.length > 1 && (
+            <select
+              value={selectedRestaurantId}
+              onChange={(e) => setSelectedRestaurantId(e.target.value)}
+              className="h-10 px-3 bg-input-background border border-input rounded-md"
+            >
+              {restaurants.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !restaurant ? (
+          <p className="text-center text-muted-foreground py-8">You don't manage any restaurants yet</p>
+        ) : (
+          <DndProvider backend={HTML5Backend}>
+            <Tabs defaultValue="live" className="space-y-6">
+              <TabsList>
+                <TabsTrigger value="live">Live</TabsTrigger>
+                <TabsTrigger value="edit">Edit Layout</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="live">
+                <Card className="p-6 space-y-4">
+                  <div className="flex gap-2 flex-wrap">
+                    <Input
+                      type="date"
+                      value={date}
+                      onChange={(e) => e.target.value && setDate(e.target.value)}
+                      className="w-auto"
+                    />
+                    <select
+                      value={timeSlot}
+                      onChange={(e) => setTimeSlot(e.target.value)}
+                      className="h-10 px-3 bg-input-background border border-input rounded-md"
+                    >
+                      {slots.length === 0 && <option value="">Closed on this date</option>}
+                      {slots.map((slot) => (
+                        <option key={slot.label} value={slot.label}>{slot.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <LiveFloorPlan
+                    tables={tables}
+                    states={getTableStates(tables, slotBookings)}
+                    bookings={liveBookings}
+                    onAssign={handleAssign}
+                  />
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="edit">
+                <Card className="p-6">
+                  <FloorPlanEditor restaurantId={restaurant.id} tables={tables} onSaved={setTables} />
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </DndProvider>
+        )}
+      </div>
+    </div>
+  );
+}
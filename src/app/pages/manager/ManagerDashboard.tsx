@@ -1,14 +1,198 @@
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router';
-import { ChefHat, LogOut, Home } from 'lucide-react';
+import { ChefHat, LogOut, Home, Calendar, Clock, Users, History, Loader2, Search, QrCode, UtensilsCrossed, CreditCard, ChevronLeft, ChevronRight, LayoutGrid, Plus, BookOpen, Store } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { restaurantService, Restaurant } from '../../services/restaurant.service';
+import { timeSlotService } from '../../services/time-slot.service';
+import {
+  bookingService,
+  Booking,
+  BookingStatus,
+  CustomerRecord,
+  BookingPreferenceFilter,
+  BOOKING_STATUS_LABELS,
+  BOOKING_SOURCE_LABELS
+} from '../../services/booking.service';
 import { Button } from '../../components/ui/button';
 import { Card } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Input } from '../../components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../components/ui/dialog';
+import {
+  BookingStatusBadge,
+  BookingStatusHistory,
+  CustomerReliabilityBadge
+} from '../../components/BookingStatus';
+import { CheckInDialog } from '../../components/CheckInDialog';
+import { HostBookingDialog } from '../../components/HostBookingDialog';
+import { RestaurantStatusNotice } from '../../components/RestaurantStatus';
+import { PreOrderSummary } from '../../components/PreOrder';
+import { DepositSummary } from '../../components/DepositPayment';
+import { BookingPreferenceBadges, BookingPreferenceFilters } from '../../components/BookingPreferences';
+import {
+  BookingCalendar,
+  DaySheet,
+  CalendarView,
+  shiftCalendarDate,
+  getCalendarTitle
+} from '../../components/BookingCalendar';
 import { toast } from 'sonner';
 
+// Button text for moving a booking to each status
+const STATUS_ACTION_LABELS: Record<BookingStatus, string> = {
+  'pending-payment': 'Await Deposit',
+  pending: 'Reopen',
+  confirmed: 'Confirm',
+  seated: 'Seat',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+  'no-show': 'No-show'
+};
+
+// Changes that should explain themselves to the customer
+const REASON_REQUIRED_STATUSES: BookingStatus[] = ['cancelled', 'no-show'];
+
+// Ways to look at the bookings (calendar views and the full list)
+const VIEW_LABELS: Record<CalendarView | 'list', string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  list: 'List'
+};
+
 export function ManagerDashboard() {
   const navigate = useNavigate();
   const { user, logout } = useAuth();
 
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurantId, setSelectedRestaurantId] = useState('');
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [customerRecords, setCustomerRecords] = useState<Record<string, CustomerRecord>>({});
+  const [loading, setLoading] = useState(true);
+  const [detailBooking, setDetailBooking] = useState<Booking | null>(null);
+  const [referenceQuery, setReferenceQuery] = useState('');
+  const [searchingReference, setSearchingReference] = useState(false);
+  const [checkInOpen, setCheckInOpen] = useState(false);
+  const [hostBookingOpen, setHostBookingOpen] = useState(false);
+  const [preferenceFilter, setPreferenceFilter] = useState<BookingPreferenceFilter>({});
+  const [statusFilter, setStatusFilter] = useState<BookingStatus | ''>('');
+  const [view, setView] = useState<CalendarView | 'list'>('day');
+  const [calendarDate, setCalendarDate] = useState(() => timeSlotService.toDateString(new Date()));
+
+  useEffect(() => {
+    if (!user || user.role !== 'manager') return;
+
+    const loadRestaurants = async () => {
+      try {
+        const data = await restaurantService.getMyRestaurants();
+        setRestaurants(data);
+        setSelectedRestaurantId(data[0]?.id ?? '');
+      } catch (error: any) {
+        toast.error(error.message || 'Failed to load restaurants');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRestaurants();
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedRestaurantId) {
+      loadBookings(selectedRestaurantId);
+    }
+  }, [selectedRestaurantId]);
+
+  const loadBookings = async (restaurantId: string) => {
+    try {
+      const data = await bookingService.getRestaurantBookings(restaurantId);
+      setBookings(data.sort((a, b) =>
+        a.date.localeCompare(b.date) || a.timeSlot.localeCompare(b.timeSlot)
+      ));
+
+      // Booking behaviour of every customer in the list (phone bookings and
+      // walk-ins belong to the restaurant, not to a customer)
+      const userIds = [...new Set(data.filter(b => (b.source ?? 'online') === 'online').map(b => b.userId))];
+      const records = await Promise.all(userIds.map(userId => bookingService.getCustomerRecord(userId)));
+      setCustomerRecords(Object.fromEntries(records.map(record => [record.userId, record])));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load bookings');
+    }
+  };
+
+  const handleStatusChange = async (booking: Booking, status: BookingStatus, reason?: string) => {
+    if (reason === undefined && REASON_REQUIRED_STATUSES.includes(status)) {
+      const answer = window.prompt(`Reason for marking this booking as ${status}:`);
+      if (answer === null) return;
+      reason = answer;
+    }
+
+    try {
+      const updated = await bookingService.updateBookingStatus(booking.id, status, reason);
+      toast.success(`Booking marked as ${BOOKING_STATUS_LABELS[status].toLowerCase()}`);
+      if (detailBooking?.id === updated.id) {
+        setDetailBooking(updated);
+      }
+      loadBookings(selectedRestaurantId);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update booking');
+    }
+  };
+
+  // Bookings read out over the phone are opened by their reference code
+  const handleReferenceSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!referenceQuery.trim()) return;
+
+    setSearchingReference(true);
+    try {
+      const booking = await bookingService.getBookingByReference(referenceQuery);
+      setDetailBooking(booking);
+      setReferenceQuery('');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to find booking');
+    } finally {
+      setSearchingReference(false);
+    }
+  };
+
+  const renderStatusActions = (booking: Booking) =>
+    bookingService.getNextStatuses(booking.status).filter(status =>
+      // Confirmed bookings only go back to pending when the customer changes
+      // them; no-shows and completed visits are recorded once the slot starts
+      status !== 'pending' &&
+      ((status !== 'no-show' && status !== 'completed') || bookingService.hasStarted(booking))
+    ).map((status) => (
+      <Button
+        key={status}
+        size="sm"
+        variant={status === 'cancelled' || status === 'no-show' ? 'destructive' : 'default'}
+        onClick={() => handleStatusChange(booking, status)}
+      >
+        {STATUS_ACTION_LABELS[status]}
+      </Button>
+    ));
+
+  // The status filter applies to every view; a preference filter narrows
+  // the list to upcoming bookings that match it
+  const statusBookings = statusFilter ? bookings.filter(b => b.status === statusFilter) : bookings;
+  const isFiltering = Object.values(preferenceFilter).some(Boolean);
+  const visibleBookings = isFiltering
+    ? statusBookings.filter(b =>
+        bookingService.getNextStatuses(b.status).length > 0 &&
+        bookingService.matchesPreferences(b, preferenceFilter)
+      )
+    : statusBookings;
+
+  const selectedRestaurant = restaurants.find(r => r.id === selectedRestaurantId);
+  const hasDraft = restaurantService.getDraft() !== null;
+
+  // Picking a day in the week or month view opens its day sheet
+  const handleSelectDate = (date: string) => {
+    setCalendarDate(date);
+    setView('day');
+  };
+
   const handleLogout = () => {
     logout();
     navigate('/');
@@ -34,6 +218,18 @@ export function ManagerDashboard() {
             </div>
             
             <div className="flex items-center gap-3">
+              <Button variant="outline" onClick={() => navigate('/manager/restaurant')} className="gap-2">
+                <Store className="h-4 w-4" />
+                Restaurant
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/manager/menu')} className="gap-2">
+                <BookOpen className="h-4 w-4" />
+                Menu
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/manager/floor-plan')} className="gap-2">
+                <LayoutGrid className="h-4 w-4" />
+                Floor Plan
+              </Button>
               <Button variant="outline" onClick={() => navigate('/')}>
                 <Home className="h-4 w-4 mr-2" />
                 Home
@@ -47,18 +243,276 @@ export function ManagerDashboard() {
         </div>
       </header>
 
-      <div className="container mx-auto px-4 py-8">
-        <Card className="p-8 text-center">
-          <h2 className="text-2xl font-bold mb-4">Manager Dashboard</h2>
-          <p className="text-muted-foreground mb-4">
-            Welcome, {user.name}! This is the Restaurant Manager dashboard.
-          </p>
-          <p className="text-sm text-muted-foreground">
-            Manager features are available for restaurant owners to manage their bookings, 
-            tables, and menu items.
-          </p>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-3xl font-bold mb-2">Welcome, {user.name}!</h2>
+            <p className="text-muted-foreground">Manage the bookings of your restaurants</p>
+          </div>
+          {restaurants.length > 1 && (
+            <select
+              value={selectedRestaurantId}
+              onChange={(e) => setSelectedRestaurantId(e.target.value)}
+              className="h-10 px-3 bg-input-background border border-input rounded-md"
+            >
+              {restaurants.map((restaurant) => (
+                <option key={restaurant.id} value={restaurant.id}>{restaurant.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {!loading && restaurants.length === 0 && (
+          <Card className="p-6 flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <h3 className="text-xl font-bold mb-1">
+                {hasDraft ? 'Finish setting up your restaurant' : 'Add your restaurant'}
+              </h3>
+              <p className="text-muted-foreground">
+                {hasDraft
+                  ? 'Your draft is saved. Pick up where you left off.'
+                  : 'Tell guests about your restaurant, its hours, tables and menu.'}
+              </p>
+            </div>
+            <Button onClick={() => navigate('/manager/onboarding')} className="gap-2">
+              <Plus className="h-4 w-4" />
+              {hasDraft ? 'Continue Setup' : 'Get Started'}
+            </Button>
+          </Card>
+        )}
+
+        {selectedRestaurant && <RestaurantStatusNotice restaurant={selectedRestaurant} />}
+
+        <Card className="p-6">
+          <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+            <h3 className="text-xl font-bold">Bookings</h3>
+            <div className="flex gap-2 flex-wrap">
+              <Button onClick={() => setHostBookingOpen(true)} disabled={!selectedRestaurantId} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Booking
+              </Button>
+              <Button onClick={() => setCheckInOpen(true)} disabled={!selectedRestaurantId} className="gap-2">
+                <QrCode className="h-4 w-4" />
+                Check In
+              </Button>
+              <form onSubmit={handleReferenceSearch} className="flex gap-2">
+                <Input
+                  value={referenceQuery}
+                  onChange={(e) => setReferenceQuery(e.target.value)}
+                  placeholder="Reference code (e.g. RX-7K3Q)"
+                  className="w-64 uppercase"
+                />
+                <Button type="submit" variant="outline" disabled={searchingReference}>
+                  {searchingReference ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                </Button>
+              </form>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2 flex-wrap mb-4">
+            <div className="flex gap-1">
+              {(Object.keys(VIEW_LABELS) as (CalendarView | 'list')[]).map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={view === option ? 'default' : 'outline'}
+                  onClick={() => setView(option)}
+                >
+                  {VIEW_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+            {view !== 'list' && (
+              <div className="flex items-center gap-2">
+                <Button size="icon" variant="outline" onClick={() => setCalendarDate(shiftCalendarDate(calendarDate, view, -1))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setCalendarDate(timeSlotService.toDateString(new Date()))}>
+                  Today
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => setCalendarDate(shiftCalendarDate(calendarDate, view, 1))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <span className="font-semibold ml-2">{getCalendarTitle(calendarDate, view)}</span>
+              </div>
+            )}
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as BookingStatus | '')}
+              className="h-9 px-3 text-sm bg-input-background border border-input rounded-md"
+            >
+              <option value="">All statuses</option>
+              {(Object.keys(BOOKING_STATUS_LABELS) as BookingStatus[]).map((status) => (
+                <option key={status} value={status}>{BOOKING_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          {view === 'list' && (
+            <div className="flex items-center gap-2 flex-wrap mb-4">
+              <BookingPreferenceFilters value={preferenceFilter} onChange={setPreferenceFilter} />
+              {isFiltering && (
+                <Button size="sm" variant="ghost" onClick={() => setPreferenceFilter({})}>
+                  Clear Filters
+                </Button>
+              )}
+            </div>
+          )}
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : restaurants.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">You don't manage any restaurants yet</p>
+          ) : view === 'day' ? (
+            <DaySheet
+              bookings={statusBookings}
+              date={calendarDate}
+              onStatusChange={handleStatusChange}
+              onOpenBooking={setDetailBooking}
+            />
+          ) : view !== 'list' ? (
+            <BookingCalendar
+              bookings={statusBookings}
+              view={view}
+              date={calendarDate}
+              onSelectDate={handleSelectDate}
+              onOpenBooking={setDetailBooking}
+            />
+          ) : bookings.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No bookings yet</p>
+          ) : visibleBookings.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No bookings match these filters</p>
+          ) : (
+            <div className="space-y-4">
+              {visibleBookings.map((booking) => (
+                <div key={booking.id} className="border border-border rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <h4 className="font-semibold">{booking.customerName}</h4>
+                        {booking.isGuest && <Badge variant="outline">Guest</Badge>}
+                        {booking.source && booking.source !== 'online' && (
+                          <Badge variant="outline">{BOOKING_SOURCE_LABELS[booking.source]}</Badge>
+                        )}
+                        {booking.seriesId && <Badge variant="outline">Recurring</Badge>}
+                        <CustomerReliabilityBadge record={customerRecords[booking.userId]} />
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {[booking.customerPhone, booking.customerEmail].filter(Boolean).join(' • ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {booking.referenceCode && (
+                        <span className="font-mono text-sm text-muted-foreground">{booking.referenceCode}</span>
+                      )}
+                      {booking.lateCancellation && (
+                        <Badge variant="outline" className="text-red-500 border-red-500/20">Late</Badge>
+                      )}
+                      <BookingStatusBadge status={booking.status} />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4 text-sm mb-4 flex-wrap">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-4 w-4 text-primary" />
+                      {new Date(booking.date).toLocaleDateString()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-4 w-4 text-primary" />
+                      {booking.timeSlot}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Users className="h-4 w-4 text-primary" />
+                      {booking.seats} guests
+                    </span>
+                    {booking.deposit && (
+                      <span className="flex items-center gap-1">
+                        <CreditCard className="h-4 w-4 text-primary" />
+                        Deposit ৳{booking.deposit.amount.toLocaleString()} {booking.deposit.status}
+                      </span>
+                    )}
+                    {booking.preOrder?.length ? (
+                      <span className="flex items-center gap-1">
+                        <UtensilsCrossed className="h-4 w-4 text-primary" />
+                        Pre-order ৳{bookingService.getPreOrderSubtotal(booking.preOrder).toLocaleString()}
+                      </span>
+                    ) : null}
+                  </div>
+
+                  <BookingPreferenceBadges booking={booking} className="mb-4" />
+
+                  <div className="flex gap-2 flex-wrap">
+                    {renderStatusActions(booking)}
+                    <Button size="sm" variant="outline" onClick={() => setDetailBooking(booking)}>
+                      <History className="h-4 w-4 mr-1" />
+                      History
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </Card>
       </div>
+
+      <HostBookingDialog
+        open={hostBookingOpen}
+        restaurant={restaurants.find(r => r.id === selectedRestaurantId)}
+        onClose={() => setHostBookingOpen(false)}
+        onCreated={() => loadBookings(selectedRestaurantId)}
+      />
+
+      <CheckInDialog
+        open={checkInOpen}
+        restaurantId={selectedRestaurantId}
+        onClose={() => setCheckInOpen(false)}
+        onCheckedIn={() => loadBookings(selectedRestaurantId)}
+      />
+
+      {/* Booking Details Dialog */}
+      <Dialog open={detailBooking !== null} onOpenChange={(open) => !open && setDetailBooking(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Booking for {detailBooking?.customerName}</DialogTitle>
+          </DialogHeader>
+          {detailBooking && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-muted-foreground">
+                  {detailBooking.referenceCode && (
+                    <p className="font-mono font-semibold text-foreground">{detailBooking.referenceCode}</p>
+                  )}
+                  <p>{new Date(detailBooking.date).toLocaleDateString()} • {detailBooking.timeSlot}</p>
+                  <p>{detailBooking.seats} guests • {detailBooking.customerPhone}</p>
+                  {detailBooking.source && detailBooking.source !== 'online' && (
+                    <p>{BOOKING_SOURCE_LABELS[detailBooking.source]} booking</p>
+                  )}
+                </div>
+                <BookingStatusBadge status={detailBooking.status} />
+              </div>
+              <BookingPreferenceBadges booking={detailBooking} />
+              {detailBooking.specialRequests && (
+                <p className="text-sm">{detailBooking.specialRequests}</p>
+              )}
+              {detailBooking.deposit && <DepositSummary deposit={detailBooking.deposit} />}
+              {detailBooking.preOrder?.length ? (
+                <div>
+                  <h4 className="font-semibold mb-2">Pre-order</h4>
+                  <PreOrderSummary items={detailBooking.preOrder} />
+                </div>
+              ) : null}
+              {bookingService.getNextStatuses(detailBooking.status).length > 0 && (
+                <div className="flex gap-2 flex-wrap">
+                  {renderStatusActions(detailBooking)}
+                </div>
+              )}
+              <div>
+                <h4 className="font-semibold mb-2">Status History</h4>
+                <BookingStatusHistory booking={detailBooking} />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
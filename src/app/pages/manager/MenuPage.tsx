@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router';
+import { ChefHat, ArrowLeft, Loader2, Plus, Pencil, Trash2, ChevronUp, ChevronDown, ImageOff } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { restaurantService, Restaurant, MenuItem, MENU_CATEGORIES } from '../../services/restaurant.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Badge } from '../../components/ui/badge';
+import { Switch } from '../../components/ui/switch';
+import { MenuItemDialog, MenuItemFormValues } from '../../components/MenuItemDialog';
+import { toast } from 'sonner';
+
+export function MenuPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurantId, setSelectedRestaurantId] = useState('');
+  const [menu, setMenu] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+
+  useEffect(() => {
+    if (!user || user.role !== 'manager') return;
+
+    restaurantService.getMyRestaurants()
+      .then((data) => {
+        setRestaurants(data);
+        setSelectedRestaurantId(data[0]?.id ?? '');
+      })
+      .catch((error: any) => toast.error(error.message || 'Failed to load restaurants'))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedRestaurantId) {
+      loadMenu();
+    }
+  }, [selectedRestaurantId]);
+
+  const loadMenu = async () => {
+    try {
+      setMenu(await restaurantService.getRestaurantMenu(selectedRestaurantId));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load the menu');
+    }
+  };
+
+  const openDialog = (item: MenuItem | null) => {
+    setEditingItem(item);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (values: MenuItemFormValues) => {
+    if (editingItem) {
+      await restaurantService.updateMenuItem(selectedRestaurantId, editingItem.id, values);
+      toast.success(`${values.name} updated`);
+    } else {
+      await restaurantService.addMenuItem(selectedRestaurantId, values);
+      toast.success(`${values.name} added to the menu`);
+    }
+    setDialogOpen(false);
+    loadMenu();
+  };
+
+  const handleToggleAvailable = async (item: MenuItem, available: boolean) => {
+    // Flip it straight away; the reload puts it back if saving failed
+    setMenu(menu.map(m => m.id === item.id ? { ...m, available } : m));
+    try {
+      await restaurantService.updateMenuItem(selectedRestaurantId, item.id, { available });
+      toast.success(`${item.name} is ${available ? 'available' : 'sold out'}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the dish');
+      loadMenu();
+    }
+  };
+
+  const handleDelete = async (item: MenuItem) => {
+    if (!window.confirm(`Remove ${item.name} from the menu?`)) return;
+
+    try {
+      await restaurantService.deleteMenuItem(selectedRestaurantId, item.id);
+      toast.success(`${item.name} removed`);
+      loadMenu();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove the dish');
+    }
+  };
+
+  // Swap a dish with its neighbour in the same category
+  const handleMove = async (item: MenuItem, direction: 1 | -1) => {
+    const category = menu.filter(m => m.category === item.category);
+    const neighbour = category[category.indexOf(item) + direction];
+    if (!neighbour) return;
+
+    const order = menu.map(m => m.id === item.id ? neighbour : m.id === neighbour.id ? item : m);
+    setMenu(order);
+    try {
+      setMenu(await restaurantService.reorderMenu(selectedRestaurantId, order.map(m => m.id)));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reorder the menu');
+      loadMenu();
+    }
+  };
+
+  if (!user || user.role !== 'manager') {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ChefHat className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-xl font-bold text-primary">ReserveX</h1>
+                <p className="text-xs text-muted-foreground">Menu</p>
+              </div>
+            </div>
+
+            <Button variant="outline" onClick={() => navigate('/manager')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-3xl font-bold mb-2">Menu</h2>
+            <p className="text-muted-foreground">Add dishes, mark them sold out and set the order guests see</p>
+          </div>
+          <div className="flex gap-2">
+            {restaurants.length > 1 && (
+              <select
+                value={selectedRestaurantId}
+                onChange={(e) => setSelectedRestaurantId(e.target.value)}
+                className="h-10 px-3 bg-input-background border border-input rounded-md"
+              >
+                {restaurants.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            )}
+            <Button onClick={() => openDialog(null)} disabled={!selectedRestaurantId} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Dish
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : restaurants.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">You don't manage any restaurants yet</p>
+        ) : (
+          MENU_CATEGORIES.map((category) => {
+            const items = menu.filter(item => item.category === category);
+            return (
+              <Card key={category} className="p-6">
+                <h3 className="text-xl font-bold mb-4">
+                  {category}
+                  <span className="text-sm font-normal text-muted-foreground ml-2">{items.length} dishes</span>
+                </h3>
+                {items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No dishes in this category yet</p>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {items.map((item, index) => (
+                      <div key={item.id} className="flex items-center gap-4 py-3">
+                        <div className="flex flex-col">
+                          <Button size="icon" variant="ghost" className="h-6 w-6" disabled={index === 0} onClick={() => handleMove(item, -1)}>
+                            <ChevronUp className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-6 w-6" disabled={index === items.length - 1} onClick={() => handleMove(item, 1)}>
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {item.image ? (
+                          <img src={item.image} alt={item.name} className="h-14 w-20 object-cover rounded-md flex-shrink-0" />
+                        ) : (
+                          <div className="h-14 w-20 rounded-md bg-muted flex items-center justify-center flex-shrink-0">
+                            <ImageOff className="h-5 w-5 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <h4 className={`font-semibold ${item.available ? '' : 'text-muted-foreground line-through'}`}>{item.name}</h4>
+                            {!item.available && <Badge variant="outline">Sold out</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground truncate">{item.description}</p>
+                        </div>
+                        <span className="font-bold text-primary whitespace-nowrap">৳{item.price}</span>
+                        <Switch
+                          checked={item.available}
+                          onCheckedChange={(checked) => handleToggleAvailable(item, checked)}
+                          aria-label={`${item.name} available`}
+                        />
+                        <Button size="icon" variant="ghost" onClick={() => openDialog(item)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => handleDelete(item)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <MenuItemDialog
+        open={dialogOpen}
+        item={editingItem}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
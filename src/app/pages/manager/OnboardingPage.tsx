@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router';
+import { ChefHat, ArrowLeft, ArrowRight, Check, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  restaurantService,
+  Restaurant,
+  RestaurantDraft,
+  DIVISION_CITIES,
+  MENU_CATEGORIES
+} from '../../services/restaurant.service';
+import { tableService, createTables, TableGroup } from '../../services/table.service';
+import { timeSlotService } from '../../services/time-slot.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Progress } from '../../components/ui/progress';
+import {
+  RestaurantBasicsFields,
+  RestaurantLocationFields,
+  RestaurantHoursFields,
+  TableGroupFields
+} from '../../components/RestaurantForm';
+import { PhotoInput } from '../../components/PhotoInput';
+import { toast } from 'sonner';
+
+const STEPS = ['Basics', 'Location', 'Hours', 'Seating', 'Photos', 'Menu'];
+
+// Milliseconds without typing before the draft is saved
+const AUTOSAVE_DELAY_MS = 500;
+
+const EMPTY_DRAFT: Omit<RestaurantDraft, 'savedAt'> = {
+  step: 0,
+  restaurant: { priceRange: '৳৳', country: 'Bangladesh', openingTime: '11:00 AM', closingTime: '10:00 PM' },
+  tables: [{ count: 4, capacity: 4, zone: 'Main Hall' }],
+  menu: []
+};
+
+/**
+ * What is still missing on a step (null when it can be left)
+ */
+const getStepError = (step: number, draft: Omit<RestaurantDraft, 'savedAt'>): string | null => {
+  const { restaurant, tables, menu } = draft;
+
+  switch (STEPS[step]) {
+    case 'Basics':
+      if (!restaurant.name?.trim()) return 'Please enter the restaurant\'s name';
+      if (!restaurant.cuisine) return 'Please pick a cuisine';
+      if (!restaurant.phone?.trim()) return 'Please enter a phone number guests can call';
+      return null;
+    case 'Location':
+      if (!restaurant.division || !DIVISION_CITIES[restaurant.division]?.includes(restaurant.city ?? '')) {
+        return 'Please pick a division and a city in it';
+      }
+      if (!restaurant.location?.trim()) return 'Please enter the street address';
+      return null;
+    case 'Hours': {
+      const opening = timeSlotService.parseTime(restaurant.openingTime ?? '');
+      const closing = timeSlotService.parseTime(restaurant.closingTime ?? '');
+      if (opening === null || closing === null || opening === closing) return 'Please set the opening and closing time';
+      if (Object.keys(restaurant.weeklySchedule ?? {}).length === 7) return 'Please open on at least one day';
+      return null;
+    }
+    case 'Seating':
+      if (tables.length === 0 || tables.some(group => group.count < 1 || group.capacity < 1)) {
+        return 'Every row needs at least one table with at least one seat';
+      }
+      if (tables.some(group => !group.zone.trim())) return 'Please name the zone of every row';
+      return null;
+    case 'Menu':
+      if (menu.some(dish => !dish.name.trim() || !(dish.price > 0))) return 'Every dish needs a name and a price';
+      return null;
+    default:
+      return null;
+  }
+};
+
+export function OnboardingPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [cuisines, setCuisines] = useState<string[]>([]);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Continue where the manager left off
+  useEffect(() => {
+    if (!user || user.role !== 'manager') return;
+
+    const saved = restaurantService.getDraft();
+    if (saved) {
+      const { savedAt: lastSaved, ...rest } = saved;
+      setDraft(rest);
+      setSavedAt(lastSaved);
+      toast.info('Continuing your saved draft');
+    }
+    setLoaded(true);
+
+    restaurantService.getCuisines()
+      .then(setCuisines)
+      .catch((error: any) => toast.error(error.message || 'Failed to load cuisines'));
+  }, [user]);
+
+  // Autosave shortly after every change (an untouched form is no draft)
+  useEffect(() => {
+    if (!loaded || draft === EMPTY_DRAFT) return;
+
+    const timer = setTimeout(() => {
+      const saved = restaurantService.saveDraft(draft);
+      if (saved) {
+        setSavedAt(saved.savedAt);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [draft, loaded]);
+
+  const setRestaurant = (restaurant: Partial<Restaurant>) => setDraft({ ...draft, restaurant });
+  const setTables = (tables: TableGroup[]) => setDraft({ ...draft, tables });
+  const setMenu = (menu: RestaurantDraft['menu']) => setDraft({ ...draft, menu });
+
+  const goTo = (step: number) => {
+    // Moving forward only once the current step is complete
+    if (step > draft.step) {
+      const error = getStepError(draft.step, draft);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+    }
+    setDraft({ ...draft, step });
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this draft and start over?')) return;
+
+    restaurantService.clearDraft();
+    setDraft(EMPTY_DRAFT);
+    setSavedAt(null);
+  };
+
+  const handleSubmit = async () => {
+    const failedStep = STEPS.findIndex((_, step) => getStepError(step, draft));
+    if (failedStep !== -1) {
+      toast.error(getStepError(failedStep, draft));
+      setDraft({ ...draft, step: failedStep });
+      return;
+    }
+
+    setSubmitting(true);
+    // What has been saved so far goes back into the draft, so submitting
+    // again after a failure doesn't create the restaurant or its dishes twice
+    let progress = draft;
+    try {
+      const details = {
+        ...draft.restaurant,
+        totalSeats: draft.tables.reduce((sum, group) => sum + group.capacity * group.count, 0)
+      };
+      const restaurant = draft.restaurantId
+        ? await restaurantService.updateRestaurant(draft.restaurantId, details)
+        : await restaurantService.createRestaurant(details);
+      progress = { ...progress, restaurantId: restaurant.id };
+
+      await tableService.saveFloorPlan(restaurant.id, createTables(restaurant.id, draft.tables));
+      for (const dish of draft.menu) {
+        await restaurantService.addMenuItem(restaurant.id, { ...dish, image: '', available: true });
+        progress = { ...progress, menu: progress.menu.slice(1) };
+      }
+
+      restaurantService.clearDraft();
+      toast.success(`${restaurant.name} submitted`, {
+        description: 'An admin will review it before guests can book'
+      });
+      navigate('/manager');
+    } catch (error: any) {
+      restaurantService.saveDraft(progress);
+      setDraft(progress);
+      toast.error(error.message || 'Failed to submit the restaurant', {
+        description: progress.restaurantId ? 'What was saved is kept. Submit again to finish.' : undefined
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!user || user.role !== 'manager') {
+    navigate('/');
+    return null;
+  }
+
+  const isLastStep = draft.step === STEPS.length - 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ChefHat className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-xl font-bold text-primary">ReserveX</h1>
+                <p className="text-xs text-muted-foreground">Add a Restaurant</p>
+              </div>
+            </div>
+
+            <Button variant="outline" onClick={() => navigate('/manager')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">Set up your restaurant</h2>
+          <p className="text-muted-foreground">
+            Your progress is saved as you go, so you can finish later.
+            {savedAt && ` Draft saved at ${new Date(savedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Progress value={((draft.step + 1) / STEPS.length) * 100} />
+          <div className="flex justify-between text-sm">
+            {STEPS.map((label, step) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => goTo(step)}
+                className={step === draft.step ? 'font-semibold text-primary' : 'text-muted-foreground hover:text-foreground'}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Card className="p-6">
+          <h3 className="text-xl font-bold mb-4">{STEPS[draft.step]}</h3>
+
+          {STEPS[draft.step] === 'Basics' && (
+            <RestaurantBasicsFields value={draft.restaurant} onChange={setRestaurant} cuisines={cuisines} />
+          )}
+          {STEPS[draft.step] === 'Location' && (
+            <RestaurantLocationFields value={draft.restaurant} onChange={setRestaurant} />
+          )}
+          {STEPS[draft.step] === 'Hours' && (
+            <RestaurantHoursFields value={draft.restaurant} onChange={setRestaurant} />
+          )}
+          {STEPS[draft.step] === 'Seating' && (
+            <TableGroupFields value={draft.tables} onChange={setTables} />
+          )}
+          {STEPS[draft.step] === 'Photos' && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">The cover photo shown in listings and on your page (optional)</p>
+              <PhotoInput
+                value={draft.restaurant.image ?? ''}
+                onChange={(image) => setRestaurant({ ...draft.restaurant, image })}
+                previewClassName="w-full h-48"
+              />
+            </div>
+          )}
+          {STEPS[draft.step] === 'Menu' && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Add a few dishes now (optional). Photos and the full menu can be edited later.
+              </p>
+              {draft.menu.map((dish, index) => (
+                <div key={index} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2">
+                  <Input
+                    value={dish.name}
+                    onChange={(e) => setMenu(draft.menu.map((d, i) => i === index ? { ...d, name: e.target.value } : d))}
+                    placeholder="Dish name"
+                  />
+                  <select
+                    value={dish.category}
+                    onChange={(e) => setMenu(draft.menu.map((d, i) => i === index ? { ...d, category: e.target.value as typeof dish.category } : d))}
+                    className="h-10 px-3 bg-input-background border border-input rounded-md"
+                  >
+                    {MENU_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={dish.price || ''}
+                    onChange={(e) => setMenu(draft.menu.map((d, i) => i === index ? { ...d, price: Number(e.target.value) } : d))}
+                    placeholder="Price (৳)"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setMenu(draft.menu.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setMenu([...draft.menu, { name: '', description: '', price: 0, category: 'Main Course' }])}
+                className="gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Add Dish
+              </Button>
+            </div>
+          )}
+        </Card>
+
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" onClick={handleDiscard} disabled={!savedAt}>
+            Discard Draft
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => goTo(draft.step - 1)} disabled={draft.step === 0} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            {isLastStep ? (
+              <Button onClick={handleSubmit} disabled={submitting} className="gap-2">
+                {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Submit for Approval
+              </Button>
+            ) : (
+              <Button onClick={() => goTo(draft.step + 1)} className="gap-2">
+                Next
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router';
+import { ChefHat, ArrowLeft, Loader2, Plus, Save } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { restaurantService, Restaurant } from '../../services/restaurant.service';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import {
+  RestaurantBasicsFields,
+  RestaurantLocationFields,
+  RestaurantHoursFields
+} from '../../components/RestaurantForm';
+import { PhotoInput } from '../../components/PhotoInput';
+import { RestaurantStatusBadge, RestaurantStatusNotice } from '../../components/RestaurantStatus';
+import { toast } from 'sonner';
+
+export function RestaurantProfilePage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [selectedRestaurantId, setSelectedRestaurantId] = useState('');
+  const [profile, setProfile] = useState<Partial<Restaurant>>({});
+  const [cuisines, setCuisines] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const restaurant = restaurants.find(r => r.id === selectedRestaurantId);
+
+  useEffect(() => {
+    if (!user || user.role !== 'manager') return;
+
+    Promise.all([restaurantService.getMyRestaurants(), restaurantService.getCuisines()])
+      .then(([data, cuisineList]) => {
+        setRestaurants(data);
+        setSelectedRestaurantId(data[0]?.id ?? '');
+        setCuisines(cuisineList);
+      })
+      .catch((error: any) => toast.error(error.message || 'Failed to load restaurants'))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  // Start editing from the saved profile when another restaurant is picked
+  useEffect(() => {
+    setProfile(restaurant ?? {});
+  }, [restaurant?.id]);
+
+  const handleSave = async () => {
+    if (!restaurant) return;
+
+    setSaving(true);
+    try {
+      const updated = await restaurantService.updateRestaurant(restaurant.id, profile);
+      setRestaurants(restaurants.map(r => r.id === updated.id ? updated : r));
+      setProfile(updated);
+      toast.success(restaurant.status === 'rejected' ? 'Profile sent for approval again' : 'Profile saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save the profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user || user.role !== 'manager') {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ChefHat className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-xl font-bold text-primary">ReserveX</h1>
+                <p className="text-xs text-muted-foreground">Restaurant Profile</p>
+              </div>
+            </div>
+
+            <Button variant="outline" onClick={() => navigate('/manager')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-3xl font-bold mb-2">Restaurant Profile</h2>
+            <p className="text-muted-foreground">What guests see on your restaurant's page</p>
+          </div>
+          <div className="flex gap-2">
+            {restaurants.length > 1 && (
+              <select
+                value={selectedRestaurantId}
+                onChange={(e) => setSelectedRestaurantId(e.target.value)}
+                className="h-10 px-3 bg-input-background border border-input rounded-md"
+              >
+                {restaurants.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            )}
+            <Button variant="outline" onClick={() => navigate('/manager/onboarding')} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Restaurant
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : !restaurant ? (
+          <p className="text-center text-muted-foreground py-8">You don't manage any restaurants yet</p>
+        ) : (
+          <>
+            <RestaurantStatusBadge status={restaurant.status} />
+            <RestaurantStatusNotice restaurant={restaurant} />
+
+            <Card className="p-6">
+              <h3 className="text-xl font-bold mb-4">Basics</h3>
+              <RestaurantBasicsFields value={profile} onChange={setProfile} cuisines={cuisines} />
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-xl font-bold mb-4">Location</h3>
+              <RestaurantLocationFields value={profile} onChange={setProfile} />
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-xl font-bold mb-4">Hours</h3>
+              <RestaurantHoursFields value={profile} onChange={setProfile} />
+            </Card>
+
+            <Card className="p-6">
+              <h3 className="text-xl font-bold mb-4">Cover Photo</h3>
+              <PhotoInput
+                value={profile.image ?? ''}
+                onChange={(image) => setProfile({ ...profile, image })}
+                previewClassName="w-full h-48"
+              />
+            </Card>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setProfile(restaurant)} disabled={saving}>
+                Undo Changes
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="gap-2">
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                {restaurant.status === 'rejected' ? 'Save and Resubmit' : 'Save Profile'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,22 @@
+import { useState, useEffect } from 'react';
 import { createBrowserRouter, Navigate } from 'react-router';
 import { HomePage } from './pages/HomePage';
 import RestaurantsPage from './pages/Restaurants';
 import RestaurantDetailPage from './pages/RestaurantDetail';
 import { AuthPages } from './pages/AuthPages';
+import { FindBookingPage } from './pages/FindBooking';
 import { CustomerDashboard } from './pages/customer/Dashboard';
 import { ManagerDashboard } from './pages/manager/ManagerDashboard';
+import { FloorPlanPage } from './pages/manager/FloorPlanPage';
+import { MenuPage } from './pages/manager/MenuPage';
+import { OnboardingPage } from './pages/manager/OnboardingPage';
+import { RestaurantProfilePage } from './pages/manager/RestaurantProfilePage';
 import { AdminDashboard } from './pages/admin/AdminDashboard';
 import { authService } from './services/auth.service';
+import { useAuth } from './contexts/AuthContext';
+
+// CHANGEABLE: How often an open session checks whether an admin ended it
+const SESSION_CHECK_INTERVAL_MS = 30000;
 
 // Protected route wrapper
 function ProtectedRoute({ 
@@ -16,9 +26,31 @@ function ProtectedRoute({
   children: React.ReactNode;
   allowedRoles?: ('customer' | 'manager' | 'admin')[];
 }) {
+  const { endSession } = useAuth();
+  const [, setCheckedAt] = useState(0);
   const user = authService.getStoredUser();
+  const sessionEndReason = authService.getSessionEndReason();
+  
+  // Check again now and then, and when another tab changes localStorage
+  // (e.g., an admin suspending this user in demo mode)
+  useEffect(() => {
+    const recheck = () => setCheckedAt(Date.now());
+    const timer = setInterval(recheck, SESSION_CHECK_INTERVAL_MS);
+    window.addEventListener('storage', recheck);
+    
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('storage', recheck);
+    };
+  }, []);
   
-  if (!user) {
+  useEffect(() => {
+    if (sessionEndReason) {
+      endSession(sessionEndReason);
+    }
+  }, [sessionEndReason]);
+  
+  if (!user || sessionEndReason) {
     return <Navigate to="/auth/login" replace />;
   }
 
@@ -46,6 +78,10 @@ export const router = createBrowserRouter([
     path: '/restaurant/:id',
     element: <Navigate to="/restaurants/:id" replace />
   },
+  {
+    path: '/find-booking',
+    element: <FindBookingPage />
+  },
   {
     path: '/auth',
     element: <AuthPages />
@@ -70,6 +106,38 @@ export const router = createBrowserRouter([
       </ProtectedRoute>
     )
   },
+  {
+    path: '/manager/floor-plan',
+    element: (
+      <ProtectedRoute allowedRoles={['manager']}>
+        <FloorPlanPage />
+      </ProtectedRoute>
+    )
+  },
+  {
+    path: '/manager/menu',
+    element: (
+      <ProtectedRoute allowedRoles={['manager']}>
+        <MenuPage />
+      </ProtectedRoute>
+    )
+  },
+  {
+    path: '/manager/onboarding',
+    element: (
+      <ProtectedRoute allowedRoles={['manager']}>
+        <OnboardingPage />
+      </ProtectedRoute>
+    )
+  },
+  {
+    path: '/manager/restaurant',
+    element: (
+      <ProtectedRoute allowedRoles={['manager']}>
+        <RestaurantProfilePage />
+      </ProtectedRoute>
+    )
+  },
   {
     path: '/admin',
     element: (
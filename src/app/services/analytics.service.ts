@@ -0,0 +1,261 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ANALYTICS SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service turns platform data into the admin dashboard's charts:
+ * - Bookings per day by status
+ * - Covers by restaurant
+ * - Cancellation and no-show rates per week
+ * - New users per week
+ * - Top cuisines by bookings
+ * - Average rating per week
+ *
+ * Everything is calculated here from getAllBookings, getAllReviews,
+ * getAllUsers and getAdminRestaurants, so the charts work the same way with
+ * the backend and in demo mode (those methods fall back to demo data).
+ *
+ * Bookings count on the day they are for (not the day they were made);
+ * users and reviews on the day they were created. Weeks start on Sunday.
+ *
+ * CHANGEABLE SETTINGS:
+ * - How many restaurants and cuisines are ranked (TOP_RESTAURANTS, TOP_CUISINES)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { authService } from './auth.service';
+import { bookingService, Booking, BookingStatus, BOOKING_STATUS_LABELS } from './booking.service';
+import { restaurantService } from './restaurant.service';
+import { reviewService } from './review.service';
+import { timeSlotService } from './time-slot.service';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ANALYTICS SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: How many restaurants and cuisines the rankings show
+ */
+const TOP_RESTAURANTS = 10;
+const TOP_CUISINES = 5;
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TYPE DEFINITIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/**
+ * Analytics Range Interface
+ * The days the analytics cover (both ends included)
+ */
+export interface AnalyticsRange {
+  from: string;                  // First day (YYYY-MM-DD format)
+  to: string;                    // Last day (YYYY-MM-DD format)
+}
+
+/**
+ * Daily Bookings Interface
+ * Bookings for one day, counted per status
+ */
+export type DailyBookings = { date: string } & Record<BookingStatus, number>;
+
+/**
+ * Platform Analytics Interface
+ * Everything the admin analytics dashboard shows for a range
+ */
+export interface PlatformAnalytics {
+  range: AnalyticsRange;         // Days covered
+  totals: {
+    bookings: number;            // Bookings for days in the range
+    covers: number;              // Guests expected (see bookingService.getCovers)
+    cancellationRate: number;    // Percent of bookings cancelled
+    noShowRate: number;          // Percent of bookings that were no-shows
+    newUsers: number;            // Accounts created in the range
+    averageRating: number | null; // Average of reviews written in the range (null if none)
+  };
+  bookingsPerDay: DailyBookings[]; // Every day in the range, oldest first
+  coversByRestaurant: { restaurantId: string; name: string; covers: number }[]; // Busiest first (top TOP_RESTAURANTS)
+  ratesPerWeek: { week: string; bookings: number; cancellationRate: number | null; noShowRate: number | null }[]; // Weeks by their Sunday (null without bookings)
+  newUsersPerWeek: { week: string; customers: number; managers: number }[];
+  topCuisines: { cuisine: string; bookings: number }[]; // Most booked first (top TOP_CUISINES)
+  ratingPerWeek: { week: string; reviews: number; averageRating: number | null }[]; // null for weeks without reviews
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ANALYTICS SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class AnalyticsService {
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET PLATFORM ANALYTICS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Loads the platform's bookings, users, reviews and restaurants and
+   * calculates the admin charts for a range of days
+   *
+   * @param range - Days to cover
+   * @returns Promise<PlatformAnalytics> - Chart data and totals
+   */
+  async getPlatformAnalytics(range: AnalyticsRange): Promise<PlatformAnalytics> {
+    const [bookings, reviews, users, restaurants] = await Promise.all([
+      bookingService.getAllBookings(),
+      reviewService.getAllReviews(),
+      authService.getAllUsers(),
+      restaurantService.getAdminRestaurants()
+    ]);
+
+    const inRange = (date: string) => date >= range.from && date <= range.to;
+    const rangeBookings = bookings.filter(b => inRange(b.date));
+    const rangeUsers = users.filter(u => inRange(this.toDay(u.createdAt)));
+    const rangeReviews = reviews.filter(r => inRange(this.toDay(r.createdAt)));
+    const restaurantsById = new Map(restaurants.map(r => [r.id, r]));
+
+    const days = this.getDays(range);
+    const weeks = [...new Set(days.map(day => this.getWeekStart(day)))];
+
+    // Covers and bookings per restaurant and cuisine
+    const coversByRestaurant = new Map<string, number>();
+    const bookingsByCuisine = new Map<string, number>();
+    for (const booking of rangeBookings) {
+      coversByRestaurant.set(
+        booking.restaurantId,
+        (coversByRestaurant.get(booking.restaurantId) ?? 0) + bookingService.getCovers([booking])
+      );
+
+      const cuisine = restaurantsById.get(booking.restaurantId)?.cuisine;
+      if (cuisine) {
+        bookingsByCuisine.set(cuisine, (bookingsByCuisine.get(cuisine) ?? 0) + 1);
+      }
+    }
+
+    const ratings = rangeReviews.map(r => r.rating);
+
+    return {
+      range,
+      totals: {
+        bookings: rangeBookings.length,
+        covers: bookingService.getCovers(rangeBookings),
+        cancellationRate: this.getRate(rangeBookings, 'cancelled'),
+        noShowRate: this.getRate(rangeBookings, 'no-show'),
+        newUsers: rangeUsers.length,
+        averageRating: this.getAverage(ratings)
+      },
+      bookingsPerDay: days.map(date => {
+        const counts = Object.fromEntries(
+          (Object.keys(BOOKING_STATUS_LABELS) as BookingStatus[]).map(status => [status, 0])
+        ) as Record<BookingStatus, number>;
+        rangeBookings.filter(b => b.date === date).forEach(b => counts[b.status]++);
+        return { date, ...counts };
+      }),
+      coversByRestaurant: [...coversByRestaurant]
+        .map(([restaurantId, covers]) => ({
+          restaurantId,
+          name: restaurantsById.get(restaurantId)?.name
+            ?? rangeBookings.find(b => b.restaurantId === restaurantId)?.restaurant?.name
+            ?? restaurantId,
+          covers
+        }))
+        .sort((a, b) => b.covers - a.covers)
+        .slice(0, TOP_RESTAURANTS),
+      ratesPerWeek: weeks.map(week => {
+        const weekBookings = rangeBookings.filter(b => this.getWeekStart(b.date) === week);
+        return {
+          week,
+          bookings: weekBookings.length,
+          cancellationRate: weekBookings.length ? this.getRate(weekBookings, 'cancelled') : null,
+          noShowRate: weekBookings.length ? this.getRate(weekBookings, 'no-show') : null
+        };
+      }),
+      newUsersPerWeek: weeks.map(week => {
+        const weekUsers = rangeUsers.filter(u => this.getWeekStart(this.toDay(u.createdAt)) === week);
+        return {
+          week,
+          customers: weekUsers.filter(u => u.role === 'customer').length,
+          managers: weekUsers.filter(u => u.role === 'manager').length
+        };
+      }),
+      topCuisines: [...bookingsByCuisine]
+        .map(([cuisine, count]) => ({ cuisine, bookings: count }))
+        .sort((a, b) => b.bookings - a.bookings)
+        .slice(0, TOP_CUISINES),
+      ratingPerWeek: weeks.map(week => {
+        const weekRatings = rangeReviews
+          .filter(r => this.getWeekStart(this.toDay(r.createdAt)) === week)
+          .map(r => r.rating);
+        return { week, reviews: weekRatings.length, averageRating: this.getAverage(weekRatings) };
+      })
+    };
+  }
+
+  /**
+   * Every day of a range, oldest first
+   * @param range - Days to list
+   * @returns Array of YYYY-MM-DD dates
+   */
+  private getDays(range: AnalyticsRange): string[] {
+    const days: string[] = [];
+    const current = timeSlotService.parseDate(range.from);
+
+    while (timeSlotService.toDateString(current) <= range.to) {
+      days.push(timeSlotService.toDateString(current));
+      current.setDate(current.getDate() + 1);
+    }
+
+    return days;
+  }
+
+  /**
+   * The Sunday starting the week of a day
+   * @param date - Date (YYYY-MM-DD format)
+   * @returns Sunday of that week (YYYY-MM-DD format)
+   */
+  private getWeekStart(date: string): string {
+    const current = timeSlotService.parseDate(date);
+    current.setDate(current.getDate() - current.getDay());
+    return timeSlotService.toDateString(current);
+  }
+
+  /**
+   * Local calendar day of a timestamp
+   * @param timestamp - ISO timestamp
+   * @returns Date (YYYY-MM-DD format)
+   */
+  private toDay(timestamp: string): string {
+    return timeSlotService.toDateString(new Date(timestamp));
+  }
+
+  /**
+   * Percent of bookings with a status, to one decimal (0 without bookings)
+   * @param bookings - Bookings to count
+   * @param status - Status to count
+   * @returns Percentage
+   */
+  private getRate(bookings: Booking[], status: BookingStatus): number {
+    if (bookings.length === 0) {
+      return 0;
+    }
+    return Math.round((bookings.filter(b => b.status === status).length / bookings.length) * 1000) / 10;
+  }
+
+  /**
+   * Average to one decimal
+   * @param values - Numbers to average
+   * @returns Average, or null without values
+   */
+  private getAverage(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT ANALYTICS SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const analyticsService = new AnalyticsService();
@@ -116,6 +116,7 @@ api.interceptors.response.use(
       // Clear all authentication data from localStorage
       // CHANGEABLE: Add/remove storage keys based on what you store
       localStorage.removeItem('reservex_auth_token'); // Remove JWT token
+      localStorage.removeItem('reservex_login_time'); // Remove session start time
       localStorage.removeItem('reservex_current_user'); // Remove user data
       
       // Redirect user to login page
@@ -8,6 +8,7 @@
  * - Session management
  * - Profile updates
  * - Token storage and retrieval
+ * - User management for admins (roles, suspensions, forced logouts)
  * 
  * FALLBACK BEHAVIOR:
  * When the backend is unavailable, this service uses demo users for testing.
@@ -62,6 +63,26 @@ export interface User {
   profileImage?: string;         // Optional profile picture URL
   phone?: string;                // Optional phone number
   createdAt: string;             // Account creation timestamp (ISO format)
+  status?: UserStatus;           // Whether the user may log in (default 'active')
+  sessionsRevokedAt?: string;    // Sessions started before this were ended by an admin (ISO format)
+}
+
+/**
+ * User Status Type
+ */
+export type UserStatus =
+  | 'active'                     // Can log in
+  | 'suspended';                 // Refused at login and logged out of open sessions
+
+/**
+ * User Page Interface
+ * One page of the admin user list
+ */
+export interface UserPage {
+  users: User[];                 // Users on this page
+  total: number;                 // Users matching the search on all pages
+  page: number;                  // Page number (starting at 1)
+  pageSize: number;              // Users per page
 }
 
 /**
@@ -73,6 +94,51 @@ export interface AuthResponse {
   token: string;        // JWT authentication token
 }
 
+/**
+ * Guest Code Request Interface
+ * Returned after a one-time code was sent to a guest's email
+ */
+export interface GuestCodeRequest {
+  email: string;        // Email the code was sent to
+  expiresAt: string;    // When the code stops working (ISO format)
+  demoCode?: string;    // The code itself, only in demo mode (no email is sent)
+}
+
+/**
+ * Guest Verification Interface
+ * Proof that a guest owns an email address
+ */
+export interface GuestVerification {
+  email: string;        // Verified email address
+  token: string;        // Sent along with guest bookings
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * GUEST VERIFICATION SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Length, lifetime and allowed attempts of guest one-time codes
+ */
+export const GUEST_CODE_LENGTH = 6;
+const GUEST_CODE_TTL_MINUTES = 10;
+const GUEST_CODE_MAX_ATTEMPTS = 5;
+const DEMO_GUEST_VERIFICATION_KEY = 'reservex_demo_guest_verification';
+
+// CHANGEABLE: Users per page in the admin user list
+export const USERS_PAGE_SIZE = 10;
+const DEMO_USERS_KEY = 'reservex_demo_users'; // Users registered or changed in demo mode
+
+/**
+ * Guest code as kept in localStorage (demo mode)
+ */
+interface StoredGuestCode {
+  email: string;
+  code: string;
+  expiresAt: string;
+  attempts: number;
+  token?: string;       // Set once the code was entered correctly
+}
+
 /**
  * ═══════════════════════════════════════════════════════════════════════════
  * AUTHENTICATION SERVICE CLASS
@@ -106,6 +172,7 @@ class AuthService {
       // Store authentication token in localStorage
       // CHANGEABLE: Modify storage key if needed
       localStorage.setItem('reservex_auth_token', token);
+      localStorage.setItem('reservex_login_time', new Date().toISOString());
       
       // Store user information in localStorage for quick access
       // CHANGEABLE: Modify storage key if needed
@@ -120,12 +187,16 @@ class AuthService {
       console.warn('Backend unavailable. Using demo authentication.');
       
       // Check if email matches a demo user
-      const demoUser = DEMO_USERS.find(u => u.email === credentials.email);
+      const demoUser = this.getLocalUsers().find(u => u.email === credentials.email);
       
       if (!demoUser) {
         throw new Error('Invalid email or password (Backend unavailable - Use demo credentials)');
       }
       
+      if (demoUser.status === 'suspended') {
+        throw new Error('This account has been suspended. Please contact support.');
+      }
+      
       // In demo mode, we don't actually verify password
       // IMPORTANT: This is ONLY for testing. Real authentication must verify passwords!
       console.log('Demo Login: Any password accepted for demo users');
@@ -134,8 +205,9 @@ class AuthService {
       // CHANGEABLE: This is just a placeholder token
       const demoToken = `demo_token_${demoUser.id}_${Date.now()}`;
       
-      // Store demo token
+      // Store demo token and when the session started
       localStorage.setItem('reservex_auth_token', demoToken);
+      localStorage.setItem('reservex_login_time', new Date().toISOString());
       localStorage.setItem('reservex_current_user', JSON.stringify(demoUser));
       
       // Also store a flag indicating we're in demo mode
@@ -154,8 +226,8 @@ class AuthService {
    * ─────────────────────────────────────────────────────────────────────────
    * Creates a new user account
    * 
-   * FALLBACK: Creates a temporary demo user when backend is unavailable
-   * Note: This demo user only exists in localStorage and is lost on refresh
+   * FALLBACK: Creates a demo user when backend is unavailable
+   * Note: This demo user only exists in this browser's localStorage
    * 
    * @param data - Registration information
    * @returns Promise<AuthResponse> - User info and auth token
@@ -170,6 +242,7 @@ class AuthService {
       
       // Store token and user data
       localStorage.setItem('reservex_auth_token', token);
+      localStorage.setItem('reservex_login_time', new Date().toISOString());
       localStorage.setItem('reservex_current_user', JSON.stringify(user));
       
       return { user, token };
@@ -180,8 +253,12 @@ class AuthService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Creating temporary demo user.');
       
-      // Create a temporary demo user
-      // NOTE: This user only exists locally and will be lost on page refresh
+      if (this.getLocalUsers().some(u => u.email === data.email)) {
+        throw new Error('An account with this email already exists');
+      }
+      
+      // Create a demo user
+      // NOTE: This user only exists locally (kept so admins can manage it)
       const demoUser: User = {
         id: `demo-user-${Date.now()}`, // Unique ID based on timestamp
         email: data.email,
@@ -191,11 +268,14 @@ class AuthService {
         createdAt: new Date().toISOString()
       };
       
+      this.saveLocalUser(demoUser);
+      
       // Generate demo token
       const demoToken = `demo_token_${demoUser.id}_${Date.now()}`;
       
       // Store in localStorage
       localStorage.setItem('reservex_auth_token', demoToken);
+      localStorage.setItem('reservex_login_time', new Date().toISOString());
       localStorage.setItem('reservex_current_user', JSON.stringify(demoUser));
       localStorage.setItem('reservex_demo_mode', 'true');
       
@@ -232,6 +312,7 @@ class AuthService {
       
       // CHANGEABLE: Add/remove localStorage keys based on what you store
       localStorage.removeItem('reservex_auth_token');      // Remove JWT token
+      localStorage.removeItem('reservex_login_time');      // Remove session start time
       localStorage.removeItem('reservex_current_user');    // Remove user data
       localStorage.removeItem('reservex_demo_mode');       // Remove demo mode flag
       
@@ -317,18 +398,350 @@ class AuthService {
         id: currentUser.id,              // Never allow changing user ID
         email: currentUser.email,        // Never allow changing email (requires separate flow)
         role: currentUser.role,          // Never allow self-role change
+        status: currentUser.status,      // Only admins suspend or reactivate accounts
+        sessionsRevokedAt: currentUser.sessionsRevokedAt,
         createdAt: currentUser.createdAt // Preserve creation date
       };
       
       // Save updated user to localStorage
       localStorage.setItem('reservex_current_user', JSON.stringify(updatedUser));
       
+      // Keep the admins' user list in step (role and status as the admin left them)
+      const account = this.getLocalUser(currentUser.id);
+      if (account) {
+        this.saveLocalUser({
+          ...updatedUser,
+          role: account.role,
+          status: account.status,
+          sessionsRevokedAt: account.sessionsRevokedAt
+        });
+      }
+      
       console.log('Profile updated locally:', updatedUser);
       
       return updatedUser;
     }
   }
 
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * REQUEST GUEST CODE
+   * ─────────────────────────────────────────────────────────────────────────
+   * Sends a one-time code to a guest's email so they can book without an
+   * account. Requesting a new code replaces the previous one
+   * 
+   * FALLBACK: Creates the code locally and returns it as demoCode
+   * 
+   * @param email - Guest's email address
+   * @returns Promise<GuestCodeRequest> - Where the code went and when it expires
+   */
+  async requestGuestCode(email: string): Promise<GuestCodeRequest> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Email a one-time code to the guest
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/auth/guest/code', { email });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Create the code locally
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Creating demo guest code.');
+      
+      let code = '';
+      for (let i = 0; i < GUEST_CODE_LENGTH; i++) {
+        code += Math.floor(Math.random() * 10);
+      }
+      
+      const stored: StoredGuestCode = {
+        email: email.trim().toLowerCase(),
+        code,
+        expiresAt: new Date(Date.now() + GUEST_CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        attempts: 0
+      };
+      localStorage.setItem(DEMO_GUEST_VERIFICATION_KEY, JSON.stringify(stored));
+      
+      return { email: stored.email, expiresAt: stored.expiresAt, demoCode: code };
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * VERIFY GUEST CODE
+   * ─────────────────────────────────────────────────────────────────────────
+   * Checks the one-time code a guest entered
+   * 
+   * FALLBACK: Compares with the locally created code
+   * 
+   * @param email - Guest's email address
+   * @param code - Code the guest entered
+   * @returns Promise<GuestVerification> - Token to send with guest bookings
+   */
+  async verifyGuestCode(email: string, code: string): Promise<GuestVerification> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Verify the code
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/auth/guest/verify', { email, code });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Compare with the stored code
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Verifying demo guest code.');
+      
+      const stored = this.getStoredGuestCode();
+      
+      if (!stored || stored.email !== email.trim().toLowerCase()) {
+        throw new Error('Please request a new code');
+      }
+      
+      if (new Date(stored.expiresAt) < new Date() || stored.attempts >= GUEST_CODE_MAX_ATTEMPTS) {
+        throw new Error('This code has expired. Please request a new one');
+      }
+      
+      if (stored.code !== code) {
+        stored.attempts += 1;
+        localStorage.setItem(DEMO_GUEST_VERIFICATION_KEY, JSON.stringify(stored));
+        throw new Error('Incorrect code');
+      }
+      
+      stored.token = `demo_guest_token_${Date.now()}`;
+      localStorage.setItem(DEMO_GUEST_VERIFICATION_KEY, JSON.stringify(stored));
+      
+      return { email: stored.email, token: stored.token };
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * IS GUEST VERIFIED
+   * ─────────────────────────────────────────────────────────────────────────
+   * Checks a guest verification token against the locally verified email
+   * (demo mode only; the backend checks its own tokens)
+   * 
+   * @param email - Email the booking is made with
+   * @param token - Token from verifyGuestCode
+   * @returns boolean - true if the token belongs to this email
+   */
+  isGuestVerified(email: string, token: string): boolean {
+    const stored = this.getStoredGuestCode();
+    return !!stored?.token && stored.token === token && stored.email === email.trim().toLowerCase();
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * ADMIN FUNCTIONS
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * GET USERS
+   * Searches all users (admin view), newest accounts first, one page at a
+   * time (bookingService.getBookingCounts and reviewService.getReviewCounts
+   * add their activity)
+   * 
+   * FALLBACK: Lists the demo users and the users registered in demo mode
+   * 
+   * @param query - Search text (name, email or phone), role and page
+   * @returns Promise<UserPage> - The page of users and the total found
+   */
+  async getUsers(query: {
+    search?: string;
+    role?: User['role'];
+    page?: number;
+    pageSize?: number;
+  } = {}): Promise<UserPage> {
+    const { search, role, page = 1, pageSize = USERS_PAGE_SIZE } = query;
+    
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get one page of users
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/admin/users', { params: { search, role, page, pageSize } });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Search the demo users
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Using demo users.');
+      
+      this.checkAdmin();
+      
+      const searchLower = search?.trim().toLowerCase();
+      const matching = this.getLocalUsers()
+        .filter(u => !role || u.role === role)
+        .filter(u => !searchLower ||
+          u.name.toLowerCase().includes(searchLower) ||
+          u.email.toLowerCase().includes(searchLower) ||
+          (u.phone ?? '').includes(searchLower)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      
+      const users = matching.slice((page - 1) * pageSize, page * pageSize);
+      
+      return { users, total: matching.length, page, pageSize };
+    }
+  }
+
+  /**
+   * GET ALL USERS
+   * Lists every user (admin view), without the counts getUsers adds
+   * 
+   * FALLBACK: Lists the demo users and the users registered in demo mode
+   * 
+   * @returns Promise<User[]> - Array of all users
+   */
+  async getAllUsers(): Promise<User[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get all users
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/admin/users/all');
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Return the demo users
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Using all demo users.');
+      
+      this.checkAdmin();
+      
+      return this.getLocalUsers();
+    }
+  }
+
+  /**
+   * UPDATE USER ROLE
+   * Moves a user between customer and manager. The user is logged out so
+   * their next session starts with the new role
+   * 
+   * FALLBACK: Saves the new role to localStorage
+   * 
+   * @param id - User ID
+   * @param role - New role
+   * @returns Promise<User> - The updated user
+   */
+  async updateUserRole(id: string, role: 'customer' | 'manager'): Promise<User> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Change the user's role
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/admin/users/${id}/role`, { role });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update the demo user
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Updating demo user role.');
+      
+      const user = this.getManagedUser(id);
+      
+      const updated: User = { ...user, role, sessionsRevokedAt: new Date().toISOString() };
+      this.saveLocalUser(updated);
+      
+      return updated;
+    }
+  }
+
+  /**
+   * UPDATE USER STATUS
+   * Suspends or reactivates a user. Suspended users can't log in and are
+   * logged out of any open session
+   * 
+   * FALLBACK: Saves the new status to localStorage
+   * 
+   * @param id - User ID
+   * @param status - New status
+   * @returns Promise<User> - The updated user
+   */
+  async updateUserStatus(id: string, status: UserStatus): Promise<User> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Suspend or reactivate the user
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/admin/users/${id}/status`, { status });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update the demo user
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Updating demo user status.');
+      
+      const updated: User = { ...this.getManagedUser(id), status };
+      this.saveLocalUser(updated);
+      
+      return updated;
+    }
+  }
+
+  /**
+   * FORCE LOGOUT
+   * Ends every open session of a user (they can log in again)
+   * 
+   * FALLBACK: Records the time in localStorage; sessions that started
+   * earlier are ended by getSessionEndReason
+   * 
+   * @param id - User ID
+   * @returns Promise<User> - The updated user
+   */
+  async forceLogout(id: string): Promise<User> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Revoke the user's tokens
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post(`/admin/users/${id}/logout`);
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update the demo user
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Ending demo user sessions.');
+      
+      const updated: User = { ...this.getManagedUser(id), sessionsRevokedAt: new Date().toISOString() };
+      this.saveLocalUser(updated);
+      
+      return updated;
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET SESSION END REASON
+   * ─────────────────────────────────────────────────────────────────────────
+   * Checks whether an admin has ended the current session, by suspending
+   * the account or forcing a logout (the backend answers 401 instead)
+   * 
+   * @returns string | null - Message for the user, or null if the session can go on
+   */
+  getSessionEndReason(): string | null {
+    const storedUser = this.getStoredUser();
+    if (!storedUser) {
+      return null;
+    }
+    
+    const account = (this.isDemoMode() && this.getLocalUser(storedUser.id)) || storedUser;
+    
+    if (account.status === 'suspended') {
+      return 'Your account has been suspended';
+    }
+    
+    // Sessions started before the forced logout are over
+    const loginTime = localStorage.getItem('reservex_login_time');
+    if (account.sessionsRevokedAt && (!loginTime || loginTime < account.sessionsRevokedAt)) {
+      return 'You have been logged out. Please log in again.';
+    }
+    
+    return null;
+  }
+
   /**
    * ─────────────────────────────────────────────────────────────────────────
    * GET STORED USER
@@ -408,6 +821,96 @@ class AuthService {
   getDemoCredentials() {
     return DEMO_CREDENTIALS;
   }
+
+  /**
+   * Get the guest code kept in localStorage (demo mode)
+   * @returns Stored code or null
+   */
+  private getStoredGuestCode(): StoredGuestCode | null {
+    try {
+      const codeStr = localStorage.getItem(DEMO_GUEST_VERIFICATION_KEY);
+      return codeStr ? JSON.parse(codeStr) : null;
+    } catch (error) {
+      console.error('Failed to parse guest code:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Make sure the logged in user is an admin (demo mode)
+   */
+  private checkAdmin(): void {
+    if (this.getStoredUser()?.role !== 'admin') {
+      throw new Error('Only admins can manage users');
+    }
+  }
+
+  /**
+   * Find a user an admin may change (customers and managers)
+   * @param id - User ID
+   * @returns The user
+   */
+  private getManagedUser(id: string): User {
+    this.checkAdmin();
+    
+    const user = this.getLocalUser(id);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    
+    if (user.role === 'admin') {
+      throw new Error('Admin accounts can\'t be changed here');
+    }
+    
+    return user;
+  }
+
+  /**
+   * Demo users with the changes saved in demo mode, followed by the users
+   * registered in demo mode
+   * @returns Array of users
+   */
+  private getLocalUsers(): User[] {
+    const saved = this.getSavedUsers();
+    
+    return [
+      ...DEMO_USERS.map(u => saved[u.id] ?? u),
+      ...Object.values(saved).filter(u => !DEMO_USERS.some(demo => demo.id === u.id))
+    ];
+  }
+
+  /**
+   * One user from getLocalUsers
+   * @param id - User ID
+   * @returns The user, if it exists
+   */
+  private getLocalUser(id: string): User | undefined {
+    return this.getSavedUsers()[id] ?? DEMO_USERS.find(u => u.id === id);
+  }
+
+  /**
+   * Save a user registered or changed in demo mode to localStorage
+   * @param user - The user
+   */
+  private saveLocalUser(user: User): void {
+    const saved = this.getSavedUsers();
+    saved[user.id] = user;
+    localStorage.setItem(DEMO_USERS_KEY, JSON.stringify(saved));
+  }
+
+  /**
+   * Get the users registered or changed in demo mode from localStorage
+   * @returns User ID → user
+   */
+  private getSavedUsers(): Record<string, User> {
+    try {
+      const usersStr = localStorage.getItem(DEMO_USERS_KEY);
+      return usersStr ? JSON.parse(usersStr) : {};
+    } catch (error) {
+      console.error('Failed to parse users:', error);
+      return {};
+    }
+  }
 }
 
 /**
@@ -9,17 +9,37 @@
  * - Canceling bookings
  * - Updating booking details
  * - Manager booking management
+ * - Deposits for large parties and peak slots (charged through the payment
+ *   service, refunded on cancel)
+ * - Recurring series (the same table every week or every other week)
  * 
  * FALLBACK BEHAVIOR:
  * When the backend is unavailable, this service uses demo bookings and allows
- * creating temporary bookings stored in localStorage.
+ * creating temporary bookings stored in localStorage. Deposits are paid with
+ * the demo payment provider.
  * 
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
 import { api, handleApiError } from './api';
-import { DEMO_BOOKINGS, DEMO_RESTAURANTS, getDemoBookingsByUserId } from './demo-data';
-import { authService } from './auth.service';
+import { DEMO_BOOKINGS } from './demo-data';
+import { authService, User } from './auth.service';
+import { tableService, getOccupiedTableIds, getSlotAvailability, getTableStates } from './table.service';
+import {
+  restaurantService,
+  Restaurant,
+  SlotAvailability,
+  ReapprovalPolicy,
+  CancellationPolicy,
+  DepositPolicy,
+  PeakPeriod,
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_PRE_ORDER_CUTOFF_HOURS,
+  DEFAULT_PAYMENT_WINDOW_MINUTES
+} from './restaurant.service';
+import { timeSlotService, DAYS_OF_WEEK } from './time-slot.service';
+import { waitlistService } from './waitlist.service';
+import { paymentService, PaymentMethodDetails, DEFAULT_PAYMENT_PROVIDER_ID } from './payment.service';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -27,22 +47,162 @@ import { authService } from './auth.service';
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
+/**
+ * Booking Status
+ * Where a reservation is in its lifecycle (see BOOKING_STATUS_TRANSITIONS)
+ */
+export type BookingStatus =
+  | 'pending-payment'            // Held until the customer pays the deposit
+  | 'pending'                    // Waiting for the restaurant to confirm
+  | 'confirmed'                  // Restaurant accepted the booking
+  | 'seated'                     // Party has arrived and is at the table
+  | 'completed'                  // Party has finished and left
+  | 'cancelled'                  // Cancelled by the customer or the restaurant
+  | 'no-show';                   // Party never arrived
+
+/**
+ * Booking Status Change Interface
+ * One entry of a booking's status history
+ */
+export interface BookingStatusChange {
+  from: BookingStatus | null;    // Previous status (null when the booking was created)
+  to: BookingStatus;             // New status
+  changedAt: string;             // When the change happened (ISO format)
+  changedBy: {                   // Who made the change
+    userId?: string;             // User ID (missing for automatic changes)
+    name: string;                // Display name
+    role: User['role'] | 'system';
+  };
+  reason?: string;               // Optional explanation (e.g., "Kitchen closed early")
+}
+
+/**
+ * Pre-Order Item Interface
+ * A dish ordered ahead together with a booking
+ */
+export interface PreOrderItem {
+  menuItemId: string;            // ID of the menu item
+  name: string;                  // Item name at the time of ordering
+  price: number;                 // Unit price in BDT at the time of ordering
+  quantity: number;              // How many portions
+  dietaryNotes?: string;         // Optional notes for the kitchen (e.g., "No nuts")
+}
+
+/**
+ * Deposit Status
+ * What happened to a booking's deposit
+ */
+export type DepositStatus =
+  | 'due'                        // Not paid yet (booking is pending-payment)
+  | 'paid'                       // Paid, kept until the booking is over
+  | 'refunded'                   // All or part paid back (see refundedAmount)
+  | 'forfeited'                  // Kept by the restaurant (no-show or late cancellation)
+  | 'released';                  // Never paid; the booking was cancelled or ran out of time
+
+/**
+ * Booking Deposit Interface
+ * Deposit taken to secure a booking (see DepositPolicy)
+ */
+export interface BookingDeposit {
+  amount: number;                // Deposit in BDT
+  reason: string;                // Why it is needed (e.g., "Parties of 6 or more")
+  status: DepositStatus;         // Payment state
+  dueBy: string;                 // Unpaid bookings are released after this (ISO format)
+  providerId?: string;           // Payment provider that took the deposit
+  paymentId?: string;            // Provider's payment ID
+  paidAt?: string;               // When it was paid (ISO format)
+  refundedAmount?: number;       // Amount paid back in BDT
+  refundedAt?: string;           // When it was paid back (ISO format)
+}
+
+/**
+ * Deposit Requirement Interface
+ * Deposit a new booking would need under the restaurant's deposit policy
+ */
+export interface DepositRequirement {
+  amount: number;                // Deposit in BDT
+  reason: string;                // Shown to the customer (e.g., "Peak time")
+}
+
+/**
+ * Deposit Payment Result Interface
+ * Returned by payDeposit
+ */
+export interface DepositPaymentResult {
+  booking: Booking;              // Booking after the payment
+  redirectUrl?: string;          // Gateway page to finish the payment on (redirect providers)
+}
+
+/**
+ * Booking Occasion
+ * What the party is celebrating or meeting for
+ */
+export type BookingOccasion = 'birthday' | 'anniversary' | 'business' | 'date-night' | 'celebration';
+
+/**
+ * Dietary Restriction
+ * Dietary needs the kitchen should know about ahead of the visit
+ */
+export type DietaryRestriction =
+  | 'halal'
+  | 'vegetarian'
+  | 'vegan'
+  | 'gluten-free'
+  | 'nut-allergy'
+  | 'dairy-free'
+  | 'seafood-allergy';
+
+/**
+ * Accessibility Need
+ * What the restaurant should prepare at the table
+ */
+export type AccessibilityNeed = 'wheelchair' | 'high-chair' | 'step-free' | 'hearing-support';
+
+/**
+ * Seating Preference
+ * Where the party would like to sit (a preference, not a guarantee)
+ */
+export type SeatingPreference = 'indoor' | 'outdoor' | 'window' | 'quiet' | 'private';
+
+/**
+ * Booking Source Type
+ * How a booking reached the restaurant
+ */
+export type BookingSource =
+  | 'online'                     // Made by the customer (or a guest) in the app
+  | 'phone'                      // Taken by a host over the phone
+  | 'walk-in';                   // Party arrived without a booking
+
 /**
  * Booking Interface
  * Represents a restaurant reservation
  */
 export interface Booking {
   id: string;                    // Unique booking identifier
+  referenceCode?: string;        // Short code to read over the phone (e.g., "RX-7K3Q")
   restaurantId: string;          // ID of the restaurant
-  userId: string;                // ID of the user who made the booking
+  userId: string;                // ID of the user who made the booking (a guest ID for guest bookings)
+  isGuest?: boolean;             // Made without an account (see createGuestBooking)
+  source?: BookingSource;        // How the booking was made ('online' when missing)
   date: string;                  // Reservation date (YYYY-MM-DD format)
   timeSlot: string;              // Reserved time slot (e.g., "7:00 PM")
   seats: number;                 // Number of seats reserved
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';  // Booking status
+  tableIds?: string[];           // Tables assigned to the party (several when combined)
+  status: BookingStatus;         // Booking status
+  statusHistory?: BookingStatusChange[]; // Every status change, oldest first
+  modificationCount?: number;    // Times the customer has changed the booking
+  lateCancellation?: boolean;    // Cancelled by the customer after the free-cancellation window
   customerName: string;          // Name for the reservation
   customerEmail: string;         // Contact email
   customerPhone: string;         // Contact phone number
   specialRequests?: string;      // Optional special requests/notes
+  occasion?: BookingOccasion;    // What the party is celebrating
+  dietaryRestrictions?: DietaryRestriction[]; // Dietary needs of the party
+  accessibilityNeeds?: AccessibilityNeed[]; // What to prepare at the table
+  seatingPreference?: SeatingPreference; // Where the party would like to sit
+  preOrder?: PreOrderItem[];     // Dishes ordered ahead (see updatePreOrder)
+  deposit?: BookingDeposit;      // Deposit, for restaurants that ask for one
+  seriesId?: string;             // Recurring series the booking belongs to (see createSeries)
   createdAt: string;             // When booking was created (ISO format)
   updatedAt: string;             // Last update time (ISO format)
   restaurant?: {                 // Optional populated restaurant data
@@ -66,8 +226,239 @@ export interface CreateBookingData {
   customerEmail: string;         // Contact email
   customerPhone: string;         // Contact phone
   specialRequests?: string;      // Optional special requests
+  occasion?: BookingOccasion;    // Optional occasion
+  dietaryRestrictions?: DietaryRestriction[]; // Optional dietary needs
+  accessibilityNeeds?: AccessibilityNeed[]; // Optional accessibility needs
+  seatingPreference?: SeatingPreference; // Optional seating preference
+  preOrder?: PreOrderItem[];     // Optional dishes ordered ahead
+  seriesId?: string;             // Set by createSeries for each occurrence
+}
+
+/**
+ * Host Booking Data Interface
+ * What a host takes down for a phone booking or a walk-in
+ */
+export interface HostBookingData extends Omit<CreateBookingData, 'customerEmail' | 'preOrder' | 'seriesId'> {
+  source: Exclude<BookingSource, 'online'>; // Phone booking or walk-in
+  customerEmail?: string;        // Optional; guests on the phone rarely give one
+}
+
+/**
+ * Booking Preferences
+ * The structured details a party can add to a booking
+ */
+export type BookingPreferences = Pick<
+  Booking,
+  'occasion' | 'dietaryRestrictions' | 'accessibilityNeeds' | 'seatingPreference'
+>;
+
+/**
+ * Booking Preference Filter Interface
+ * Narrows a booking list to parties with a given need (see matchesPreferences)
+ */
+export interface BookingPreferenceFilter {
+  occasion?: BookingOccasion;    // Only bookings for this occasion
+  dietaryRestriction?: DietaryRestriction; // Only bookings with this dietary need
+  accessibilityNeed?: AccessibilityNeed; // Only bookings with this accessibility need
+  seatingPreference?: SeatingPreference; // Only bookings asking for this seating
+}
+
+/**
+ * Recurrence Rule Interface
+ * How often a series repeats and when it ends (endDate or occurrences)
+ */
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'biweekly'; // Every week or every other week
+  endDate?: string;              // Last possible date (YYYY-MM-DD format)
+  occurrences?: number;          // Number of bookings in the series
+}
+
+/**
+ * Series Occurrence Interface
+ * One date of a planned series and whether it can be booked
+ */
+export interface SeriesOccurrence {
+  date: string;                  // Date (YYYY-MM-DD format)
+  conflict?: string;             // Why the date can't be booked (missing when it can)
+}
+
+/**
+ * Series Result Interface
+ * Outcome of createSeries
+ */
+export interface SeriesResult {
+  seriesId: string;              // ID shared by the created bookings
+  bookings: Booking[];           // Bookings that were made
+  failed: SeriesOccurrence[];    // Dates that could not be booked, with the reason
+}
+
+/**
+ * Cancellation Terms Interface
+ * What a restaurant's cancellation policy means for one booking right now
+ */
+export interface CancellationTerms {
+  freeUntil: Date | null;        // Last moment to cancel for free (null if the slot is unreadable)
+  isLate: boolean;               // The free-cancellation window has passed
+  canCancel: boolean;            // false when late cancellations are not accepted
+  modificationsLeft: number;     // Changes the customer may still make
+}
+
+/**
+ * Day Sheet Slot Interface
+ * One time slot of a restaurant's day sheet (see getDaySheet)
+ */
+export interface DaySheetSlot {
+  timeSlot: string;              // Slot label (e.g., "7:00 PM")
+  bookings: Booking[];           // Bookings in the slot, in the order they were made
+  covers: number;                // Guests expected (see getCovers)
+}
+
+/**
+ * Customer Record Interface
+ * A customer's booking behaviour, shown to managers
+ */
+export interface CustomerRecord {
+  userId: string;                // Customer's user ID
+  totalBookings: number;         // All bookings the customer has made
+  completed: number;             // Bookings the customer turned up for
+  cancellations: number;         // Bookings the customer cancelled in time
+  lateCancellations: number;     // Bookings cancelled after the free-cancellation window
+  noShows: number;               // Bookings the customer never arrived for
+  reliabilityScore: number | null; // 0-100 (see RELIABILITY_WEIGHTS), null for customers without history
+}
+
+/**
+ * Demo Availability Options Interface
+ * Whose view of a slot to calculate
+ */
+export interface DemoAvailabilityOptions {
+  forUserId?: string;            // Customer asking (their own waitlist offers count as free)
+  excludeBookingId?: string;     // Booking being changed (its own tables count as free)
+  includeStarted?: boolean;      // Allow a slot that has already started (walk-ins)
 }
 
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * STATUS TRANSITIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Which statuses a booking may move to from its current status.
+ * Completed, cancelled and no-show bookings are final. A confirmed booking
+ * also returns to pending when the customer changes it and the restaurant's
+ * reapprovalPolicy asks for it (see updateBooking). A pending-payment
+ * booking only moves on to pending (or confirmed) by paying the deposit
+ * (see payDeposit).
+ */
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  'pending-payment': ['cancelled'],
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['pending', 'seated', 'completed', 'no-show', 'cancelled'],
+  seated: ['completed'],
+  completed: [],
+  cancelled: [],
+  'no-show': []
+};
+
+/**
+ * How much each finished booking counts towards a customer's reliability
+ * score (1 = fully reliable). Cancellations made by the restaurant do not count.
+ * CHANGEABLE: Adjust to make the score stricter or more forgiving
+ */
+export const RELIABILITY_WEIGHTS = {
+  completed: 1,
+  cancelled: 0.9,
+  lateCancelled: 0.5,
+  noShow: 0
+};
+
+/**
+ * Statuses whose guests don't count as covers (they never came or won't come)
+ */
+const NON_COVER_STATUSES: BookingStatus[] = ['cancelled', 'no-show'];
+
+/**
+ * Statuses a manager can still move to another table
+ */
+const TABLE_ASSIGNABLE_STATUSES: BookingStatus[] = ['pending-payment', 'pending', 'confirmed', 'seated'];
+
+/**
+ * Display labels for booking statuses
+ */
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  'pending-payment': 'Awaiting Deposit',
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  seated: 'Seated',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  'no-show': 'No-show'
+};
+
+/**
+ * Display labels for booking sources
+ */
+export const BOOKING_SOURCE_LABELS: Record<BookingSource, string> = {
+  online: 'Online',
+  phone: 'Phone',
+  'walk-in': 'Walk-in'
+};
+
+/**
+ * Display labels for booking preferences
+ * CHANGEABLE: Add an option here and to its type above to offer it
+ */
+export const OCCASION_LABELS: Record<BookingOccasion, string> = {
+  birthday: 'Birthday',
+  anniversary: 'Anniversary',
+  business: 'Business',
+  'date-night': 'Date Night',
+  celebration: 'Celebration'
+};
+
+export const DIETARY_LABELS: Record<DietaryRestriction, string> = {
+  halal: 'Halal',
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  'gluten-free': 'Gluten-free',
+  'nut-allergy': 'Nut Allergy',
+  'dairy-free': 'Dairy-free',
+  'seafood-allergy': 'Seafood Allergy'
+};
+
+export const ACCESSIBILITY_LABELS: Record<AccessibilityNeed, string> = {
+  wheelchair: 'Wheelchair Access',
+  'high-chair': 'High Chair',
+  'step-free': 'Step-free Route',
+  'hearing-support': 'Hearing Support'
+};
+
+export const SEATING_LABELS: Record<SeatingPreference, string> = {
+  indoor: 'Indoor',
+  outdoor: 'Outdoor',
+  window: 'Window',
+  quiet: 'Quiet Area',
+  private: 'Private Room'
+};
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * REFERENCE CODES
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Every booking gets a short code such as "RX-7K3Q". The alphabet leaves out
+ * characters that are easy to mix up (0/O, 1/I/L).
+ * CHANGEABLE: Prefix and number of random characters
+ */
+export const REFERENCE_CODE_PREFIX = 'RX';
+const REFERENCE_CODE_LENGTH = 4;
+const REFERENCE_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * RECURRING SERIES
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Longest series a customer can book in one go
+ */
+export const MAX_SERIES_OCCURRENCES = 26;
+
 /**
  * ═══════════════════════════════════════════════════════════════════════════
  * LOCAL STORAGE KEYS (for demo mode)
@@ -107,47 +498,111 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Creating demo booking.');
       
-      // Get current user
+      // Get current user (guests book through createGuestBooking)
       const user = authService.getStoredUser();
       if (!user) {
         throw new Error('You must be logged in to make a booking');
       }
       
-      // Find restaurant details
-      const restaurant = DEMO_RESTAURANTS.find(r => r.id === data.restaurantId);
-      if (!restaurant) {
-        throw new Error('Restaurant not found');
-      }
-      
-      // Create new booking object
-      const newBooking: Booking = {
-        id: `booking-demo-${Date.now()}`, // Unique ID based on timestamp
-        restaurantId: data.restaurantId,
-        userId: user.id,
-        date: data.date,
-        timeSlot: data.timeSlot,
-        seats: data.seats,
-        status: 'pending', // New bookings start as pending
-        customerName: data.customerName,
-        customerEmail: data.customerEmail,
-        customerPhone: data.customerPhone,
-        specialRequests: data.specialRequests,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        restaurant: {
-          id: restaurant.id,
-          name: restaurant.name,
-          image: restaurant.image,
-          location: restaurant.location
-        }
-      };
+      return this.createLocalBooking(data, { userId: user.id, name: user.name, role: user.role });
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CREATE GUEST BOOKING
+   * ─────────────────────────────────────────────────────────────────────────
+   * Creates a reservation without an account. The guest first proves they
+   * own customerEmail with a one-time code (see authService.verifyGuestCode)
+   * and finds the booking later with its reference code and email
+   * 
+   * FALLBACK: Creates a temporary booking in localStorage
+   * 
+   * @param data - Booking information (contact details identify the guest)
+   * @param verificationToken - Token from authService.verifyGuestCode
+   * @returns Promise<Booking> - The created booking
+   */
+  async createGuestBooking(data: CreateBookingData, verificationToken: string): Promise<Booking> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Send booking data and verification to backend
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/bookings/guest', { ...data, verificationToken });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Create booking in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Creating demo guest booking.');
+      
+      if (!authService.isGuestVerified(data.customerEmail, verificationToken)) {
+        throw new Error('Please verify your email before booking');
+      }
+      
+      return this.createLocalBooking(data, {
+        userId: this.getGuestUserId(data.customerEmail),
+        name: data.customerName,
+        role: 'customer'
+      }, { isGuest: true });
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CREATE HOST BOOKING
+   * ─────────────────────────────────────────────────────────────────────────
+   * Lets a manager book a table for a guest who phoned or walked in. The
+   * booking belongs to the restaurant, not to the manager's account, and
+   * needs no deposit: phone bookings are confirmed straight away and
+   * walk-ins are seated in the slot being served
+   * 
+   * FALLBACK: Creates a temporary booking in localStorage
+   * 
+   * @param data - What the host took down (email optional)
+   * @returns Promise<Booking> - The created booking
+   */
+  async createHostBooking(data: HostBookingData): Promise<Booking> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Send booking data to backend
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post(`/restaurants/${data.restaurantId}/bookings`, data);
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Create booking in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Creating demo host booking.');
+      
+      const user = authService.getStoredUser();
+      const restaurant = restaurantService.getLocalRestaurant(data.restaurantId);
+      
+      if (!user || user.role !== 'manager' || restaurant?.managerId !== user.id) {
+        throw new Error('Only the restaurant\'s managers can take bookings for guests');
+      }
       
-      // Save to localStorage
-      this.saveDemoBooking(newBooking);
+      if (!data.customerName.trim()) {
+        throw new Error('Please enter the guest\'s name');
+      }
       
-      console.log('Demo booking created:', newBooking);
+      // Walk-ins sit down now, so the slot has to be running
+      if (data.source === 'walk-in') {
+        const now = new Date();
+        const slot = timeSlotService.parseTimeSlot(data.timeSlot);
+        const minutes = now.getHours() * 60 + now.getMinutes();
+        
+        if (data.date !== timeSlotService.toDateString(now) || !slot || slot.start > minutes || slot.end <= minutes) {
+          throw new Error('Walk-ins can only be seated in the slot being served now');
+        }
+      }
       
-      return newBooking;
+      return this.createLocalBooking(
+        { ...data, customerName: data.customerName.trim(), customerEmail: data.customerEmail?.trim() ?? '' },
+        { userId: user.id, name: user.name, role: user.role },
+        { source: data.source }
+      );
     }
   }
 
@@ -181,14 +636,12 @@ class BookingService {
         return [];
       }
       
-      // Get demo bookings for this user
-      const demoBookings = getDemoBookingsByUserId(user.id);
+      this.refreshPaymentHolds();
       
-      // Get localStorage bookings for this user
-      const localBookings = this.getLocalBookingsByUserId(user.id);
+      // Get demo and localStorage bookings for this user
+      const allBookings = this.getStoredBookings().filter(b => b.userId === user.id);
       
-      // Combine and sort by date (newest first)
-      const allBookings = [...demoBookings, ...localBookings];
+      // Sort by date (newest first)
       allBookings.sort((a, b) => 
         new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       );
@@ -197,6 +650,82 @@ class BookingService {
     }
   }
 
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET CLAIMABLE GUEST BOOKINGS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Finds guest bookings made with the logged in user's email, e.g. before
+   * they registered
+   * 
+   * FALLBACK: Searches demo and localStorage bookings
+   * 
+   * @returns Promise<Booking[]> - Guest bookings the user can claim
+   */
+  async getClaimableGuestBookings(): Promise<Booking[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get guest bookings for the user's email
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/bookings/guest/claimable');
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Match guest bookings by email
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Searching demo guest bookings.');
+      
+      const user = authService.getStoredUser();
+      if (!user) {
+        return [];
+      }
+      
+      const guestUserId = this.getGuestUserId(user.email);
+      return this.getStoredBookings().filter(b => b.userId === guestUserId);
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CLAIM GUEST BOOKINGS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Moves the guest bookings made with the logged in user's email to their
+   * account, so they show up in the dashboard
+   * 
+   * FALLBACK: Updates the bookings in localStorage
+   * 
+   * @returns Promise<Booking[]> - The claimed bookings
+   */
+  async claimGuestBookings(): Promise<Booking[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Claim guest bookings
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/bookings/guest/claim');
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Re-assign the bookings locally
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Claiming guest bookings locally.');
+      
+      const user = authService.getStoredUser();
+      if (!user) {
+        throw new Error('You must be logged in to claim bookings');
+      }
+      
+      const guestUserId = this.getGuestUserId(user.email);
+      const claimed = this.getStoredBookings()
+        .filter(b => b.userId === guestUserId)
+        .map(b => ({ ...b, userId: user.id, isGuest: false, updatedAt: new Date().toISOString() }));
+      
+      claimed.forEach(b => this.saveLocalBooking(b));
+      
+      return claimed;
+    }
+  }
+
   /**
    * ─────────────────────────────────────────────────────────────────────────
    * GET BOOKING BY ID
@@ -222,14 +751,9 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Searching in demo bookings.');
       
-      // Check demo bookings first
-      let booking = DEMO_BOOKINGS.find(b => b.id === id);
+      this.refreshPaymentHolds();
       
-      // If not found, check localStorage bookings
-      if (!booking) {
-        const localBookings = this.getAllLocalBookings();
-        booking = localBookings.find(b => b.id === id);
-      }
+      const booking = this.getStoredBookings().find(b => b.id === id);
       
       if (!booking) {
         throw new Error('Booking not found');
@@ -245,17 +769,21 @@ class BookingService {
    * ─────────────────────────────────────────────────────────────────────────
    * Cancels a booking (changes status to 'cancelled')
    * 
+   * A paid deposit is refunded in full within the free-cancellation window;
+   * later, only the restaurant's lateCancellationRefundPercent is paid back
+   * 
    * FALLBACK: Updates booking status in localStorage
    * 
    * @param id - Booking ID
+   * @param reason - Optional reason, kept in the status history
    * @returns Promise<Booking> - The updated booking
    */
-  async cancelBooking(id: string): Promise<Booking> {
+  async cancelBooking(id: string, reason?: string): Promise<Booking> {
     try {
       // ───────────────────────────────────────────────────────────────────
       // BACKEND REQUEST: Cancel booking on backend
       // ───────────────────────────────────────────────────────────────────
-      const response = await api.put(`/bookings/${id}/cancel`);
+      const response = await api.put(`/bookings/${id}/cancel`, { reason });
       return response.data;
       
     } catch (error) {
@@ -264,22 +792,12 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Canceling booking locally.');
       
-      // Get the booking
-      const localBookings = this.getAllLocalBookings();
-      const bookingIndex = localBookings.findIndex(b => b.id === id);
-      
-      if (bookingIndex === -1) {
+      const booking = this.getStoredBookings().find(b => b.id === id);
+      if (!booking) {
         throw new Error('Booking not found');
       }
       
-      // Update status to cancelled
-      localBookings[bookingIndex].status = 'cancelled';
-      localBookings[bookingIndex].updatedAt = new Date().toISOString();
-      
-      // Save back to localStorage
-      this.saveAllLocalBookings(localBookings);
-      
-      return localBookings[bookingIndex];
+      return await this.cancelLocalBooking(booking, reason);
     }
   }
 
@@ -289,13 +807,19 @@ class BookingService {
    * ─────────────────────────────────────────────────────────────────────────
    * Updates booking details (date, time, seats, etc.)
    * 
+   * Only pending and confirmed bookings can be changed. A new date, slot or
+   * party size is checked for a free table first, and a confirmed booking
+   * goes back to pending when the restaurant's reapprovalPolicy asks for it
+   * 
    * FALLBACK: Updates booking in localStorage
    * 
+   * Pre-orders are changed with updatePreOrder
+   * 
    * @param id - Booking ID
    * @param data - Updated booking data
    * @returns Promise<Booking> - The updated booking
    */
-  async updateBooking(id: string, data: Partial<CreateBookingData>): Promise<Booking> {
+  async updateBooking(id: string, data: Partial<Omit<CreateBookingData, 'preOrder'>>): Promise<Booking> {
     try {
       // ───────────────────────────────────────────────────────────────────
       // BACKEND REQUEST: Update booking on backend
@@ -309,45 +833,561 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Updating booking locally.');
       
-      const localBookings = this.getAllLocalBookings();
-      const bookingIndex = localBookings.findIndex(b => b.id === id);
+      // Customers can only change their own bookings
+      const user = authService.getStoredUser();
+      const booking = this.getStoredBookings().find(b => b.id === id);
       
-      if (bookingIndex === -1) {
+      if (!booking || !user || booking.userId !== user.id) {
         throw new Error('Booking not found');
       }
       
-      // Merge updated data
-      localBookings[bookingIndex] = {
-        ...localBookings[bookingIndex],
-        ...data,
+      if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+        throw new Error('Only upcoming bookings can be changed');
+      }
+      
+      const policy = this.getDemoCancellationPolicy(booking.restaurantId);
+      if (this.getCancellationTerms(booking, policy).modificationsLeft <= 0) {
+        throw new Error(
+          `This booking has already been changed the maximum of ${policy.maxModifications} time${policy.maxModifications === 1 ? '' : 's'}`
+        );
+      }
+      
+      // Only the booking's details can change (not its restaurant, series
+      // or contact details)
+      const changes: Partial<CreateBookingData> = {
+        date: data.date ?? booking.date,
+        timeSlot: data.timeSlot ?? booking.timeSlot,
+        seats: data.seats ?? booking.seats,
+        specialRequests: data.specialRequests ?? booking.specialRequests
+      };
+      
+      const updated: Booking = {
+        ...booking,
+        ...changes,
+        modificationCount: (booking.modificationCount ?? 0) + 1,
         updatedAt: new Date().toISOString()
       };
       
-      // Save back to localStorage
-      this.saveAllLocalBookings(localBookings);
+      // A new date, slot or party size needs a free table (the booking's
+      // own tables count as free) in a slot that hasn't started yet
+      const detailsChanged =
+        updated.date !== booking.date ||
+        updated.timeSlot !== booking.timeSlot ||
+        updated.seats !== booking.seats;
+      
+      if (detailsChanged) {
+        const availability = this.getDemoAvailability(
+          updated.restaurantId, updated.date, updated.timeSlot, updated.seats,
+          { forUserId: booking.userId, excludeBookingId: booking.id }
+        );
+        
+        if (availability.closedReason) {
+          throw new Error(availability.closedReason);
+        }
+        
+        if (!availability.canSeat) {
+          throw new Error(`No table available for a party of ${updated.seats} at ${updated.timeSlot}`);
+        }
+        
+        // A bigger party or a peak slot may need a (larger) deposit, which
+        // can only be taken with a new booking
+        const deposit = this.getDepositRequirement(
+          restaurantService.getLocalRestaurant(booking.restaurantId) ?? {},
+          updated
+        );
+        if (deposit && deposit.amount > (booking.deposit?.status === 'paid' ? booking.deposit.amount : 0)) {
+          throw new Error(
+            `This change needs a deposit of ৳${deposit.amount.toLocaleString()}. Please cancel and make a new booking instead`
+          );
+        }
+        
+        updated.tableIds = availability.tables.map(t => t.id);
+      }
+      
+      // Changed confirmed bookings may need the restaurant's approval again
+      const restaurant = restaurantService.getLocalRestaurant(booking.restaurantId);
+      let saved = updated;
+      if (this.needsReapproval(booking, changes, restaurant?.reapprovalPolicy)) {
+        saved = this.transitionLocalBooking(
+          id, 'pending', 'Booking changed, waiting for the restaurant to approve it again', updated
+        );
+      } else {
+        this.saveLocalBooking(updated);
+      }
+      
+      // Seats given up in the old slot go to the waitlist
+      if (detailsChanged) {
+        waitlistService.offerFreedSeats(booking.restaurantId, booking.date, booking.timeSlot);
+      }
       
-      return localBookings[bookingIndex];
+      return saved;
     }
   }
 
   /**
-   * ═══════════════════════════════════════════════════════════════════════════
-   * MANAGER FUNCTIONS (Restaurant Booking Management)
-   * ═══════════════════════════════════════════════════════════════════════════
-   */
-
-  /**
-   * GET RESTAURANT BOOKINGS
-   * Fetches all bookings for a specific restaurant (manager view)
+   * ─────────────────────────────────────────────────────────────────────────
+   * UPDATE PRE-ORDER
+   * ─────────────────────────────────────────────────────────────────────────
+   * Replaces the dishes ordered ahead with a booking. Allowed for pending
+   * and confirmed bookings until the restaurant's pre-order cutoff. Does not
+   * count as a modification of the booking
    * 
-   * @param restaurantId - Restaurant ID
-   * @param filters - Optional filters (status, date)
-   * @returns Promise<Booking[]> - Array of bookings for the restaurant
+   * FALLBACK: Updates booking in localStorage
+   * 
+   * @param id - Booking ID
+   * @param items - New pre-order (empty to remove it)
+   * @returns Promise<Booking> - The updated booking
+   */
+  async updatePreOrder(id: string, items: PreOrderItem[]): Promise<Booking> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Update pre-order on backend
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/bookings/${id}/pre-order`, { items });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update pre-order in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Updating pre-order locally.');
+      
+      const booking = this.getStoredBookings().find(b => b.id === id);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      
+      const restaurant = restaurantService.getLocalRestaurant(booking.restaurantId);
+      if (!this.canEditPreOrder(booking, restaurant?.preOrderCutoffHours)) {
+        throw new Error(
+          `Pre-orders can only be changed up to ${restaurant?.preOrderCutoffHours ?? DEFAULT_PRE_ORDER_CUTOFF_HOURS} hours before the booking`
+        );
+      }
+      
+      const updated: Booking = {
+        ...booking,
+        preOrder: this.checkDemoPreOrder(booking.restaurantId, items),
+        updatedAt: new Date().toISOString()
+      };
+      
+      this.saveLocalBooking(updated);
+      
+      return updated;
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * PAY DEPOSIT
+   * ─────────────────────────────────────────────────────────────────────────
+   * Pays the deposit of a pending-payment booking. Once paid, the booking
+   * goes to the restaurant like any other (pending, or confirmed when the
+   * restaurant confirms automatically)
+   * 
+   * Providers with their own payment page return a redirectUrl instead; the
+   * gateway then reports the payment to the backend
+   * 
+   * FALLBACK: Charges the provider directly and updates localStorage
+   * 
+   * @param id - Booking ID
+   * @param method - Card details for providers that collect them on our page
+   * @param providerId - Payment provider (defaults to DEFAULT_PAYMENT_PROVIDER_ID)
+   * @returns Promise<DepositPaymentResult> - Updated booking, or where to pay
+   */
+  async payDeposit(
+    id: string,
+    method?: PaymentMethodDetails,
+    providerId: string = DEFAULT_PAYMENT_PROVIDER_ID
+  ): Promise<DepositPaymentResult> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Start the payment with the provider
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post(`/bookings/${id}/deposit`, { providerId });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Pay with the local provider
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Paying deposit with the demo provider.');
+      
+      this.refreshPaymentHolds();
+      
+      const booking = this.getStoredBookings().find(b => b.id === id);
+      if (!booking) {
+        throw new Error('Booking not found');
+      }
+      
+      const deposit = booking.deposit;
+      if (deposit?.status === 'released') {
+        throw new Error('The time to pay the deposit has run out and the table was released. Please book again');
+      }
+      
+      if (booking.status !== 'pending-payment' || deposit?.status !== 'due') {
+        throw new Error('This booking has no deposit to pay');
+      }
+      
+      const provider = paymentService.getProvider(providerId);
+      const result = await provider.charge({
+        bookingId: booking.id,
+        amount: deposit.amount,
+        description: `Deposit for ${booking.referenceCode ?? booking.id} at ${booking.restaurant?.name ?? 'the restaurant'}`,
+        customerName: booking.customerName,
+        customerEmail: booking.customerEmail,
+        customerPhone: booking.customerPhone,
+        method
+      });
+      
+      if (result.status === 'failed') {
+        throw new Error(result.failureReason || 'The payment failed');
+      }
+      
+      if (result.status === 'redirect') {
+        return { booking, redirectUrl: result.redirectUrl };
+      }
+      
+      // Paid bookings are confirmed like any new booking
+      const restaurant = restaurantService.getLocalRestaurant(booking.restaurantId);
+      const autoConfirm = !!restaurant && this.shouldAutoConfirm(restaurant, this.calculateCustomerRecord(booking.userId));
+      
+      // Guests pay without logging in, so the payment is recorded as the customer's
+      const payer = { userId: booking.userId, name: booking.customerName, role: 'customer' as const };
+      
+      const updated: Booking = {
+        ...booking,
+        status: autoConfirm ? 'confirmed' : 'pending',
+        deposit: {
+          ...deposit,
+          status: 'paid',
+          providerId: provider.id,
+          paymentId: result.paymentId,
+          paidAt: new Date().toISOString()
+        },
+        statusHistory: [
+          ...(booking.statusHistory ?? []),
+          this.createStatusChange('pending-payment', 'pending', `Deposit of ৳${deposit.amount.toLocaleString()} paid`, payer),
+          ...(autoConfirm ? [this.createSystemStatusChange('pending', 'confirmed', 'Confirmed automatically')] : [])
+        ],
+        updatedAt: new Date().toISOString()
+      };
+      
+      this.saveLocalBooking(updated);
+      
+      return { booking: updated };
+    }
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * GUEST ACCESS (reference code + email, no account needed)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * FIND GUEST BOOKING
+   * Looks up a booking by its reference code and the email it was made with
+   * 
+   * @param referenceCode - Code such as "RX-7K3Q" (case and dashes don't matter)
+   * @param email - customerEmail given when booking
+   * @returns Promise<Booking> - The matching booking
+   */
+  async findGuestBooking(referenceCode: string, email: string): Promise<Booking> {
+    const code = this.normalizeReferenceCode(referenceCode);
+    
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Look up booking by code and email
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/bookings/lookup', { referenceCode: code, email });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Search in demo and local bookings
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Searching in demo bookings.');
+      
+      return this.findLocalGuestBooking(code, email);
+    }
+  }
+
+  /**
+   * CANCEL GUEST BOOKING
+   * Cancels a booking found by reference code and email. The restaurant's
+   * cancellation and deposit policies apply just like in cancelBooking
+   * 
+   * @param referenceCode - Booking's reference code
+   * @param email - customerEmail given when booking
+   * @param reason - Optional reason, kept in the status history
+   * @returns Promise<Booking> - The updated booking
+   */
+  async cancelGuestBooking(referenceCode: string, email: string, reason?: string): Promise<Booking> {
+    const code = this.normalizeReferenceCode(referenceCode);
+    
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Cancel booking by code and email
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/bookings/lookup/cancel', { referenceCode: code, email, reason });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update status in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Canceling booking locally.');
+      
+      const booking = this.findLocalGuestBooking(code, email);
+      
+      // The guest may not be logged in, so record the cancellation as theirs
+      return await this.cancelLocalBooking(booking, reason, {
+        userId: booking.userId,
+        name: booking.customerName,
+        role: 'customer'
+      });
+    }
+  }
+
+  /**
+   * NORMALIZE REFERENCE CODE
+   * Turns user input such as " rx 7k3q" or "7K3Q" into "RX-7K3Q"
+   * 
+   * @param input - Code as typed
+   * @returns string - Code in the stored format
+   */
+  normalizeReferenceCode(input: string): string {
+    let chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    
+    if (chars.length > REFERENCE_CODE_LENGTH && chars.startsWith(REFERENCE_CODE_PREFIX)) {
+      chars = chars.slice(REFERENCE_CODE_PREFIX.length);
+    }
+    
+    return `${REFERENCE_CODE_PREFIX}-${chars}`;
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * RECURRING SERIES (one booking per occurrence, linked by seriesId)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * GET SERIES DATES
+   * Lists the dates of a series, starting with the first booking's date
+   * 
+   * @param startDate - First date (YYYY-MM-DD format)
+   * @param rule - Frequency and end of the series
+   * @returns string[] - Dates in order (at most MAX_SERIES_OCCURRENCES)
+   */
+  getSeriesDates(startDate: string, rule: RecurrenceRule): string[] {
+    const [year, month, day] = startDate.split('-').map(Number);
+    const step = rule.frequency === 'biweekly' ? 14 : 7;
+    const limit = Math.min(rule.occurrences ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+    const dates: string[] = [];
+    
+    for (let i = 0; i < limit; i++) {
+      const date = timeSlotService.toDateString(new Date(year, month - 1, day + i * step));
+      if (rule.endDate && date > rule.endDate) {
+        break;
+      }
+      dates.push(date);
+    }
+    
+    return dates;
+  }
+
+  /**
+   * CHECK SERIES
+   * Checks every date of a series for a free table before anything is
+   * booked, so conflicts can be shown up front
+   * 
+   * @param data - Booking information (the date is the first occurrence)
+   * @param rule - Frequency and end of the series
+   * @returns Promise<SeriesOccurrence[]> - Every date, with a conflict where it can't be booked
+   */
+  async checkSeries(data: CreateBookingData, rule: RecurrenceRule): Promise<SeriesOccurrence[]> {
+    return Promise.all(this.getSeriesDates(data.date, rule).map(async (date) => {
+      const availability = await restaurantService.getAvailability(data.restaurantId, date, data.timeSlot, data.seats);
+      
+      if (availability.closedReason) {
+        return { date, conflict: availability.closedReason };
+      }
+      
+      return availability.canSeat
+        ? { date }
+        : { date, conflict: `No table for ${data.seats} at ${data.timeSlot}` };
+    }));
+  }
+
+  /**
+   * CREATE SERIES
+   * Books every date of a series with createBooking, so each occurrence
+   * gets its own availability check (and deposit, where one is needed).
+   * Dates that fail are reported instead of stopping the series
+   * 
+   * @param data - Booking information (the date is the first occurrence)
+   * @param rule - Frequency and end of the series
+   * @param skipDates - Dates to leave out (e.g., conflicts the customer accepted)
+   * @returns Promise<SeriesResult> - Created bookings and failed dates
+   */
+  async createSeries(data: CreateBookingData, rule: RecurrenceRule, skipDates: string[] = []): Promise<SeriesResult> {
+    const seriesId = `series-${Date.now()}`;
+    const result: SeriesResult = { seriesId, bookings: [], failed: [] };
+    
+    // One at a time, so demo bookings see the ones made before them
+    for (const date of this.getSeriesDates(data.date, rule)) {
+      if (skipDates.includes(date)) continue;
+      
+      try {
+        result.bookings.push(await this.createBooking({ ...data, date, seriesId }));
+      } catch (error: any) {
+        result.failed.push({ date, conflict: error.message || 'Booking failed' });
+      }
+    }
+    
+    return result;
+  }
+
+  /**
+   * CANCEL SERIES
+   * Cancels every upcoming booking of a series with cancelBooking (the
+   * cancellation policy applies to each one). Bookings that can no longer
+   * be cancelled are left as they are
+   * 
+   * @param seriesId - Series ID
+   * @param reason - Optional reason, kept in each status history
+   * @returns Promise<Booking[]> - The cancelled bookings
+   */
+  async cancelSeries(seriesId: string, reason?: string): Promise<Booking[]> {
+    const upcoming = (await this.getMyBookings()).filter(b =>
+      b.seriesId === seriesId && this.canTransition(b.status, 'cancelled')
+    );
+    
+    const cancelled: Booking[] = [];
+    for (const booking of upcoming) {
+      try {
+        cancelled.push(await this.cancelBooking(booking.id, reason));
+      } catch (error) {
+        console.warn(`Booking ${booking.id} of the series could not be cancelled:`, error);
+      }
+    }
+    
+    return cancelled;
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * DEMO AVAILABILITY (local calculator used when the backend is down)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * GET DEMO AVAILABILITY
+   * Seats every demo and localStorage booking of the slot at the demo tables
+   * and reports what is left for the party
+   * 
+   * The answer only depends on the stored bookings, so it is the same every
+   * time it is asked and shrinks as soon as a demo booking is created.
+   * Closed dates and slots outside opening hours report closedReason.
+   * Seats offered to a waitlisted customer stay taken for everybody else
+   * until the offer is claimed or expires; unpaid deposit bookings hold
+   * their tables until the payment window closes
+   * 
+   * @param restaurantId - Restaurant ID
+   * @param date - Reservation date (YYYY-MM-DD format)
+   * @param timeSlot - Time slot
+   * @param partySize - Number of guests
+   * @param options - Customer asking (defaults to the logged in user) and
+   *                  booking being changed
+   * @returns SlotAvailability - Free seats, largest party and assigned tables
+   */
+  getDemoAvailability(
+    restaurantId: string,
+    date: string,
+    timeSlot: string,
+    partySize: number,
+    options: DemoAvailabilityOptions = {}
+  ): SlotAvailability {
+    const forUserId = options.forUserId ?? authService.getStoredUser()?.id;
+    
+    const restaurant = restaurantService.getLocalRestaurant(restaurantId);
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+    
+    // Past dates and slots that have already started can't be booked
+    // (walk-ins are seated in the slot being served)
+    const start = timeSlotService.getSlotStart(date, timeSlot);
+    if (!options.includeStarted && start && start <= new Date()) {
+      return {
+        availableSeats: 0,
+        largestParty: 0,
+        canSeat: false,
+        tables: [],
+        closedReason: date < timeSlotService.toDateString(new Date())
+          ? 'This date has already passed'
+          : 'This time slot has already started'
+      };
+    }
+    
+    // Nothing can be booked on a closed day or outside the service periods
+    const hours = timeSlotService.getOpeningHours(restaurant, date);
+    if (hours.closed || !timeSlotService.isWithinOpeningHours(restaurant, date, timeSlot)) {
+      return {
+        availableSeats: 0,
+        largestParty: 0,
+        canSeat: false,
+        tables: [],
+        closedReason: hours.closed
+          ? `Closed on this date${hours.reason ? ` (${hours.reason})` : ''}`
+          : 'This time slot is outside opening hours'
+      };
+    }
+    
+    const tables = tableService.getLocalTables(restaurantId);
+    const slotBookings = this.getDemoSlotBookings(restaurantId, date, timeSlot, { ...options, forUserId });
+    
+    return getSlotAvailability(tables, getOccupiedTableIds(tables, slotBookings), partySize);
+  }
+
+  /**
+   * GET DEMO UPCOMING BOOKINGS
+   * Demo bookings of a restaurant from today on, leaving out unpaid
+   * bookings whose payment window has closed (checked before tables are
+   * removed from the floor plan)
+   * 
+   * @param restaurantId - Restaurant ID
+   * @returns Booking[] - Bookings of today and later dates
+   */
+  getDemoUpcomingBookings(restaurantId: string): Booking[] {
+    const today = timeSlotService.toDateString(new Date());
+    
+    return this.getStoredBookings().filter(b =>
+      b.restaurantId === restaurantId &&
+      b.date >= today &&
+      !this.isExpiredPaymentHold(b)
+    );
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * MANAGER FUNCTIONS (Restaurant Booking Management)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * GET RESTAURANT BOOKINGS
+   * Fetches all bookings for a specific restaurant (manager view)
+   * 
+   * @param restaurantId - Restaurant ID
+   * @param filters - Optional filters (status, date, booking preferences)
+   * @returns Promise<Booking[]> - Array of bookings for the restaurant
    */
   async getRestaurantBookings(restaurantId: string, filters?: {
     status?: string;
     date?: string;
-  }): Promise<Booking[]> {
+  } & BookingPreferenceFilter): Promise<Booking[]> {
     try {
       // ───────────────────────────────────────────────────────────────────
       // BACKEND REQUEST: Get restaurant bookings
@@ -361,8 +1401,10 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Using demo restaurant bookings.');
       
+      this.refreshPaymentHolds();
+      
       // Combine demo and local bookings
-      const allBookings = [...DEMO_BOOKINGS, ...this.getAllLocalBookings()];
+      const allBookings = this.getStoredBookings();
       
       // Filter by restaurant
       let restaurantBookings = allBookings.filter(b => b.restaurantId === restaurantId);
@@ -376,24 +1418,111 @@ class BookingService {
         restaurantBookings = restaurantBookings.filter(b => b.date === filters.date);
       }
       
+      if (filters) {
+        restaurantBookings = restaurantBookings.filter(b => this.matchesPreferences(b, filters));
+      }
+      
       return restaurantBookings;
     }
   }
 
+  /**
+   * GET DAY SHEET
+   * Groups a day's bookings by time slot, earliest slot first, with the
+   * covers of each slot
+   * 
+   * @param bookings - Bookings of a restaurant (other dates are left out)
+   * @param date - Day to list (YYYY-MM-DD format)
+   * @returns DaySheetSlot[] - Slots that have at least one booking
+   */
+  getDaySheet(bookings: Booking[], date: string): DaySheetSlot[] {
+    const slots = new Map<string, Booking[]>();
+    
+    bookings
+      .filter(b => b.date === date)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach(b => slots.set(b.timeSlot, [...(slots.get(b.timeSlot) ?? []), b]));
+    
+    return [...slots.entries()]
+      .map(([timeSlot, slotBookings]) => ({ timeSlot, bookings: slotBookings, covers: this.getCovers(slotBookings) }))
+      .sort((a, b) =>
+        (timeSlotService.parseTimeSlot(a.timeSlot)?.start ?? 0) -
+        (timeSlotService.parseTimeSlot(b.timeSlot)?.start ?? 0)
+      );
+  }
+
+  /**
+   * GET COVERS
+   * Counts the guests expected for a set of bookings (cancelled and
+   * no-show bookings don't count)
+   * 
+   * @param bookings - Bookings to count
+   * @returns number - Total guests
+   */
+  getCovers(bookings: Booking[]): number {
+    return bookings
+      .filter(b => !NON_COVER_STATUSES.includes(b.status))
+      .reduce((sum, b) => sum + b.seats, 0);
+  }
+
+  /**
+   * GET BOOKING BY REFERENCE
+   * Finds a booking by its reference code (e.g., read out over the phone).
+   * Managers only find bookings of their own restaurants
+   * 
+   * @param referenceCode - Code such as "RX-7K3Q" (case and dashes don't matter)
+   * @returns Promise<Booking> - The matching booking
+   */
+  async getBookingByReference(referenceCode: string): Promise<Booking> {
+    const code = this.normalizeReferenceCode(referenceCode);
+    
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get booking by reference code
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get(`/bookings/reference/${code}`);
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Search in demo and local bookings
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Searching in demo bookings.');
+      
+      const user = authService.getStoredUser();
+      const booking = this.getStoredBookings().find(b => b.referenceCode === code);
+      const restaurant = booking && restaurantService.getLocalRestaurant(booking.restaurantId);
+      
+      if (!booking || (user?.role === 'manager' && restaurant?.managerId !== user.id)) {
+        throw new Error(`No booking found with reference ${code}`);
+      }
+      
+      return booking;
+    }
+  }
+
   /**
    * UPDATE BOOKING STATUS
    * Changes the status of a booking (e.g., from pending to confirmed)
    * 
+   * Only the moves listed in BOOKING_STATUS_TRANSITIONS are allowed, and
+   * every change is added to the booking's status history. Cancelling
+   * refunds a paid deposit in full; a no-show forfeits it
+   * 
+   * FALLBACK: The restaurant's manager or an admin can make any allowed
+   * move; customers can only cancel their own bookings
+   * 
    * @param id - Booking ID
    * @param status - New status
+   * @param reason - Optional reason, kept in the status history
    * @returns Promise<Booking> - The updated booking
    */
-  async updateBookingStatus(id: string, status: Booking['status']): Promise<Booking> {
+  async updateBookingStatus(id: string, status: BookingStatus, reason?: string): Promise<Booking> {
     try {
       // ───────────────────────────────────────────────────────────────────
       // BACKEND REQUEST: Update booking status
       // ───────────────────────────────────────────────────────────────────
-      const response = await api.put(`/bookings/${id}/status`, { status });
+      const response = await api.put(`/bookings/${id}/status`, { status, reason });
       return response.data;
       
     } catch (error) {
@@ -402,22 +1531,359 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Updating booking status locally.');
       
-      const localBookings = this.getAllLocalBookings();
-      const bookingIndex = localBookings.findIndex(b => b.id === id);
+      const user = authService.getStoredUser();
+      const booking = this.getStoredBookings().find(b => b.id === id);
+      const restaurant = booking && restaurantService.getLocalRestaurant(booking.restaurantId);
+      const isStaff = user?.role === 'admin' || (user?.role === 'manager' && restaurant?.managerId === user.id);
+      
+      if (!booking || !user || (!isStaff && booking.userId !== user.id)) {
+        throw new Error('Booking not found');
+      }
+      
+      // Customers can only cancel their own bookings; the rest is up to the restaurant
+      if (!isStaff && status !== 'cancelled') {
+        throw new Error('Only the restaurant can change the status of this booking');
+      }
+      
+      // Guests can only miss or finish a booking once it has started
+      if ((status === 'no-show' || status === 'completed') && !this.hasStarted(booking)) {
+        throw new Error(`A booking can only be marked as ${BOOKING_STATUS_LABELS[status].toLowerCase()} after it has started`);
+      }
+      
+      // The restaurant pays the whole deposit back when it cancels; a
+      // no-show loses it
+      if (booking.deposit && (status === 'cancelled' || status === 'no-show') && this.canTransition(booking.status, status)) {
+        const deposit = await this.settleDeposit(booking, status === 'cancelled' ? booking.deposit.amount : 0);
+        return this.transitionLocalBooking(id, status, reason, { deposit });
+      }
+      
+      return this.transitionLocalBooking(id, status, reason);
+    }
+  }
+
+  /**
+   * ASSIGN TABLES
+   * Seats a booking at the tables a manager picked on the floor plan
+   * (replaces the tables it was given automatically)
+   * 
+   * The tables have to be free in the booking's slot and seat the whole party
+   * 
+   * @param id - Booking ID
+   * @param tableIds - Tables for the party (several when pushed together)
+   * @returns Promise<Booking> - The updated booking
+   */
+  async assignTables(id: string, tableIds: string[]): Promise<Booking> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Assign tables to the booking
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/bookings/${id}/tables`, { tableIds });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Check the floor plan and assign locally
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Assigning tables locally.');
+      
+      const booking = this.getStoredBookings().find(b => b.id === id);
       
-      if (bookingIndex === -1) {
+      if (!booking) {
         throw new Error('Booking not found');
       }
       
-      localBookings[bookingIndex].status = status;
-      localBookings[bookingIndex].updatedAt = new Date().toISOString();
+      if (!TABLE_ASSIGNABLE_STATUSES.includes(booking.status)) {
+        throw new Error(`A ${BOOKING_STATUS_LABELS[booking.status].toLowerCase()} booking can't be given a table`);
+      }
+      
+      const restaurantTables = tableService.getLocalTables(booking.restaurantId);
+      const tables = tableIds.map(tableId => restaurantTables.find(t => t.id === tableId));
+      if (tables.length === 0 || tables.some(t => !t)) {
+        throw new Error('Table not found');
+      }
+      
+      const capacity = tables.reduce((sum, t) => sum + t!.capacity, 0);
+      if (capacity < booking.seats) {
+        throw new Error(
+          `${tables.map(t => t!.label).join(' + ')} seat${tables.length === 1 ? 's' : ''} ${capacity}, not enough for ${booking.seats} guests`
+        );
+      }
+      
+      // Other bookings of the slot keep their tables
+      const states = getTableStates(
+        restaurantTables,
+        this.getDemoSlotBookings(booking.restaurantId, booking.date, booking.timeSlot, { excludeBookingId: booking.id })
+      );
+      const taken = tables.find(t => states[t!.id]?.status !== 'free');
+      if (taken) {
+        throw new Error(`${taken.label} is taken by ${states[taken.id].booking?.customerName ?? 'another booking'} in this slot`);
+      }
+      
+      const updated: Booking = {
+        ...booking,
+        tableIds,
+        updatedAt: new Date().toISOString()
+      };
+      
+      this.saveLocalBooking(updated);
+      
+      return updated;
+    }
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * STATUS RULES (shared by customer and manager views)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * CAN TRANSITION
+   * Checks whether a booking may move from one status to another
+   * 
+   * @param from - Current status
+   * @param to - Requested status
+   * @returns boolean - true if the move is allowed
+   */
+  canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return BOOKING_STATUS_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * HAS STARTED
+   * Checks whether a booking's slot has begun (no-shows and completed
+   * visits can only be recorded from then on)
+   * 
+   * @param booking - Booking (date and slot)
+   * @param now - Current time (for testing)
+   * @returns boolean - true once the slot has started (or can't be read)
+   */
+  hasStarted(booking: Pick<Booking, 'date' | 'timeSlot'>, now: Date = new Date()): boolean {
+    const start = timeSlotService.getSlotStart(booking.date, booking.timeSlot);
+    return !start || start <= now;
+  }
+
+  /**
+   * GET CANCELLATION TERMS
+   * Applies a restaurant's cancellation policy to a booking
+   * 
+   * @param booking - Booking (date, slot and modification count)
+   * @param policy - Restaurant's cancellationPolicy (defaults to DEFAULT_CANCELLATION_POLICY)
+   * @param now - Current time (for testing)
+   * @returns CancellationTerms - Free-cancellation deadline and what is still allowed
+   */
+  getCancellationTerms(
+    booking: Pick<Booking, 'date' | 'timeSlot' | 'modificationCount'>,
+    policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY,
+    now: Date = new Date()
+  ): CancellationTerms {
+    const start = timeSlotService.getSlotStart(booking.date, booking.timeSlot);
+    const freeUntil = start
+      ? new Date(start.getTime() - policy.freeCancellationHours * 60 * 60 * 1000)
+      : null;
+    const isLate = !!freeUntil && now > freeUntil;
+    
+    return {
+      freeUntil,
+      isLate,
+      canCancel: !isLate || policy.allowLateCancellation,
+      modificationsLeft: Math.max(0, policy.maxModifications - (booking.modificationCount ?? 0))
+    };
+  }
+
+  /**
+   * GET PRE-ORDER CUTOFF
+   * Last moment the pre-order of a booking can be changed
+   * 
+   * @param booking - Booking (date and slot)
+   * @param cutoffHours - Restaurant's preOrderCutoffHours (defaults to DEFAULT_PRE_ORDER_CUTOFF_HOURS)
+   * @returns Date | null - Cutoff, or null if the slot is unreadable
+   */
+  getPreOrderCutoff(
+    booking: Pick<Booking, 'date' | 'timeSlot'>,
+    cutoffHours: number = DEFAULT_PRE_ORDER_CUTOFF_HOURS
+  ): Date | null {
+    const start = timeSlotService.getSlotStart(booking.date, booking.timeSlot);
+    return start ? new Date(start.getTime() - cutoffHours * 60 * 60 * 1000) : null;
+  }
+
+  /**
+   * CAN EDIT PRE-ORDER
+   * Checks whether a booking's pre-order can still be changed
+   * 
+   * @param booking - Booking (status, date and slot)
+   * @param cutoffHours - Restaurant's preOrderCutoffHours
+   * @param now - Current time (for testing)
+   * @returns boolean - true for upcoming bookings before the cutoff
+   */
+  canEditPreOrder(
+    booking: Pick<Booking, 'status' | 'date' | 'timeSlot'>,
+    cutoffHours?: number,
+    now: Date = new Date()
+  ): boolean {
+    const cutoff = this.getPreOrderCutoff(booking, cutoffHours);
+    return (booking.status === 'pending' || booking.status === 'confirmed') && !!cutoff && now < cutoff;
+  }
+
+  /**
+   * GET PRE-ORDER SUBTOTAL
+   * Adds up a pre-order
+   * 
+   * @param items - Pre-order items
+   * @returns number - Subtotal in BDT
+   */
+  getPreOrderSubtotal(items: PreOrderItem[] = []): number {
+    return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  }
+
+  /**
+   * MATCHES PREFERENCES
+   * Checks a booking against a preference filter (unset fields match anything)
+   * 
+   * @param booking - Booking to check
+   * @param filter - Occasion, dietary, accessibility and seating to look for
+   * @returns boolean - true if the booking has everything the filter asks for
+   */
+  matchesPreferences(booking: Booking, filter: BookingPreferenceFilter): boolean {
+    return (!filter.occasion || booking.occasion === filter.occasion) &&
+      (!filter.dietaryRestriction || !!booking.dietaryRestrictions?.includes(filter.dietaryRestriction)) &&
+      (!filter.accessibilityNeed || !!booking.accessibilityNeeds?.includes(filter.accessibilityNeed)) &&
+      (!filter.seatingPreference || booking.seatingPreference === filter.seatingPreference);
+  }
+
+  /**
+   * GET DEPOSIT REQUIREMENT
+   * Applies a restaurant's deposit policy to a booking request
+   * 
+   * @param restaurant - Restaurant with its depositPolicy
+   * @param booking - Date, slot and party size
+   * @returns DepositRequirement | null - Deposit to pay, or null if none is needed
+   */
+  getDepositRequirement(
+    restaurant: Pick<Restaurant, 'depositPolicy'>,
+    booking: Pick<CreateBookingData, 'date' | 'timeSlot' | 'seats'>
+  ): DepositRequirement | null {
+    const policy = restaurant.depositPolicy;
+    if (!policy) {
+      return null;
+    }
+    
+    let reason: string | null = null;
+    if (policy.minPartySize && booking.seats >= policy.minPartySize) {
+      reason = `Parties of ${policy.minPartySize} or more`;
+    } else if (this.isPeakSlot(policy.peakPeriods ?? [], booking.date, booking.timeSlot)) {
+      reason = 'Peak time';
+    }
+    
+    return reason ? { amount: policy.amountPerGuest * booking.seats, reason } : null;
+  }
+
+  /**
+   * GET DEPOSIT REFUND
+   * How much of a paid deposit goes back to the customer on cancel
+   * 
+   * @param deposit - Booking's deposit
+   * @param isLate - Cancelled after the free-cancellation window (see getCancellationTerms)
+   * @param policy - Restaurant's depositPolicy
+   * @returns number - Refund in BDT (0 when nothing was paid)
+   */
+  getDepositRefund(deposit: BookingDeposit | undefined, isLate: boolean, policy?: DepositPolicy): number {
+    if (deposit?.status !== 'paid') {
+      return 0;
+    }
+    
+    return isLate
+      ? Math.round(deposit.amount * (policy?.lateCancellationRefundPercent ?? 0) / 100)
+      : deposit.amount;
+  }
+
+  /**
+   * NEEDS REAPPROVAL
+   * Checks whether changing a booking sends it back to pending under the
+   * restaurant's reapproval policy (only confirmed bookings are affected)
+   * 
+   * @param booking - Booking before the change
+   * @param changes - Requested changes
+   * @param policy - Restaurant's reapprovalPolicy (defaults to 'booking-details')
+   * @returns boolean - true if the restaurant has to confirm it again
+   */
+  needsReapproval(
+    booking: Booking,
+    changes: Partial<CreateBookingData>,
+    policy: ReapprovalPolicy = 'booking-details'
+  ): boolean {
+    if (booking.status !== 'confirmed' || policy === 'never') {
+      return false;
+    }
+    
+    const changed = (field: keyof CreateBookingData) =>
+      changes[field] !== undefined && changes[field] !== booking[field];
+    
+    const detailsChanged = changed('date') || changed('timeSlot') || changed('seats');
+    
+    return policy === 'any-change'
+      ? (Object.keys(changes) as (keyof CreateBookingData)[]).some(changed)
+      : detailsChanged;
+  }
+
+  /**
+   * GET NEXT STATUSES
+   * Lists the statuses a booking can move to from its current status
+   * 
+   * @param status - Current status
+   * @returns BookingStatus[] - Allowed next statuses (empty when final)
+   */
+  getNextStatuses(status: BookingStatus): BookingStatus[] {
+    return BOOKING_STATUS_TRANSITIONS[status];
+  }
+
+  /**
+   * GET CUSTOMER RECORD
+   * Summarises a customer's booking behaviour (e.g., late cancellations)
+   * 
+   * @param userId - Customer's user ID
+   * @returns Promise<CustomerRecord> - Booking counts for the customer
+   */
+  async getCustomerRecord(userId: string): Promise<CustomerRecord> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get customer record
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get(`/customers/${userId}/record`);
+      return response.data;
       
-      this.saveAllLocalBookings(localBookings);
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Count the customer's demo + local bookings
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Calculating customer record locally.');
       
-      return localBookings[bookingIndex];
+      return this.calculateCustomerRecord(userId);
     }
   }
 
+  /**
+   * SHOULD AUTO CONFIRM
+   * Decides whether a new booking is confirmed without waiting for a manager
+   * 
+   * @param restaurant - Restaurant with its confirmationPolicy
+   * @param record - Booking record of the customer
+   * @returns boolean - true if the booking can be confirmed straight away
+   */
+  shouldAutoConfirm(
+    restaurant: Pick<Restaurant, 'confirmationPolicy'>,
+    record: Pick<CustomerRecord, 'reliabilityScore'>
+  ): boolean {
+    const policy = restaurant.confirmationPolicy;
+    if (!policy?.autoConfirm) {
+      return false;
+    }
+    
+    // New customers (no score yet) are trusted
+    const threshold = policy.requireConfirmationBelowScore;
+    return threshold === undefined || record.reliabilityScore === null || record.reliabilityScore >= threshold;
+  }
+
   /**
    * ═══════════════════════════════════════════════════════════════════════════
    * ADMIN FUNCTIONS
@@ -450,7 +1916,9 @@ class BookingService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Using all demo bookings.');
       
-      let allBookings = [...DEMO_BOOKINGS, ...this.getAllLocalBookings()];
+      this.refreshPaymentHolds();
+      
+      let allBookings = this.getStoredBookings();
       
       // Apply filters if provided
       if (filters?.status) {
@@ -473,6 +1941,36 @@ class BookingService {
     }
   }
 
+  /**
+   * GET BOOKING COUNTS
+   * Counts the bookings each user has made (admin view)
+   * 
+   * FALLBACK: Counts the demo + local bookings
+   * 
+   * @param userIds - Users to count for
+   * @returns Promise<Record<string, number>> - User ID → bookings
+   */
+  async getBookingCounts(userIds: string[]): Promise<Record<string, number>> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Count the users' bookings
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/bookings/counts', { params: { userIds: userIds.join(',') } });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Count the demo + local bookings
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Counting demo bookings.');
+      
+      this.refreshPaymentHolds();
+      
+      const bookings = this.getStoredBookings();
+      return Object.fromEntries(userIds.map(id => [id, bookings.filter(b => b.userId === id).length]));
+    }
+  }
+
   /**
    * ═══════════════════════════════════════════════════════════════════════════
    * PRIVATE HELPER METHODS (for demo mode localStorage management)
@@ -489,6 +1987,525 @@ class BookingService {
     this.saveAllLocalBookings(bookings);
   }
 
+  /**
+   * Save a changed booking to localStorage
+   * Changed demo bookings are stored as a local copy that replaces the original
+   * @param booking - Booking to save
+   */
+  private saveLocalBooking(booking: Booking): void {
+    const bookings = this.getAllLocalBookings().filter(b => b.id !== booking.id);
+    bookings.push(booking);
+    this.saveAllLocalBookings(bookings);
+  }
+
+  /**
+   * Get demo bookings and localStorage bookings together
+   * Local copies of demo bookings take the place of the originals
+   * @returns Array of bookings
+   */
+  private getStoredBookings(): Booking[] {
+    const localBookings = this.getAllLocalBookings();
+    const localIds = new Set(localBookings.map(b => b.id));
+    return [...DEMO_BOOKINGS.filter(b => !localIds.has(b.id)), ...localBookings];
+  }
+
+  /**
+   * Seat a new booking at free demo tables and save it to localStorage
+   * @param data - Booking information
+   * @param customer - Who is booking (a user, a guest or a host)
+   * @param options - Booked without an account (isGuest), or taken by a
+   *                  host for the restaurant (source 'phone' or 'walk-in')
+   * @returns The created booking
+   */
+  private createLocalBooking(
+    data: CreateBookingData,
+    customer: BookingStatusChange['changedBy'] & { userId: string },
+    options: { isGuest?: boolean; source?: BookingSource } = {}
+  ): Booking {
+    // Find restaurant details
+    const restaurant = restaurantService.getLocalRestaurant(data.restaurantId);
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+    
+    // Only approved restaurants take bookings
+    if (restaurant.status !== 'active') {
+      throw new Error(`${restaurant.name} isn't taking bookings right now`);
+    }
+    
+    // Seat the party at real tables that are free in this slot
+    const availability = this.getDemoAvailability(
+      data.restaurantId, data.date, data.timeSlot, data.seats,
+      { includeStarted: options.source === 'walk-in' }
+    );
+    
+    if (availability.closedReason) {
+      throw new Error(availability.closedReason);
+    }
+    
+    if (!availability.canSeat) {
+      throw new Error(`No table available for a party of ${data.seats} at ${data.timeSlot}`);
+    }
+    
+    // Dishes ordered ahead must still be on the menu
+    const preOrder = data.preOrder?.length ? this.checkDemoPreOrder(data.restaurantId, data.preOrder) : undefined;
+    
+    // Hosts book for the restaurant itself: the guest is on the phone or at
+    // the door, so there is no deposit to wait for
+    const hostSource = options.source === 'phone' || options.source === 'walk-in' ? options.source : null;
+    
+    // Large parties and peak slots are only held until the deposit is paid
+    const deposit = hostSource ? null : this.getDepositRequirement(restaurant, data);
+    const paymentWindow = restaurant.depositPolicy?.paymentWindowMinutes ?? DEFAULT_PAYMENT_WINDOW_MINUTES;
+    
+    // Restaurants may confirm bookings straight away, except for customers
+    // whose reliability score is below their threshold
+    const autoConfirm = !hostSource && !deposit && this.shouldAutoConfirm(restaurant, this.calculateCustomerRecord(customer.userId));
+    
+    const status: BookingStatus = hostSource === 'walk-in' ? 'seated'
+      : hostSource === 'phone' ? 'confirmed'
+      : deposit ? 'pending-payment'
+      : autoConfirm ? 'confirmed'
+      : 'pending'; // Otherwise waits for the restaurant
+    
+    // Create new booking object
+    const newBooking: Booking = {
+      // Unique ID based on timestamp (series book several in the same millisecond)
+      id: `booking-demo-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      referenceCode: this.generateReferenceCode(),
+      restaurantId: data.restaurantId,
+      userId: hostSource ? this.getRestaurantUserId(restaurant.id) : customer.userId,
+      isGuest: options.isGuest ?? false,
+      source: options.source,
+      date: data.date,
+      timeSlot: data.timeSlot,
+      seats: data.seats,
+      tableIds: availability.tables.map(t => t.id),
+      status,
+      statusHistory: hostSource ? [
+        this.createStatusChange(null, status, hostSource === 'walk-in' ? 'Walk-in' : 'Booked by phone', customer)
+      ] : [
+        deposit
+          ? this.createStatusChange(null, 'pending-payment', `Booking requested, deposit of ৳${deposit.amount.toLocaleString()} needed`, customer)
+          : this.createStatusChange(null, 'pending', 'Booking requested', customer),
+        ...(autoConfirm ? [this.createSystemStatusChange('pending', 'confirmed', 'Confirmed automatically')] : [])
+      ],
+      customerName: data.customerName,
+      customerEmail: data.customerEmail,
+      customerPhone: data.customerPhone,
+      specialRequests: data.specialRequests,
+      occasion: data.occasion,
+      dietaryRestrictions: data.dietaryRestrictions,
+      accessibilityNeeds: data.accessibilityNeeds,
+      seatingPreference: data.seatingPreference,
+      preOrder,
+      seriesId: data.seriesId,
+      deposit: deposit
+        ? {
+            ...deposit,
+            status: 'due',
+            dueBy: new Date(Date.now() + paymentWindow * 60 * 1000).toISOString()
+          }
+        : undefined,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      restaurant: {
+        id: restaurant.id,
+        name: restaurant.name,
+        image: restaurant.image,
+        location: restaurant.location
+      }
+    };
+    
+    // Save to localStorage
+    this.saveDemoBooking(newBooking);
+    
+    console.log('Demo booking created:', newBooking);
+    
+    return newBooking;
+  }
+
+  /**
+   * Check a pre-order against the demo menu
+   * Names and prices are taken from the menu, not from the request
+   * @param restaurantId - Restaurant ID
+   * @param items - Requested items
+   * @returns Cleaned up pre-order
+   */
+  private checkDemoPreOrder(restaurantId: string, items: PreOrderItem[]): PreOrderItem[] {
+    const menu = restaurantService.getLocalMenu(restaurantId);
+    
+    return items.filter(item => item.quantity > 0).map(item => {
+      const menuItem = menu.find(m => m.id === item.menuItemId);
+      
+      if (!menuItem) {
+        throw new Error('A pre-ordered dish is not on this restaurant\'s menu');
+      }
+      
+      if (!menuItem.available) {
+        throw new Error(`${menuItem.name} is not available right now`);
+      }
+      
+      return {
+        menuItemId: menuItem.id,
+        name: menuItem.name,
+        price: menuItem.price,
+        quantity: Math.floor(item.quantity),
+        dietaryNotes: item.dietaryNotes?.trim() || undefined
+      };
+    });
+  }
+
+  /**
+   * Guest bookings are grouped under an ID derived from the email, so a
+   * guest's record and claimable bookings can be found again
+   * @param email - Guest's email
+   * @returns Guest user ID
+   */
+  private getGuestUserId(email: string): string {
+    return `guest-${email.trim().toLowerCase()}`;
+  }
+
+  /**
+   * Phone bookings and walk-ins are owned by the restaurant, so they don't
+   * show up as the host's own bookings or count towards their record
+   * @param restaurantId - Restaurant ID
+   * @returns User ID for the restaurant's own bookings
+   */
+  private getRestaurantUserId(restaurantId: string): string {
+    return `restaurant-${restaurantId}`;
+  }
+
+  /**
+   * Create a reference code that no stored booking uses yet
+   * @returns Code such as "RX-7K3Q"
+   */
+  private generateReferenceCode(): string {
+    const usedCodes = new Set(this.getStoredBookings().map(b => b.referenceCode));
+    let code: string;
+    
+    do {
+      let chars = '';
+      for (let i = 0; i < REFERENCE_CODE_LENGTH; i++) {
+        chars += REFERENCE_CODE_ALPHABET[Math.floor(Math.random() * REFERENCE_CODE_ALPHABET.length)];
+      }
+      code = `${REFERENCE_CODE_PREFIX}-${chars}`;
+    } while (usedCodes.has(code));
+    
+    return code;
+  }
+
+  /**
+   * Find a demo or local booking by reference code and customer email
+   * @param code - Normalized reference code
+   * @param email - customerEmail given when booking (case doesn't matter)
+   * @returns The matching booking
+   */
+  private findLocalGuestBooking(code: string, email: string): Booking {
+    const booking = this.getStoredBookings().find(b =>
+      b.referenceCode === code &&
+      b.customerEmail.trim().toLowerCase() === email.trim().toLowerCase()
+    );
+    
+    // Same message for a wrong code and a wrong email
+    if (!booking) {
+      throw new Error('No booking matches this reference code and email');
+    }
+    
+    return booking;
+  }
+
+  /**
+   * Cancel a stored booking under its restaurant's cancellation and deposit policies
+   * @param booking - Booking to cancel
+   * @param reason - Optional reason for the history
+   * @param changedBy - Who cancelled (defaults to the logged in user)
+   * @returns The updated booking
+   */
+  private async cancelLocalBooking(
+    booking: Booking,
+    reason?: string,
+    changedBy?: BookingStatusChange['changedBy']
+  ): Promise<Booking> {
+    const policy = this.getDemoCancellationPolicy(booking.restaurantId);
+    const terms = this.getCancellationTerms(booking, policy);
+    
+    if (!terms.canCancel) {
+      throw new Error(
+        `This booking can no longer be cancelled. Cancellations must be made at least ${policy.freeCancellationHours} hours in advance`
+      );
+    }
+    
+    // Late cancellations count against the customer's record
+    const changes: Partial<Booking> = { lateCancellation: terms.isLate };
+    
+    // Bookings that can't be cancelled are rejected by transitionLocalBooking
+    // before anything is refunded
+    if (booking.deposit && this.canTransition(booking.status, 'cancelled')) {
+      const depositPolicy = restaurantService.getLocalRestaurant(booking.restaurantId)?.depositPolicy;
+      changes.deposit = await this.settleDeposit(
+        booking,
+        this.getDepositRefund(booking.deposit, terms.isLate, depositPolicy)
+      );
+    }
+    
+    return this.transitionLocalBooking(booking.id, 'cancelled', reason, changes, changedBy);
+  }
+
+  /**
+   * Settle the deposit of a booking that is cancelled or missed
+   * Paid deposits are refunded through the provider that took them
+   * @param booking - Booking with a deposit
+   * @param refundAmount - Amount to pay back in BDT (0 keeps it all)
+   * @returns The updated deposit
+   */
+  private async settleDeposit(booking: Booking, refundAmount: number): Promise<BookingDeposit | undefined> {
+    const deposit = booking.deposit;
+    
+    if (deposit?.status === 'due') {
+      return { ...deposit, status: 'released' };
+    }
+    
+    if (deposit?.status !== 'paid' || !deposit.paymentId) {
+      return deposit;
+    }
+    
+    if (refundAmount <= 0) {
+      return { ...deposit, status: 'forfeited' };
+    }
+    
+    const refund = await paymentService.getProvider(deposit.providerId).refund(deposit.paymentId, refundAmount);
+    
+    return {
+      ...deposit,
+      status: 'refunded',
+      refundedAmount: refund.amount,
+      refundedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Release unpaid bookings whose payment window has closed and offer
+   * their tables to the waitlist
+   */
+  private refreshPaymentHolds(): void {
+    const expired = this.getStoredBookings().filter(b => this.isExpiredPaymentHold(b));
+    
+    for (const booking of expired) {
+      this.transitionLocalBooking(
+        booking.id,
+        'cancelled',
+        'Deposit not paid in time',
+        { deposit: booking.deposit && { ...booking.deposit, status: 'released' } },
+        { name: 'ReserveX', role: 'system' }
+      );
+    }
+  }
+
+  /**
+   * Demo bookings (and seats held for waitlist offers) whose slot overlaps
+   * the given one, i.e. everything that can take a table from it
+   * @param restaurantId - Restaurant ID
+   * @param date - Date (YYYY-MM-DD format)
+   * @param timeSlot - Time slot
+   * @param options - Customer asking (their own offers don't count) and booking to leave out
+   * @returns Array of bookings
+   */
+  private getDemoSlotBookings(
+    restaurantId: string,
+    date: string,
+    timeSlot: string,
+    options: DemoAvailabilityOptions = {}
+  ): Booking[] {
+    const heldOffers: Booking[] = waitlistService.getDemoHeldOffers(restaurantId, date)
+      .filter(e => e.userId !== options.forUserId)
+      .map(e => ({ ...e, status: 'pending', createdAt: e.offeredAt ?? e.createdAt }));
+    
+    return [...this.getStoredBookings(), ...heldOffers].filter(b =>
+      b.id !== options.excludeBookingId &&
+      !this.isExpiredPaymentHold(b) &&
+      b.restaurantId === restaurantId &&
+      b.date === date &&
+      timeSlotService.slotsOverlap(b.timeSlot, timeSlot)
+    );
+  }
+
+  /**
+   * Check whether an unpaid booking's payment window has closed
+   * @param booking - Booking to check
+   * @returns true if its tables should no longer be held
+   */
+  private isExpiredPaymentHold(booking: Booking): boolean {
+    return booking.status === 'pending-payment' &&
+      (!booking.deposit || new Date(booking.deposit.dueBy) <= new Date());
+  }
+
+  /**
+   * Check whether a slot starts in one of the restaurant's peak periods
+   * @param periods - Restaurant's peak periods
+   * @param date - Date (YYYY-MM-DD format)
+   * @param timeSlot - Slot label
+   * @returns true for peak slots
+   */
+  private isPeakSlot(periods: PeakPeriod[], date: string, timeSlot: string): boolean {
+    const start = timeSlotService.getSlotStart(date, timeSlot);
+    if (!start) {
+      return false;
+    }
+    
+    const day = DAYS_OF_WEEK[start.getDay()];
+    const minutes = start.getHours() * 60 + start.getMinutes();
+    
+    return periods.some(period => {
+      const from = timeSlotService.parseTime(period.from);
+      const to = timeSlotService.parseTime(period.to);
+      return period.days.includes(day) && from !== null && to !== null && minutes >= from && minutes < to;
+    });
+  }
+
+  /**
+   * Count a customer's demo + local bookings by outcome and score them
+   * @param userId - Customer's user ID
+   * @returns CustomerRecord
+   */
+  private calculateCustomerRecord(userId: string): CustomerRecord {
+    const customerBookings = this.getStoredBookings().filter(b => b.userId === userId);
+    
+    // Cancellations by the restaurant are not the customer's fault
+    const customerCancellations = customerBookings.filter(b => {
+      const change = b.statusHistory?.find(c => c.to === 'cancelled');
+      return b.status === 'cancelled' && (!change || change.changedBy.role === 'customer');
+    });
+    
+    const completed = customerBookings.filter(b => b.status === 'completed').length;
+    const lateCancellations = customerCancellations.filter(b => b.lateCancellation).length;
+    const cancellations = customerCancellations.length - lateCancellations;
+    const noShows = customerBookings.filter(b => b.status === 'no-show').length;
+    
+    const finished = completed + cancellations + lateCancellations + noShows;
+    const points =
+      completed * RELIABILITY_WEIGHTS.completed +
+      cancellations * RELIABILITY_WEIGHTS.cancelled +
+      lateCancellations * RELIABILITY_WEIGHTS.lateCancelled +
+      noShows * RELIABILITY_WEIGHTS.noShow;
+    
+    return {
+      userId,
+      totalBookings: customerBookings.length,
+      completed,
+      cancellations,
+      lateCancellations,
+      noShows,
+      reliabilityScore: finished > 0 ? Math.round((points / finished) * 100) : null
+    };
+  }
+
+  /**
+   * Get the cancellation policy of a demo restaurant
+   * @param restaurantId - Restaurant ID
+   * @returns The restaurant's policy, or the default one
+   */
+  private getDemoCancellationPolicy(restaurantId: string): CancellationPolicy {
+    return restaurantService.getLocalRestaurant(restaurantId)?.cancellationPolicy ?? DEFAULT_CANCELLATION_POLICY;
+  }
+
+  /**
+   * Move a stored booking to a new status and record the change
+   * @param id - Booking ID
+   * @param status - New status
+   * @param reason - Optional reason for the history
+   * @param changes - Other fields to update together with the status
+   * @param changedBy - Who made the change (defaults to the logged in user)
+   * @returns The updated booking
+   */
+  private transitionLocalBooking(
+    id: string,
+    status: BookingStatus,
+    reason?: string,
+    changes: Partial<Booking> = {},
+    changedBy?: BookingStatusChange['changedBy']
+  ): Booking {
+    const booking = this.getStoredBookings().find(b => b.id === id);
+    
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+    
+    if (!this.canTransition(booking.status, status)) {
+      throw new Error(
+        `Cannot change a ${BOOKING_STATUS_LABELS[booking.status].toLowerCase()} booking to ${BOOKING_STATUS_LABELS[status].toLowerCase()}`
+      );
+    }
+    
+    const updated: Booking = {
+      ...booking,
+      ...changes,
+      status,
+      statusHistory: [
+        ...(booking.statusHistory ?? []),
+        this.createStatusChange(booking.status, status, reason, changedBy)
+      ],
+      updatedAt: new Date().toISOString()
+    };
+    
+    this.saveLocalBooking(updated);
+    
+    // Freed seats go to the first customer waiting for this slot
+    if (status === 'cancelled') {
+      waitlistService.offerFreedSeats(updated.restaurantId, updated.date, updated.timeSlot);
+    }
+    
+    return updated;
+  }
+
+  /**
+   * Build a status history entry for an automatic change
+   * @param from - Previous status
+   * @param to - New status
+   * @param reason - Why it happened
+   * @returns BookingStatusChange
+   */
+  private createSystemStatusChange(
+    from: BookingStatus | null,
+    to: BookingStatus,
+    reason: string
+  ): BookingStatusChange {
+    return {
+      from,
+      to,
+      changedAt: new Date().toISOString(),
+      changedBy: { name: 'ReserveX', role: 'system' },
+      reason
+    };
+  }
+
+  /**
+   * Build a status history entry for the logged in user
+   * @param from - Previous status (null for a new booking)
+   * @param to - New status
+   * @param reason - Optional reason
+   * @param changedBy - Someone else who made the change (e.g., a guest)
+   * @returns BookingStatusChange
+   */
+  private createStatusChange(
+    from: BookingStatus | null,
+    to: BookingStatus,
+    reason?: string,
+    changedBy?: BookingStatusChange['changedBy']
+  ): BookingStatusChange {
+    const user = authService.getStoredUser();
+    
+    return {
+      from,
+      to,
+      changedAt: new Date().toISOString(),
+      changedBy: changedBy ?? (user
+        ? { userId: user.id, name: user.name, role: user.role }
+        : { name: 'ReserveX', role: 'system' }),
+      reason: reason?.trim() || undefined
+    };
+  }
+
   /**
    * Get all bookings from localStorage
    * @returns Array of bookings
@@ -510,16 +2527,6 @@ class BookingService {
   private saveAllLocalBookings(bookings: Booking[]): void {
     localStorage.setItem(DEMO_BOOKINGS_KEY, JSON.stringify(bookings));
   }
-
-  /**
-   * Get bookings for a specific user from localStorage
-   * @param userId - User ID
-   * @returns Array of user's bookings
-   */
-  private getLocalBookingsByUserId(userId: string): Booking[] {
-    const allBookings = this.getAllLocalBookings();
-    return allBookings.filter(b => b.userId === userId);
-  }
 }
 
 /**
@@ -0,0 +1,330 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CALENDAR SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service turns bookings into iCalendar (.ics, RFC 5545) files:
+ * - One event per booking ("Add to Calendar")
+ * - A CANCEL event for cancelled bookings, so calendars remove them
+ * - A feed of all upcoming bookings of the logged in user
+ *
+ * Times are written in Asia/Dhaka time (UTC+6, no daylight saving). The
+ * event UID stays the same for a booking, and SEQUENCE goes up with every
+ * change and status change, so calendar apps update the existing event
+ * instead of adding one.
+ *
+ * FALLBACK BEHAVIOR:
+ * The subscribable feed URL comes from the backend. When it is unavailable,
+ * getFeedUrl returns null and the feed can be downloaded as a file instead.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { api } from './api';
+import { Booking, BookingStatus } from './booking.service';
+import { timeSlotService } from './time-slot.service';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CALENDAR SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Product identifier, organizer address and feed name
+ */
+const PRODUCT_ID = '-//ReserveX//Bookings//EN';
+const ORGANIZER_EMAIL = 'bookings@reservex.com.bd';
+const FEED_NAME = 'ReserveX Bookings';
+const TIMEZONE_ID = 'Asia/Dhaka';
+
+// Event STATUS for each booking status (unpaid and unconfirmed bookings are tentative)
+const EVENT_STATUS: Record<BookingStatus, 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'> = {
+  'pending-payment': 'TENTATIVE',
+  'pending': 'TENTATIVE',
+  'confirmed': 'CONFIRMED',
+  'seated': 'CONFIRMED',
+  'completed': 'CONFIRMED',
+  'cancelled': 'CANCELLED',
+  'no-show': 'CANCELLED'
+};
+
+// Asia/Dhaka has been UTC+6 all year since 2009
+const TIMEZONE_COMPONENT = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIMEZONE_ID}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0600',
+  'TZOFFSETTO:+0600',
+  'TZNAME:+06',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CALENDAR SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class CalendarService {
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CREATE BOOKING CALENDAR
+   * ─────────────────────────────────────────────────────────────────────────
+   * Builds the .ics file for one booking. Cancelled bookings become a
+   * METHOD:CANCEL file that removes the event from the calendar
+   *
+   * @param booking - Booking to export
+   * @returns string - iCalendar file contents
+   */
+  createBookingCalendar(booking: Booking): string {
+    const method = booking.status === 'cancelled' ? 'CANCEL' : 'PUBLISH';
+    return this.buildCalendar(method, [booking]);
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CREATE FEED
+   * ─────────────────────────────────────────────────────────────────────────
+   * Builds a calendar with every upcoming booking. Cancelled upcoming
+   * bookings stay in the feed with STATUS:CANCELLED so subscribed
+   * calendars drop them
+   *
+   * @param bookings - The user's bookings
+   * @returns string - iCalendar file contents
+   */
+  createFeed(bookings: Booking[]): string {
+    const now = new Date();
+    const upcoming = bookings.filter(b => {
+      const start = timeSlotService.getSlotStart(b.date, b.timeSlot);
+      return (!start || start >= now) && ['pending', 'confirmed', 'cancelled'].includes(b.status);
+    });
+
+    return this.buildCalendar('PUBLISH', upcoming, [`X-WR-CALNAME:${FEED_NAME}`, `X-WR-TIMEZONE:${TIMEZONE_ID}`]);
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * DOWNLOAD BOOKING EVENT
+   * ─────────────────────────────────────────────────────────────────────────
+   * Saves a booking's .ics file (opens in the device's calendar app)
+   *
+   * @param booking - Booking to export
+   */
+  downloadBookingEvent(booking: Booking): void {
+    const name = booking.referenceCode ?? booking.id;
+    const suffix = booking.status === 'cancelled' ? '-cancelled' : '';
+    this.downloadFile(`reservex-${name}${suffix}.ics`, this.createBookingCalendar(booking));
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * DOWNLOAD FEED
+   * ─────────────────────────────────────────────────────────────────────────
+   * Saves all upcoming bookings as one .ics file
+   *
+   * @param bookings - The user's bookings
+   */
+  downloadFeed(bookings: Booking[]): void {
+    this.downloadFile('reservex-bookings.ics', this.createFeed(bookings));
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET FEED URL
+   * ─────────────────────────────────────────────────────────────────────────
+   * Gets the logged in user's personal feed address (webcal://...), which
+   * calendar apps can subscribe to and refresh on their own
+   *
+   * FALLBACK: Returns null (there is no server to subscribe to)
+   *
+   * @returns Promise<string | null> - Feed URL, or null in demo mode
+   */
+  async getFeedUrl(): Promise<string | null> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get the user's feed URL
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/calendar/feed-url');
+      return response.data.url;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: No subscribable feed in demo mode
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Calendar feed subscription not available.');
+
+      return null;
+    }
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * PRIVATE HELPER METHODS
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * Wrap booking events in a VCALENDAR
+   * @param method - PUBLISH or CANCEL
+   * @param bookings - Bookings to include
+   * @param extraProperties - Additional calendar properties
+   * @returns iCalendar text with CRLF line endings
+   */
+  private buildCalendar(method: 'PUBLISH' | 'CANCEL', bookings: Booking[], extraProperties: string[] = []): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${method}`,
+      ...extraProperties,
+      ...TIMEZONE_COMPONENT,
+      ...bookings.flatMap(b => this.buildEvent(b)),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Build the VEVENT lines of a booking
+   * @param booking - Booking to export
+   * @returns Event lines (unfolded)
+   */
+  private buildEvent(booking: Booking): string[] {
+    const slot = timeSlotService.parseTimeSlot(booking.timeSlot);
+    const restaurantName = booking.restaurant?.name ?? 'Restaurant';
+    const cancelled = booking.status === 'cancelled';
+
+    const description = [
+      booking.referenceCode && `Booking reference: ${booking.referenceCode}`,
+      `Party of ${booking.seats}`,
+      `Name: ${booking.customerName}`,
+      booking.specialRequests && `Special requests: ${booking.specialRequests}`
+    ].filter(Boolean).join('\n');
+
+    // Every change and every status change after creation is a new revision of the event
+    const statusChanges = booking.statusHistory
+      ? Math.max(booking.statusHistory.length - 1, 0)
+      : (cancelled ? 1 : 0);
+    const sequence = (booking.modificationCount ?? 0) + statusChanges;
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${booking.id}@reservex`,
+      `DTSTAMP:${this.formatUtc(new Date())}`,
+      ...(slot
+        ? [
+            `DTSTART;TZID=${TIMEZONE_ID}:${this.formatLocal(booking.date, slot.start)}`,
+            `DTEND;TZID=${TIMEZONE_ID}:${this.formatLocal(booking.date, slot.end)}`
+          ]
+        : [`DTSTART;VALUE=DATE:${booking.date.replace(/-/g, '')}`]),
+      `SUMMARY:${this.escapeText(`Table for ${booking.seats} at ${restaurantName}`)}`,
+      ...(booking.restaurant?.location ? [`LOCATION:${this.escapeText(booking.restaurant.location)}`] : []),
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `ORGANIZER;CN=${this.escapeParam(restaurantName)}:mailto:${ORGANIZER_EMAIL}`,
+      `STATUS:${EVENT_STATUS[booking.status]}`,
+      `SEQUENCE:${sequence}`,
+      `LAST-MODIFIED:${this.formatUtc(new Date(booking.updatedAt))}`,
+      'END:VEVENT'
+    ];
+  }
+
+  /**
+   * Format a booking date plus minutes since midnight as local date-time
+   * Minutes past midnight roll over to the next day
+   * @param date - Date (YYYY-MM-DD format)
+   * @param minutes - Minutes since midnight (may be 1440 or more)
+   * @returns e.g. "20261220T190000"
+   */
+  private formatLocal(date: string, minutes: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    // Date.UTC only does the calendar arithmetic here; no timezone is involved
+    const value = new Date(Date.UTC(year, month - 1, day, 0, minutes));
+    return value.toISOString().slice(0, 19).replace(/[-:]/g, '');
+  }
+
+  /**
+   * Format a moment in UTC
+   * @param date - Moment to format
+   * @returns e.g. "20261220T130000Z"
+   */
+  private formatUtc(date: Date): string {
+    return date.toISOString().slice(0, 19).replace(/[-:]/g, '') + 'Z';
+  }
+
+  /**
+   * Escape a TEXT value (RFC 5545 section 3.3.11)
+   * @param text - Raw text
+   * @returns Escaped text
+   */
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Quote a parameter value that contains special characters
+   * @param value - Raw parameter value
+   * @returns Parameter value safe to use before ":"
+   */
+  private escapeParam(value: string): string {
+    const cleaned = value.replace(/"/g, "'");
+    return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+  }
+
+  /**
+   * Fold a content line longer than 75 octets (RFC 5545 section 3.1)
+   * @param line - Unfolded line
+   * @returns Line with CRLF + space continuations
+   */
+  private foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const bytes = encoder.encode(char).length;
+      // Continuation lines start with a space, which counts towards the limit
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + bytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  /**
+   * Let the browser save a text file
+   * @param fileName - Suggested file name
+   * @param content - File contents
+   */
+  private downloadFile(fileName: string, content: string): void {
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT CALENDAR SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const calendarService = new CalendarService();
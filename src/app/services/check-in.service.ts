@@ -0,0 +1,195 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHECK-IN SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service handles checking in arriving guests:
+ * - Creating the signed check-in code a customer shows as a QR code
+ * - Checking a scanned or typed code at the restaurant and seating the
+ *   booking (through bookingService.updateBookingStatus)
+ *
+ * A check-in code looks like "RXCHECKIN:<booking id>:<signature>". The
+ * signature stops anyone from making up codes for other bookings. Staff may
+ * also type the booking's reference code (e.g., "RX-7K3Q") instead.
+ *
+ * Codes are only accepted by the booking's own restaurant, on the day of
+ * the booking, for confirmed bookings.
+ *
+ * FALLBACK BEHAVIOR:
+ * When the backend is unavailable, codes are signed and checked locally with
+ * a demo secret. Real codes must be signed by the backend.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { api } from './api';
+import { bookingService, Booking, BOOKING_STATUS_LABELS } from './booking.service';
+import { timeSlotService } from './time-slot.service';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHECK-IN CODE SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Code prefix and signature length (hex characters)
+ */
+const CHECK_IN_CODE_PREFIX = 'RXCHECKIN';
+const SIGNATURE_LENGTH = 16;
+const DEMO_CHECK_IN_SECRET = 'reservex-demo-check-in'; // Demo mode only
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHECK-IN SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class CheckInService {
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET CHECK-IN CODE
+   * ─────────────────────────────────────────────────────────────────────────
+   * Gets the code to show as a QR code for a confirmed booking
+   *
+   * FALLBACK: Signs the booking ID with the demo secret
+   *
+   * @param bookingId - Booking ID
+   * @returns Promise<string> - Check-in code
+   */
+  async getCheckInCode(bookingId: string): Promise<string> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get the signed check-in code
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get(`/bookings/${bookingId}/check-in-code`);
+      return response.data.code;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Sign the code locally
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Creating demo check-in code.');
+
+      const booking = await bookingService.getBookingById(bookingId);
+      if (booking.status !== 'confirmed') {
+        throw new Error('Check-in codes are only available for confirmed bookings');
+      }
+
+      return `${CHECK_IN_CODE_PREFIX}:${booking.id}:${await this.sign(booking.id)}`;
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CHECK IN
+   * ─────────────────────────────────────────────────────────────────────────
+   * Seats the party of a scanned or typed code (manager view)
+   *
+   * FALLBACK: Verifies the code locally and updates the booking status
+   *
+   * @param code - Check-in code from the QR code, or a reference code
+   * @param restaurantId - Restaurant doing the check-in
+   * @returns Promise<Booking> - The seated booking
+   */
+  async checkIn(code: string, restaurantId: string): Promise<Booking> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Check the code and seat the party
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/bookings/check-in', { code: code.trim(), restaurantId });
+      return response.data;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Verify locally
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Checking in locally.');
+
+      const booking = await this.findBookingForCode(code.trim());
+      this.assertCanCheckIn(booking, restaurantId);
+
+      return bookingService.updateBookingStatus(booking.id, 'seated', 'Checked in');
+    }
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * PRIVATE HELPER METHODS
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * Find the booking a check-in code or reference code points to
+   * @param code - Trimmed code
+   * @returns The booking
+   */
+  private async findBookingForCode(code: string): Promise<Booking> {
+    if (!code.toUpperCase().startsWith(`${CHECK_IN_CODE_PREFIX}:`)) {
+      return bookingService.getBookingByReference(code);
+    }
+
+    const [, bookingId, signature] = code.split(':');
+    if (!bookingId || !signature || signature !== await this.sign(bookingId)) {
+      throw new Error('This check-in code is not valid');
+    }
+
+    return bookingService.getBookingById(bookingId);
+  }
+
+  /**
+   * Reject bookings of another restaurant, another day, or in the wrong status
+   * @param booking - Booking to check in
+   * @param restaurantId - Restaurant doing the check-in
+   */
+  private assertCanCheckIn(booking: Booking, restaurantId: string): void {
+    if (booking.restaurantId !== restaurantId) {
+      throw new Error('This booking is for a different restaurant');
+    }
+
+    const today = timeSlotService.toDateString(new Date());
+    if (booking.date !== today) {
+      throw new Error(`This booking is for ${timeSlotService.parseDate(booking.date).toLocaleDateString()}, not today`);
+    }
+
+    if (booking.status === 'seated') {
+      throw new Error(`${booking.customerName} has already checked in`);
+    }
+
+    if (booking.status !== 'confirmed') {
+      throw new Error(`This booking is ${BOOKING_STATUS_LABELS[booking.status].toLowerCase()}, not confirmed`);
+    }
+  }
+
+  /**
+   * Sign a booking ID with the demo secret (HMAC-SHA256, shortened)
+   * @param bookingId - Booking ID
+   * @returns Hex signature
+   */
+  private async sign(bookingId: string): Promise<string> {
+    // Browsers only offer crypto.subtle on HTTPS pages and localhost
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+      throw new Error('Check-in codes need a secure connection. Open the app over HTTPS or on localhost');
+    }
+
+    const encoder = new TextEncoder();
+    const key = await subtle.importKey(
+      'raw',
+      encoder.encode(DEMO_CHECK_IN_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await subtle.sign('HMAC', key, encoder.encode(bookingId));
+
+    return Array.from(new Uint8Array(signature))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('')
+      .slice(0, SIGNATURE_LENGTH);
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT CHECK-IN SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const checkInService = new CheckInService();
@@ -13,7 +13,7 @@
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
-import { Restaurant, MenuItem } from './restaurant.service';
+import { Restaurant, MenuItem, Table, ServicePeriod, ScheduleException } from './restaurant.service';
 import { Booking } from './booking.service';
 import { Review } from './review.service';
 import { Favourite } from './favourite.service';
@@ -67,6 +67,27 @@ export const DEMO_USERS: User[] = [
   }
 ];
 
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEMO OPENING HOURS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Weekly schedules and date exceptions shared by several demo restaurants
+ * Restaurants without a weeklySchedule are open openingTime-closingTime daily
+ */
+
+// Eid holidays: the restaurants below shut for the first day(s) of Eid
+const EID_CLOSURES: ScheduleException[] = [
+  { date: '2027-03-10', reason: 'Eid ul-Fitr', closed: true },
+  { date: '2027-03-11', reason: 'Eid ul-Fitr', closed: true },
+  { date: '2027-05-17', reason: 'Eid ul-Adha', closed: true }
+];
+
+// Separate lunch and dinner services with a break in the afternoon
+const SPLIT_SERVICE: ServicePeriod[] = [
+  { name: 'Lunch', openingTime: '1:00 PM', closingTime: '4:00 PM' },
+  { name: 'Dinner', openingTime: '6:00 PM', closingTime: '11:00 PM' }
+];
+
 /**
  * ═══════════════════════════════════════════════════════════════════════════
  * DEMO RESTAURANTS (10 Real Restaurants in Rajshahi, Bangladesh)
@@ -89,6 +110,16 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 124, // Number of reviews received
     openingTime: '11:00 AM', // Daily opening time
     closingTime: '11:00 PM', // Daily closing time
+    weeklySchedule: { // Closed for Friday prayers until 2 PM
+      friday: [{ name: 'Dinner', openingTime: '2:00 PM', closingTime: '11:00 PM' }]
+    },
+    scheduleExceptions: [
+      ...EID_CLOSURES,
+      { date: '2026-12-31', reason: "Private New Year's Eve event", closed: true } // Blackout date
+    ],
+    reapprovalPolicy: 'any-change', // Every change to a confirmed booking is checked again
+    cancellationPolicy: { freeCancellationHours: 48, allowLateCancellation: false, maxModifications: 1 }, // Strict fine-dining policy
+    preOrderCutoffHours: 48, // Kitchen needs two days to prepare pre-orders
     totalSeats: 50, // Maximum seating capacity
     priceRange: '৳৳৳', // Price indicator (৳ = budget, ৳৳ = moderate, ৳৳৳ = expensive)
     phone: '+880 1711-123456', // Contact phone number
@@ -110,6 +141,13 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 89,
     openingTime: '12:00 PM',
     closingTime: '10:30 PM',
+    confirmationPolicy: { autoConfirm: true, requireConfirmationBelowScore: 70 }, // Unreliable customers wait for a manager
+    depositPolicy: { // Large groups and weekend dinners pay ahead
+      amountPerGuest: 300,
+      minPartySize: 6,
+      peakPeriods: [{ days: ['friday', 'saturday'], from: '7:00 PM', to: '10:00 PM' }],
+      lateCancellationRefundPercent: 50
+    },
     totalSeats: 40,
     priceRange: '৳৳',
     phone: '+880 1711-123457',
@@ -131,6 +169,16 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 156,
     openingTime: '1:00 PM',
     closingTime: '11:00 PM',
+    weeklySchedule: { // Split lunch/dinner service, closed on Mondays
+      sunday: SPLIT_SERVICE,
+      monday: [],
+      tuesday: SPLIT_SERVICE,
+      wednesday: SPLIT_SERVICE,
+      thursday: SPLIT_SERVICE,
+      friday: SPLIT_SERVICE,
+      saturday: SPLIT_SERVICE
+    },
+    cancellationPolicy: { freeCancellationHours: 12, allowLateCancellation: true, maxModifications: 3 },
     totalSeats: 45,
     priceRange: '৳৳৳',
     phone: '+880 1711-123458',
@@ -171,6 +219,8 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 178,
     openingTime: '11:00 AM',
     closingTime: '11:30 PM',
+    reapprovalPolicy: 'never', // Changes keep the booking confirmed
+    confirmationPolicy: { autoConfirm: true }, // Every booking is confirmed straight away
     totalSeats: 55,
     priceRange: '৳৳',
     phone: '+880 1711-123460',
@@ -191,6 +241,10 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 143,
     openingTime: '12:00 PM',
     closingTime: '11:00 PM',
+    weeklySchedule: {
+      friday: [{ openingTime: '2:00 PM', closingTime: '11:00 PM' }]
+    },
+    scheduleExceptions: EID_CLOSURES,
     totalSeats: 48,
     priceRange: '৳৳',
     phone: '+880 1711-123461',
@@ -251,6 +305,7 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 134,
     openingTime: '5:00 PM',
     closingTime: '12:00 AM',
+    scheduleExceptions: EID_CLOSURES,
     totalSeats: 38,
     priceRange: '৳৳৳',
     phone: '+880 1711-123464',
@@ -271,6 +326,10 @@ export const DEMO_RESTAURANTS: Restaurant[] = [
     totalReviews: 98,
     openingTime: '8:00 AM',
     closingTime: '10:00 PM',
+    scheduleExceptions: [
+      { date: '2026-12-16', reason: 'Victory Day (evening only)', closed: false,
+        periods: [{ openingTime: '4:00 PM', closingTime: '10:00 PM' }] }
+    ],
     totalSeats: 35,
     priceRange: '৳৳',
     phone: '+880 1711-123465',
@@ -649,26 +708,76 @@ export const DEMO_MENU_ITEMS: MenuItem[] = [
   }
 ];
 
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEMO TABLES
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Table layout for each demo restaurant, grouped by dining zone
+ * Capacities in each layout add up to the restaurant's totalSeats
+ * - Tables for 4 or fewer can be pushed together within their zone
+ * - Tables for 6 or more are held for parties of at least half their size
+ */
+const DEMO_TABLE_LAYOUTS: Record<string, Record<string, number[]>> = {
+  'rest-1': { 'Main Hall': [2, 2, 2, 4, 4, 4, 4, 6], 'Window': [2, 2, 4, 4], 'Private Room': [10] },
+  'rest-2': { 'Main Hall': [2, 2, 4, 4, 4, 6], 'Rooftop': [2, 2, 4, 4, 6] },
+  'rest-3': { 'Main Hall': [2, 2, 2, 3, 4, 4, 4, 6], 'Terrace': [2, 2, 4, 4, 6] },
+  'rest-4': { 'Ground Floor': [2, 2, 2, 2, 4, 4, 4, 4, 6], 'First Floor': [2, 2, 2, 4, 4, 4, 6, 6] },
+  'rest-5': { 'Main Hall': [2, 2, 2, 4, 4, 4, 4, 6, 6], 'Patio': [2, 2, 3, 4, 4, 6] },
+  'rest-6': { 'Main Hall': [2, 2, 4, 4, 4, 6, 6], 'Family Section': [4, 4, 4, 8] },
+  'rest-7': { 'Main Hall': [2, 2, 2, 4, 4, 4, 6], 'Banquet': [8, 10] },
+  'rest-8': { 'Ground Floor': [2, 2, 2, 2, 4, 4, 4, 6], 'Upstairs': [2, 2, 4, 4, 6, 6] },
+  'rest-9': { 'Indoor': [2, 2, 4, 4, 6], 'Outdoor': [2, 4, 4, 10] },
+  'rest-10': { 'Café Floor': [2, 2, 2, 2, 3, 4, 4], 'Reading Nook': [2, 2, 2, 4, 6] }
+};
+
+export const DEMO_TABLES: Table[] = Object.entries(DEMO_TABLE_LAYOUTS).flatMap(
+  ([restaurantId, zones]) => {
+    let tableNumber = 0; // Tables are numbered T1, T2, ... across all zones
+
+    return Object.entries(zones).flatMap(([zone, capacities]) =>
+      capacities.map(capacity => {
+        tableNumber += 1;
+        return {
+          id: `table-${restaurantId.replace('rest-', '')}-${tableNumber}`,
+          restaurantId,
+          label: `T${tableNumber}`,
+          capacity,
+          minPartySize: capacity >= 6 ? Math.ceil(capacity / 2) : 1,
+          combinable: capacity <= 4,
+          zone
+        };
+      })
+    );
+  }
+);
+
 /**
  * ═══════════════════════════════════════════════════════════════════════════
  * DEMO BOOKINGS
  * ═══════════════════════════════════════════════════════════════════════════
  * Sample bookings for different statuses and dates
- * Statuses: pending (awaiting confirmation), confirmed (approved), completed (past date), cancelled
+ * Statuses: pending (awaiting confirmation), confirmed (approved), completed (past date), cancelled, no-show
  */
 export const DEMO_BOOKINGS: Booking[] = [
   {
     id: 'booking-1',
+    referenceCode: 'RX-7K3Q', // Short code for phone and guest lookup
     restaurantId: 'rest-1', // Aurora restaurant
     userId: 'user-customer-1', // Customer who made the booking
     date: '2024-02-25', // Reservation date (YYYY-MM-DD format)
     timeSlot: '7:00 PM', // Reserved time slot
     seats: 4, // Number of seats booked
     status: 'confirmed', // Booking status
+    statusHistory: [ // Status changes, oldest first
+      { from: null, to: 'pending', changedAt: new Date('2024-02-10').toISOString(), changedBy: { userId: 'user-customer-1', name: 'Rakib Hassan', role: 'customer' }, reason: 'Booking requested' },
+      { from: 'pending', to: 'confirmed', changedAt: new Date('2024-02-10').toISOString(), changedBy: { userId: 'user-manager-1', name: 'Karim Rahman', role: 'manager' } }
+    ],
     customerName: 'Rakib Hassan', // Customer name for the reservation
     customerEmail: 'customer@demo.com', // Contact email
     customerPhone: '+880 1711-999001', // Contact phone
     specialRequests: 'Window seat please', // Special requests/notes
+    seatingPreference: 'window', // Where the party would like to sit
+    dietaryRestrictions: ['halal'], // Dietary needs of the party
     createdAt: new Date('2024-02-10').toISOString(), // When booking was made
     updatedAt: new Date('2024-02-10').toISOString(), // Last update time
     restaurant: { // Populated restaurant data for display
@@ -680,16 +789,21 @@ export const DEMO_BOOKINGS: Booking[] = [
   },
   {
     id: 'booking-2',
+    referenceCode: 'RX-M4PA',
     restaurantId: 'rest-3', // Calisto restaurant
     userId: 'user-customer-1',
     date: '2024-02-22',
     timeSlot: '8:00 PM',
     seats: 2,
     status: 'pending', // Awaiting restaurant confirmation
+    statusHistory: [ // Status changes, oldest first
+      { from: null, to: 'pending', changedAt: new Date('2024-02-15').toISOString(), changedBy: { userId: 'user-customer-1', name: 'Rakib Hassan', role: 'customer' }, reason: 'Booking requested' }
+    ],
     customerName: 'Rakib Hassan',
     customerEmail: 'customer@demo.com',
     customerPhone: '+880 1711-999001',
     specialRequests: 'Anniversary dinner',
+    occasion: 'anniversary',
     createdAt: new Date('2024-02-15').toISOString(),
     updatedAt: new Date('2024-02-15').toISOString(),
     restaurant: {
@@ -701,12 +815,19 @@ export const DEMO_BOOKINGS: Booking[] = [
   },
   {
     id: 'booking-3',
+    referenceCode: 'RX-H8TW',
     restaurantId: 'rest-5', // Pizza Burg
     userId: 'user-customer-1',
     date: '2024-02-18', // Past date
     timeSlot: '6:30 PM',
     seats: 6,
     status: 'completed', // Reservation was fulfilled
+    statusHistory: [ // Status changes, oldest first
+      { from: null, to: 'pending', changedAt: new Date('2024-02-05').toISOString(), changedBy: { userId: 'user-customer-1', name: 'Rakib Hassan', role: 'customer' }, reason: 'Booking requested' },
+      { from: 'pending', to: 'confirmed', changedAt: new Date('2024-02-06').toISOString(), changedBy: { name: 'Restaurant staff', role: 'system' } },
+      { from: 'confirmed', to: 'seated', changedAt: new Date('2024-02-18').toISOString(), changedBy: { name: 'Restaurant staff', role: 'system' } },
+      { from: 'seated', to: 'completed', changedAt: new Date('2024-02-18').toISOString(), changedBy: { name: 'Restaurant staff', role: 'system' } }
+    ],
     customerName: 'Rakib Hassan',
     customerEmail: 'customer@demo.com',
     customerPhone: '+880 1711-999001',
@@ -721,16 +842,24 @@ export const DEMO_BOOKINGS: Booking[] = [
   },
   {
     id: 'booking-4',
+    referenceCode: 'RX-2FNC',
     restaurantId: 'rest-9', // Backyard Kitchen
     userId: 'user-customer-2',
     date: '2024-02-23',
     timeSlot: '7:30 PM',
     seats: 5,
     status: 'confirmed',
+    statusHistory: [ // Status changes, oldest first
+      { from: null, to: 'pending', changedAt: new Date('2024-02-12').toISOString(), changedBy: { userId: 'user-customer-2', name: 'Fatima Ahmed', role: 'customer' }, reason: 'Booking requested' },
+      { from: 'pending', to: 'confirmed', changedAt: new Date('2024-02-13').toISOString(), changedBy: { name: 'Restaurant staff', role: 'system' } }
+    ],
     customerName: 'Fatima Ahmed',
     customerEmail: 'customer2@demo.com',
     customerPhone: '+880 1711-999002',
     specialRequests: 'Outdoor seating if available',
+    seatingPreference: 'outdoor',
+    dietaryRestrictions: ['vegetarian', 'nut-allergy'],
+    accessibilityNeeds: ['high-chair'],
     createdAt: new Date('2024-02-12').toISOString(),
     updatedAt: new Date('2024-02-13').toISOString(),
     restaurant: {
@@ -742,12 +871,17 @@ export const DEMO_BOOKINGS: Booking[] = [
   },
   {
     id: 'booking-5',
+    referenceCode: 'RX-Q9DJ',
     restaurantId: 'rest-2', // Helium
     userId: 'user-customer-1',
     date: '2024-02-15', // Past date
     timeSlot: '8:00 PM',
     seats: 3,
     status: 'cancelled', // Customer cancelled
+    statusHistory: [ // Status changes, oldest first
+      { from: null, to: 'pending', changedAt: new Date('2024-02-01').toISOString(), changedBy: { userId: 'user-customer-1', name: 'Rakib Hassan', role: 'customer' }, reason: 'Booking requested' },
+      { from: 'pending', to: 'cancelled', changedAt: new Date('2024-02-08').toISOString(), changedBy: { userId: 'user-customer-1', name: 'Rakib Hassan', role: 'customer' }, reason: 'Change of plans' }
+    ],
     customerName: 'Rakib Hassan',
     customerEmail: 'customer@demo.com',
     customerPhone: '+880 1711-999001',
@@ -759,6 +893,59 @@ export const DEMO_BOOKINGS: Booking[] = [
       image: 'https://images.unsplash.com/photo-1552566626-52f8b828add9?w=800&q=80',
       location: 'Alokar Mor, Rajshahi'
     }
+  },
+  {
+    id: 'booking-6',
+    referenceCode: 'RX-5BXR',
+    restaurantId: 'rest-2', // Helium
+    userId: 'user-customer-2',
+    date: '2024-01-20', // Past date
+    timeSlot: '8:00 PM',
+    seats: 4,
+    status: 'no-show', // Guests never arrived
+    statusHistory: [
+      { from: null, to: 'pending', changedAt: new Date('2024-01-15').toISOString(), changedBy: { userId: 'user-customer-2', name: 'Fatima Ahmed', role: 'customer' }, reason: 'Booking requested' },
+      { from: 'pending', to: 'confirmed', changedAt: new Date('2024-01-15').toISOString(), changedBy: { userId: 'user-manager-1', name: 'Karim Rahman', role: 'manager' } },
+      { from: 'confirmed', to: 'no-show', changedAt: new Date('2024-01-20').toISOString(), changedBy: { userId: 'user-manager-1', name: 'Karim Rahman', role: 'manager' }, reason: 'Table held for 30 minutes, no answer on the phone' }
+    ],
+    customerName: 'Fatima Ahmed',
+    customerEmail: 'customer2@demo.com',
+    customerPhone: '+880 1711-999002',
+    createdAt: new Date('2024-01-15').toISOString(),
+    updatedAt: new Date('2024-01-20').toISOString(),
+    restaurant: {
+      id: 'rest-2',
+      name: 'Helium',
+      image: 'https://images.unsplash.com/photo-1552566626-52f8b828add9?w=800&q=80',
+      location: 'Alokar Mor, Rajshahi'
+    }
+  },
+  {
+    id: 'booking-7',
+    referenceCode: 'RX-W6GE',
+    restaurantId: 'rest-1', // Aurora
+    userId: 'user-customer-2',
+    date: '2024-01-05', // Past date
+    timeSlot: '1:00 PM',
+    seats: 2,
+    status: 'completed',
+    statusHistory: [
+      { from: null, to: 'pending', changedAt: new Date('2024-01-02').toISOString(), changedBy: { userId: 'user-customer-2', name: 'Fatima Ahmed', role: 'customer' }, reason: 'Booking requested' },
+      { from: 'pending', to: 'confirmed', changedAt: new Date('2024-01-02').toISOString(), changedBy: { userId: 'user-manager-1', name: 'Karim Rahman', role: 'manager' } },
+      { from: 'confirmed', to: 'seated', changedAt: new Date('2024-01-05').toISOString(), changedBy: { userId: 'user-manager-1', name: 'Karim Rahman', role: 'manager' } },
+      { from: 'seated', to: 'completed', changedAt: new Date('2024-01-05').toISOString(), changedBy: { userId: 'user-manager-1', name: 'Karim Rahman', role: 'manager' } }
+    ],
+    customerName: 'Fatima Ahmed',
+    customerEmail: 'customer2@demo.com',
+    customerPhone: '+880 1711-999002',
+    createdAt: new Date('2024-01-02').toISOString(),
+    updatedAt: new Date('2024-01-05').toISOString(),
+    restaurant: {
+      id: 'rest-1',
+      name: 'Aurora',
+      image: 'https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=800&q=80',
+      location: 'Shaheb Bazar, Rajshahi'
+    }
   }
 ];
 
@@ -933,6 +1120,15 @@ export function getDemoMenuByRestaurantId(restaurantId: string): MenuItem[] {
   return DEMO_MENU_ITEMS.filter(item => item.restaurantId === restaurantId);
 }
 
+/**
+ * Get tables for a specific restaurant
+ * @param restaurantId - The ID of the restaurant
+ * @returns Array of tables in that restaurant
+ */
+export function getDemoTablesByRestaurantId(restaurantId: string): Table[] {
+  return DEMO_TABLES.filter(table => table.restaurantId === restaurantId);
+}
+
 /**
  * Get bookings for a specific user
  * @param userId - The ID of the user
@@ -18,8 +18,9 @@
  */
 
 import { api, handleApiError } from './api';
-import { DEMO_FAVOURITES, DEMO_RESTAURANTS, getDemoFavouritesByUserId, isDemoFavourite } from './demo-data';
+import { DEMO_FAVOURITES, getDemoFavouritesByUserId, isDemoFavourite } from './demo-data';
 import { authService } from './auth.service';
+import { restaurantService } from './restaurant.service';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -103,7 +104,7 @@ class FavouriteService {
       }
       
       // Find restaurant details
-      const restaurant = DEMO_RESTAURANTS.find(r => r.id === restaurantId);
+      const restaurant = restaurantService.getLocalRestaurant(restaurantId);
       if (!restaurant) {
         throw new Error('Restaurant not found');
       }
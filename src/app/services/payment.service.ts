@@ -0,0 +1,266 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PAYMENT SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service takes booking deposits through a payment provider:
+ * - Charging a deposit (card, wallet or a redirect to the gateway's page)
+ * - Refunding all or part of a deposit
+ * - Registering providers, so gateways such as bKash or SSLCommerz can be
+ *   added next to the demo provider without changing the booking flow
+ *
+ * Every provider implements the PaymentProvider interface. Providers that
+ * send the customer to their own page answer a charge with status
+ * 'redirect' and a redirectUrl; the gateway reports the result to the
+ * backend, which marks the deposit as paid.
+ *
+ * Which deposits are needed and how much is refunded on cancel is decided
+ * by the booking service (see bookingService.getDepositRequirement).
+ *
+ * DEMO PROVIDER:
+ * DemoPaymentProvider accepts any card number and keeps its payments in
+ * localStorage. Cards ending in DECLINED_CARD_SUFFIX are declined, to try
+ * out failed payments. No money moves.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TYPE DEFINITIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/**
+ * Payment Request Interface
+ * What a provider needs to charge a deposit
+ */
+export interface PaymentRequest {
+  bookingId: string;             // Booking the deposit is for
+  amount: number;                // Amount in BDT
+  description: string;           // Shown on the customer's statement/receipt
+  customerName: string;          // Payer's name
+  customerEmail: string;         // Payer's email (for the receipt)
+  customerPhone: string;         // Payer's phone (wallets use it as the account)
+  method?: PaymentMethodDetails; // Details entered on our page (providers with their own page ignore it)
+}
+
+/**
+ * Payment Method Details Interface
+ * Details a customer enters for providers that charge on our page
+ */
+export interface PaymentMethodDetails {
+  cardNumber?: string;           // Card number (demo provider)
+  cardHolder?: string;           // Name on the card
+  expiry?: string;               // MM/YY
+}
+
+/**
+ * Payment Result Interface
+ * Outcome of a charge
+ */
+export interface PaymentResult {
+  status: 'succeeded' | 'failed' | 'redirect';
+  paymentId: string;             // Provider's payment ID (kept on the booking)
+  redirectUrl?: string;          // Gateway page to send the customer to ('redirect' only)
+  failureReason?: string;        // Why the payment failed ('failed' only)
+}
+
+/**
+ * Refund Result Interface
+ * Outcome of a refund
+ */
+export interface RefundResult {
+  refundId: string;              // Provider's refund ID
+  amount: number;                // Amount paid back in BDT
+}
+
+/**
+ * Payment Provider Interface
+ * Implemented by every payment gateway (demo, bKash, SSLCommerz, ...)
+ */
+export interface PaymentProvider {
+  id: string;                    // Unique provider ID (e.g., "bkash")
+  name: string;                  // Shown to customers (e.g., "bKash")
+  collectsCardDetails: boolean;  // true = card details are entered on our page
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+  refund(paymentId: string, amount: number): Promise<RefundResult>;
+}
+
+/**
+ * Demo Payment Interface
+ * A payment kept by the demo provider
+ */
+interface DemoPayment {
+  id: string;                    // Payment ID
+  bookingId: string;             // Booking the deposit is for
+  amount: number;                // Charged amount in BDT
+  refundedAmount: number;        // Paid back so far in BDT
+  createdAt: string;             // When it was charged (ISO format)
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PAYMENT SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Provider used for new deposits (switch to a real gateway once
+ * it is registered) and the demo card that is always declined
+ */
+export const DEFAULT_PAYMENT_PROVIDER_ID = 'demo';
+export const DECLINED_CARD_SUFFIX = '0002';
+const DEMO_PAYMENT_DELAY_MS = 800; // Makes the demo feel like a real payment
+const DEMO_PAYMENTS_KEY = 'reservex_demo_payments';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEMO PAYMENT PROVIDER
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class DemoPaymentProvider implements PaymentProvider {
+  id = 'demo';
+  name = 'Demo Card';
+  collectsCardDetails = true;
+
+  /**
+   * Charge a demo card
+   * @param request - Payment request
+   * @returns Succeeded, or failed for declined and unreadable cards
+   */
+  async charge(request: PaymentRequest): Promise<PaymentResult> {
+    await new Promise(resolve => setTimeout(resolve, DEMO_PAYMENT_DELAY_MS));
+
+    const paymentId = `pay-demo-${Date.now()}`;
+    const cardNumber = request.method?.cardNumber?.replace(/[\s-]/g, '') ?? '';
+
+    if (!/^\d{12,19}$/.test(cardNumber)) {
+      return { status: 'failed', paymentId, failureReason: 'Please enter a valid card number' };
+    }
+
+    if (cardNumber.endsWith(DECLINED_CARD_SUFFIX)) {
+      return { status: 'failed', paymentId, failureReason: 'Your card was declined' };
+    }
+
+    this.savePayments([
+      ...this.getPayments(),
+      {
+        id: paymentId,
+        bookingId: request.bookingId,
+        amount: request.amount,
+        refundedAmount: 0,
+        createdAt: new Date().toISOString()
+      }
+    ]);
+
+    return { status: 'succeeded', paymentId };
+  }
+
+  /**
+   * Refund part or all of a demo payment
+   * @param paymentId - Payment to refund
+   * @param amount - Amount in BDT
+   * @returns The refund
+   */
+  async refund(paymentId: string, amount: number): Promise<RefundResult> {
+    const payments = this.getPayments();
+    const payment = payments.find(p => p.id === paymentId);
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (amount > payment.amount - payment.refundedAmount) {
+      throw new Error('Refund is larger than the amount left on the payment');
+    }
+
+    payment.refundedAmount += amount;
+    this.savePayments(payments);
+
+    return { refundId: `refund-demo-${Date.now()}`, amount };
+  }
+
+  /**
+   * Get the demo payments from localStorage
+   * @returns Array of payments
+   */
+  private getPayments(): DemoPayment[] {
+    try {
+      const paymentsStr = localStorage.getItem(DEMO_PAYMENTS_KEY);
+      return paymentsStr ? JSON.parse(paymentsStr) : [];
+    } catch (error) {
+      console.error('Failed to parse demo payments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the demo payments to localStorage
+   * @param payments - Array of payments
+   */
+  private savePayments(payments: DemoPayment[]): void {
+    localStorage.setItem(DEMO_PAYMENTS_KEY, JSON.stringify(payments));
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PAYMENT SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class PaymentService {
+  private providers = new Map<string, PaymentProvider>();
+
+  constructor() {
+    this.registerProvider(new DemoPaymentProvider());
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * REGISTER PROVIDER
+   * ─────────────────────────────────────────────────────────────────────────
+   * Adds a payment gateway (a provider with the same ID is replaced)
+   *
+   * @param provider - Provider to add
+   */
+  registerProvider(provider: PaymentProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET PROVIDER
+   * ─────────────────────────────────────────────────────────────────────────
+   * Looks up a registered provider
+   *
+   * @param id - Provider ID (defaults to DEFAULT_PAYMENT_PROVIDER_ID)
+   * @returns PaymentProvider - The provider
+   */
+  getProvider(id: string = DEFAULT_PAYMENT_PROVIDER_ID): PaymentProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Payment provider "${id}" is not available`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET PROVIDERS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Lists the registered providers (for a payment method picker)
+   *
+   * @returns PaymentProvider[] - All providers
+   */
+  getProviders(): PaymentProvider[] {
+    return [...this.providers.values()];
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT PAYMENT SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const paymentService = new PaymentService();
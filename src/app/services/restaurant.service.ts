@@ -7,8 +7,9 @@
  * - Fetching restaurant listings with filters
  * - Getting restaurant details
  * - Managing restaurant menus
- * - Checking seat availability
+ * - Checking table availability for a party
  * - Restaurant CRUD operations (for managers/admins)
+ * - Approving, rejecting and blocking restaurants (for admins)
  * 
  * FALLBACK BEHAVIOR:
  * When the backend is unavailable, this service automatically falls back to
@@ -22,8 +23,16 @@ import {
   DEMO_RESTAURANTS, 
   DEMO_CUISINES, 
   DEMO_MENU_ITEMS,
-  getDemoMenuByRestaurantId 
+  getDemoMenuByRestaurantId
 } from './demo-data';
+import { bookingService } from './booking.service';
+import { authService } from './auth.service';
+import { timeSlotService } from './time-slot.service';
+import type { TableGroup } from './table.service';
+
+const DEMO_RESTAURANTS_KEY = 'reservex_demo_restaurants'; // Restaurants added or edited in demo mode
+const RESTAURANT_DRAFTS_KEY = 'reservex_restaurant_drafts'; // Unfinished onboarding per manager
+const DEMO_MENUS_KEY = 'reservex_demo_menus'; // Edited menus per restaurant
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -49,14 +58,182 @@ export interface Restaurant {
   totalReviews: number;          // Total number of reviews
   openingTime: string;           // Opening time (e.g., "11:00 AM")
   closingTime: string;           // Closing time (e.g., "10:00 PM")
-  totalSeats: number;            // Total seating capacity
+  slotIntervalMinutes?: number;  // Minutes between bookable slot start times (optional)
+  diningDurationMinutes?: number; // How long a party holds its table (optional)
+  weeklySchedule?: WeeklySchedule; // Service periods per weekday (optional, overrides opening/closing time)
+  scheduleExceptions?: ScheduleException[]; // Holidays, blackout dates and special hours (optional)
+  reapprovalPolicy?: ReapprovalPolicy; // When changed bookings need confirming again (default 'booking-details')
+  cancellationPolicy?: CancellationPolicy; // Cancellation and modification rules (default DEFAULT_CANCELLATION_POLICY)
+  confirmationPolicy?: ConfirmationPolicy; // Auto-confirmation of new bookings (default: managers confirm every booking)
+  preOrderCutoffHours?: number;  // Pre-orders can be changed until this many hours before the booking (default DEFAULT_PRE_ORDER_CUTOFF_HOURS)
+  depositPolicy?: DepositPolicy; // When bookings need a deposit (default: never)
+  totalSeats: number;            // Total seating capacity (sum of table capacities)
   priceRange: string;            // Price indicator (৳, ৳৳, ৳৳৳)
   phone: string;                 // Contact phone number
   managerId?: string;            // ID of the restaurant manager (optional)
-  status: 'active' | 'pending' | 'blocked'; // Restaurant status
+  status: RestaurantStatus;      // Whether guests can find and book it
+  statusReason?: string;         // Why an admin rejected or blocked it (shown to its manager)
   createdAt: string;             // Creation timestamp (ISO format)
 }
 
+/**
+ * Restaurant Status Type
+ * Where a restaurant is in the approval process (see RESTAURANT_STATUS_TRANSITIONS)
+ */
+export type RestaurantStatus =
+  | 'pending'                    // Submitted, waiting for an admin to review it
+  | 'active'                     // Approved and listed for guests
+  | 'rejected'                   // Sent back to the manager to fix
+  | 'blocked';                   // Taken down by an admin
+
+/**
+ * Status changes an admin can make. A rejected restaurant goes back to
+ * pending when its manager saves changes to it (see updateRestaurant)
+ */
+export const RESTAURANT_STATUS_TRANSITIONS: Record<RestaurantStatus, RestaurantStatus[]> = {
+  pending: ['active', 'rejected'],
+  active: ['blocked'],
+  rejected: [],
+  blocked: ['active']
+};
+
+/**
+ * Display labels for restaurant statuses
+ */
+export const RESTAURANT_STATUS_LABELS: Record<RestaurantStatus, string> = {
+  pending: 'Waiting for Approval',
+  active: 'Live',
+  rejected: 'Changes Requested',
+  blocked: 'Blocked'
+};
+
+// CHANGEABLE: Divisions and the cities restaurants can be listed in
+export const DIVISION_CITIES: Record<string, string[]> = {
+  Dhaka: ['Dhaka', 'Gazipur', 'Narayanganj', 'Tangail', 'Faridpur'],
+  Chattogram: ['Chattogram', 'Cox\'s Bazar', 'Cumilla', 'Feni', 'Rangamati'],
+  Rajshahi: ['Rajshahi', 'Bogura', 'Pabna', 'Naogaon', 'Natore'],
+  Khulna: ['Khulna', 'Jashore', 'Kushtia', 'Satkhira', 'Bagerhat'],
+  Barishal: ['Barishal', 'Patuakhali', 'Bhola', 'Pirojpur'],
+  Sylhet: ['Sylhet', 'Moulvibazar', 'Habiganj', 'Sunamganj'],
+  Rangpur: ['Rangpur', 'Dinajpur', 'Kurigram', 'Thakurgaon'],
+  Mymensingh: ['Mymensingh', 'Jamalpur', 'Netrokona', 'Sherpur']
+};
+
+// Price indicators (৳ = budget, ৳৳ = moderate, ৳৳৳ = expensive)
+export const PRICE_RANGES = ['৳', '৳৳', '৳৳৳'];
+
+/**
+ * Restaurant Draft Interface
+ * An onboarding wizard the manager has not submitted yet
+ */
+export interface RestaurantDraft {
+  step: number;                  // Wizard step to continue from
+  restaurant: Partial<Restaurant>; // Details entered so far
+  tables: TableGroup[];          // Seating entered so far
+  menu: Pick<MenuItem, 'name' | 'description' | 'price' | 'category'>[]; // Dishes entered so far (not yet added)
+  restaurantId?: string;         // Restaurant created by a submit that didn't finish
+  savedAt: string;               // Last autosave (ISO format)
+}
+
+/**
+ * Reapproval Policy Type
+ * Decides whether a confirmed booking goes back to pending when the
+ * customer changes it
+ */
+export type ReapprovalPolicy =
+  | 'any-change'                 // Every change needs the restaurant's approval again
+  | 'booking-details'            // Only date, time slot or party size changes do
+  | 'never';                     // Confirmed bookings stay confirmed
+
+/**
+ * Cancellation Policy Interface
+ * How late customers may cancel or change their bookings
+ */
+export interface CancellationPolicy {
+  freeCancellationHours: number; // Free cancellation until this many hours before the booking
+  allowLateCancellation: boolean; // true = later cancellations are accepted but recorded as late
+  maxModifications: number;      // How many times a booking may be changed
+}
+
+// CHANGEABLE: Policy for restaurants that have not set their own
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: 24,
+  allowLateCancellation: true,
+  maxModifications: 2
+};
+
+// CHANGEABLE: Pre-order cutoff for restaurants that have not set their own
+export const DEFAULT_PRE_ORDER_CUTOFF_HOURS = 24;
+
+/**
+ * Deposit Policy Interface
+ * When a booking has to be secured with a deposit, and how much of it is
+ * paid back when the customer cancels
+ */
+export interface DepositPolicy {
+  amountPerGuest: number;        // Deposit per guest in BDT
+  minPartySize?: number;         // Parties of this size or larger pay a deposit
+  peakPeriods?: PeakPeriod[];    // Slots starting in these periods always need a deposit
+  paymentWindowMinutes?: number; // Unpaid bookings are released after this (default DEFAULT_PAYMENT_WINDOW_MINUTES)
+  lateCancellationRefundPercent?: number; // Share paid back for late cancellations, 0-100 (default 0)
+}
+
+/**
+ * Peak Period Interface
+ * Busy times of the week (e.g., Friday and Saturday dinner)
+ */
+export interface PeakPeriod {
+  days: DayOfWeek[];             // Weekdays the period applies to
+  from: string;                  // First slot start that counts (e.g., "7:00 PM")
+  to: string;                    // Slots starting at or after this don't count (e.g., "10:00 PM")
+}
+
+// CHANGEABLE: Minutes a customer has to pay a deposit before the table is released
+export const DEFAULT_PAYMENT_WINDOW_MINUTES = 15;
+
+/**
+ * Confirmation Policy Interface
+ * Whether new bookings are confirmed without a manager
+ */
+export interface ConfirmationPolicy {
+  autoConfirm: boolean;          // true = new bookings are confirmed straight away
+  requireConfirmationBelowScore?: number; // Customers with a lower reliability score (0-100) still wait for a manager
+}
+
+/**
+ * Day Of Week Type
+ * Keys of a weekly schedule, matching JavaScript's Date.getDay() order
+ */
+export type DayOfWeek = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+/**
+ * Service Period Interface
+ * One continuous stretch of opening hours (e.g., lunch or dinner service)
+ */
+export interface ServicePeriod {
+  name?: string;                 // Optional label (e.g., "Lunch", "Dinner")
+  openingTime: string;           // Start of service (e.g., "12:00 PM")
+  closingTime: string;           // End of service (e.g., "3:00 PM")
+}
+
+/**
+ * Weekly Schedule Type
+ * Service periods for each day; an empty array means closed all day
+ * Days that are left out use the restaurant's openingTime/closingTime
+ */
+export type WeeklySchedule = Partial<Record<DayOfWeek, ServicePeriod[]>>;
+
+/**
+ * Schedule Exception Interface
+ * Overrides the weekly schedule on one date (holiday, blackout, special hours)
+ */
+export interface ScheduleException {
+  date: string;                  // Affected date (YYYY-MM-DD format)
+  reason: string;                // Shown to customers (e.g., "Eid ul-Fitr")
+  closed: boolean;               // true = no bookings at all on this date
+  periods?: ServicePeriod[];     // Special hours when not closed
+}
+
 /**
  * Menu Item Interface
  * Represents a food/drink item in a restaurant's menu
@@ -72,6 +249,45 @@ export interface MenuItem {
   available: boolean;            // Whether item is currently available
 }
 
+// Menu sections, in the order they are shown
+export const MENU_CATEGORIES: MenuItem['category'][] = ['Appetizer', 'Main Course', 'Dessert', 'Drinks'];
+
+/**
+ * Table Interface
+ * Represents a physical table in a restaurant's dining room
+ * Availability is measured in tables, not in a single pool of seats
+ */
+export interface Table {
+  id: string;                    // Unique identifier for the table
+  restaurantId: string;          // ID of the restaurant this table belongs to
+  label: string;                 // Name staff use for the table (e.g., "T4")
+  capacity: number;              // Maximum number of guests the table seats
+  minPartySize: number;          // Smallest party the table should be given to
+  combinable: boolean;           // Whether it can be pushed together with other tables in its zone
+  zone: string;                  // Dining area (e.g., "Main Hall", "Rooftop")
+  shape?: TableShape;            // How the table is drawn on the floor plan
+  x?: number;                    // Left edge on the floor plan (missing = placed automatically)
+  y?: number;                    // Top edge on the floor plan
+}
+
+/**
+ * Table Shape
+ * Outline of a table on the floor plan
+ */
+export type TableShape = 'round' | 'square' | 'rectangle';
+
+/**
+ * Slot Availability Interface
+ * Result of checking a time slot for a specific party size
+ */
+export interface SlotAvailability {
+  availableSeats: number;        // Seats across all tables that are still free
+  largestParty: number;          // Biggest party that can still be seated
+  canSeat: boolean;              // Whether the requested party fits
+  tables: Table[];               // Tables that would be assigned to the party (empty if none)
+  closedReason?: string;         // Set when the restaurant takes no bookings at this time
+}
+
 /**
  * Restaurant Filters Interface
  * Used for filtering restaurant listings
@@ -97,6 +313,9 @@ class RestaurantService {
    * ─────────────────────────────────────────────────────────────────────────
    * Fetches a list of restaurants from the backend with optional filters
    * 
+   * Only active restaurants are listed (pending, rejected and blocked
+   * ones are hidden from guests)
+   * 
    * FALLBACK: Returns demo restaurants if API fails
    * 
    * @param filters - Optional filters (search, cuisine, city, etc.)
@@ -117,8 +336,8 @@ class RestaurantService {
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Using demo restaurants data.');
       
-      // Start with all demo restaurants
-      let restaurants = [...DEMO_RESTAURANTS];
+      // Start with every restaurant guests can book
+      let restaurants = this.getLocalRestaurants().filter(r => r.status === 'active');
       
       // Apply filters if provided
       if (filters) {
@@ -180,7 +399,7 @@ class RestaurantService {
       // ───────────────────────────────────────────────────────────────────
       console.warn(`Backend unavailable. Using demo data for restaurant ${id}`);
       
-      const restaurant = DEMO_RESTAURANTS.find(r => r.id === id);
+      const restaurant = this.getLocalRestaurant(id);
       
       if (!restaurant) {
         // If restaurant not found even in demo data, throw error
@@ -197,10 +416,10 @@ class RestaurantService {
    * ─────────────────────────────────────────────────────────────────────────
    * Fetches all menu items for a specific restaurant
    * 
-   * FALLBACK: Returns demo menu items if API fails
+   * FALLBACK: Returns the menu edited in demo mode, or the demo menu items
    * 
    * @param restaurantId - The ID of the restaurant
-   * @returns Promise<MenuItem[]> - Array of menu items
+   * @returns Promise<MenuItem[]> - Array of menu items in menu order
    */
   async getRestaurantMenu(restaurantId: string): Promise<MenuItem[]> {
     try {
@@ -214,7 +433,7 @@ class RestaurantService {
       // ───────────────────────────────────────────────────────────────────
       console.warn(`Backend unavailable. Using demo menu for restaurant ${restaurantId}`);
       
-      return getDemoMenuByRestaurantId(restaurantId);
+      return this.getLocalMenu(restaurantId);
     }
   }
 
@@ -224,7 +443,7 @@ class RestaurantService {
    * ─────────────────────────────────────────────────────────────────────────
    * Searches restaurants by query string
    * 
-   * FALLBACK: Searches demo restaurants if API fails
+   * FALLBACK: Searches the active demo restaurants if API fails
    * 
    * @param query - Search query string
    * @returns Promise<Restaurant[]> - Matching restaurants
@@ -243,11 +462,13 @@ class RestaurantService {
       
       const queryLower = query.toLowerCase();
       
-      return DEMO_RESTAURANTS.filter(restaurant => 
-        restaurant.name.toLowerCase().includes(queryLower) ||
-        restaurant.description.toLowerCase().includes(queryLower) ||
-        restaurant.cuisine.toLowerCase().includes(queryLower) ||
-        restaurant.location.toLowerCase().includes(queryLower)
+      return this.getLocalRestaurants().filter(restaurant => 
+        restaurant.status === 'active' && (
+          restaurant.name.toLowerCase().includes(queryLower) ||
+          restaurant.description.toLowerCase().includes(queryLower) ||
+          restaurant.cuisine.toLowerCase().includes(queryLower) ||
+          restaurant.location.toLowerCase().includes(queryLower)
+        )
       );
     }
   }
@@ -286,7 +507,8 @@ class RestaurantService {
    * ─────────────────────────────────────────────────────────────────────────
    * Checks how many seats are available for a specific date and time
    * 
-   * FALLBACK: Returns a random number of available seats (for demo purposes)
+   * FALLBACK: Counts the seats on demo tables that no demo or localStorage
+   * booking holds in the slot
    * 
    * @param restaurantId - The ID of the restaurant
    * @param date - Reservation date (YYYY-MM-DD format)
@@ -303,24 +525,54 @@ class RestaurantService {
       
     } catch (error) {
       // ───────────────────────────────────────────────────────────────────
-      // FALLBACK BEHAVIOR: Return random available seats (demo mode)
+      // FALLBACK BEHAVIOR: Calculate from stored bookings (demo mode)
       // ───────────────────────────────────────────────────────────────────
       console.warn('Backend unavailable. Returning demo availability.');
       
-      // Find the restaurant to get total seats
-      const restaurant = DEMO_RESTAURANTS.find(r => r.id === restaurantId);
-      
-      if (!restaurant) {
-        throw new Error('Restaurant not found');
-      }
+      // Party size does not affect free seats, so ask for the smallest party
+      return bookingService.getDemoAvailability(restaurantId, date, timeSlot, 1).availableSeats;
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET AVAILABILITY
+   * ─────────────────────────────────────────────────────────────────────────
+   * Checks whether a party can be seated at real tables for a date and time
+   * 
+   * FALLBACK: Uses the local availability calculator over demo and
+   * localStorage bookings
+   * 
+   * @param restaurantId - The ID of the restaurant
+   * @param date - Reservation date (YYYY-MM-DD format)
+   * @param timeSlot - Time slot (e.g., "7:00 PM")
+   * @param partySize - Number of guests
+   * @param excludeBookingId - Booking being changed (its own tables count as free)
+   * @param includeStarted - Allow a slot that has already started (walk-ins)
+   * @returns Promise<SlotAvailability> - Free seats, largest party and assigned tables
+   */
+  async getAvailability(
+    restaurantId: string,
+    date: string,
+    timeSlot: string,
+    partySize: number,
+    excludeBookingId?: string,
+    includeStarted = false
+  ): Promise<SlotAvailability> {
+    try {
+      // Make API request to check table availability for the party
+      const response = await api.get(`/restaurants/${restaurantId}/availability`, {
+        params: { date, timeSlot, partySize, excludeBookingId, includeStarted }
+      });
+      return response.data;
       
-      // Generate a random number of available seats (50-90% of total capacity)
-      // This simulates realistic availability
-      const minAvailable = Math.floor(restaurant.totalSeats * 0.5); // 50% of capacity
-      const maxAvailable = Math.floor(restaurant.totalSeats * 0.9); // 90% of capacity
-      const availableSeats = Math.floor(Math.random() * (maxAvailable - minAvailable + 1)) + minAvailable;
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Calculate from stored bookings (demo mode)
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Checking demo table availability.');
       
-      return availableSeats;
+      return bookingService.getDemoAvailability(restaurantId, date, timeSlot, partySize, { excludeBookingId, includeStarted });
     }
   }
 
@@ -331,25 +583,97 @@ class RestaurantService {
    * These functions are only accessible to restaurant managers
    */
 
+  /**
+   * GET MY RESTAURANTS
+   * Fetches the restaurants managed by the logged in manager (including
+   * ones still waiting for approval)
+   * 
+   * FALLBACK: Returns demo restaurants whose managerId matches the stored user
+   * 
+   * @returns Promise<Restaurant[]> - The manager's restaurants
+   */
+  async getMyRestaurants(): Promise<Restaurant[]> {
+    try {
+      const response = await api.get('/restaurants/my-restaurants');
+      return response.data;
+    } catch (error) {
+      console.warn('Backend unavailable. Using demo restaurants of the manager.');
+      
+      const user = authService.getStoredUser();
+      if (!user) {
+        return [];
+      }
+      
+      return this.getLocalRestaurants().filter(r => r.managerId === user.id);
+    }
+  }
+
   /**
    * CREATE RESTAURANT
-   * Allows a manager to create a new restaurant
+   * Allows a manager to add a restaurant. New restaurants start out
+   * 'pending' and are not listed until an admin approves them
+   * 
+   * FALLBACK: Saves the restaurant to localStorage
    * 
    * @param data - Partial restaurant data
    * @returns Promise<Restaurant> - The created restaurant
    */
   async createRestaurant(data: Partial<Restaurant>): Promise<Restaurant> {
     try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Submit the restaurant for approval
+      // ───────────────────────────────────────────────────────────────────
       const response = await api.post('/restaurants', data);
       return response.data;
+      
     } catch (error) {
-      throw new Error(handleApiError(error));
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Save the restaurant to localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Creating demo restaurant.');
+      
+      const user = authService.getStoredUser();
+      if (!user || user.role !== 'manager') {
+        throw new Error('Only managers can add a restaurant');
+      }
+      
+      const restaurant = this.checkRestaurant({
+        name: '',
+        cuisine: '',
+        location: '',
+        city: '',
+        division: '',
+        country: 'Bangladesh',
+        description: '',
+        image: '',
+        openingTime: '',
+        closingTime: '',
+        totalSeats: 0,
+        priceRange: '৳৳',
+        phone: '',
+        ...data,
+        // Set by the platform, not by the manager
+        id: `rest-demo-${Date.now()}`,
+        rating: 0,
+        totalReviews: 0,
+        managerId: user.id,
+        status: 'pending',
+        createdAt: new Date().toISOString()
+      });
+      
+      this.saveLocalRestaurant(restaurant);
+      
+      return restaurant;
     }
   }
 
   /**
    * UPDATE RESTAURANT
    * Allows a manager to update their restaurant information
+   * (the status, rating and manager can't be changed this way).
+   * Saving a rejected restaurant sends it back for approval
+   * 
+   * FALLBACK: Saves the changes to localStorage
    * 
    * @param id - Restaurant ID
    * @param data - Updated restaurant data
@@ -357,10 +681,127 @@ class RestaurantService {
    */
   async updateRestaurant(id: string, data: Partial<Restaurant>): Promise<Restaurant> {
     try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Update the restaurant
+      // ───────────────────────────────────────────────────────────────────
       const response = await api.put(`/restaurants/${id}`, data);
       return response.data;
+      
     } catch (error) {
-      throw new Error(handleApiError(error));
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Save the changes to localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Updating demo restaurant.');
+      
+      const user = authService.getStoredUser();
+      const current = this.getLocalRestaurant(id);
+      
+      if (!current || !user || (user.role !== 'admin' && current.managerId !== user.id)) {
+        throw new Error('Restaurant not found');
+      }
+      
+      const { status, statusReason, rating, totalReviews, managerId, createdAt, ...changes } = data;
+      const updated = this.checkRestaurant({ ...current, ...changes, id });
+      
+      if (updated.status === 'rejected') {
+        updated.status = 'pending';
+        delete updated.statusReason;
+      }
+      
+      this.saveLocalRestaurant(updated);
+      
+      return updated;
+    }
+  }
+
+  /**
+   * GET ADMIN RESTAURANTS
+   * Lists every restaurant for admins, whatever its status, oldest first
+   * 
+   * FALLBACK: Returns the demo restaurants and the ones added in demo mode
+   * 
+   * @param status - Only restaurants with this status (optional)
+   * @returns Promise<Restaurant[]> - Array of restaurants
+   */
+  async getAdminRestaurants(status?: RestaurantStatus): Promise<Restaurant[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get all restaurants
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/admin/restaurants', { params: { status } });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Use demo restaurants
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Using demo restaurants for admin.');
+      
+      if (authService.getStoredUser()?.role !== 'admin') {
+        throw new Error('Only admins can review restaurants');
+      }
+      
+      return this.getLocalRestaurants()
+        .filter(r => !status || r.status === status)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+  }
+
+  /**
+   * UPDATE RESTAURANT STATUS
+   * Lets an admin approve, reject, block or unblock a restaurant. Only the
+   * moves in RESTAURANT_STATUS_TRANSITIONS are allowed, and rejecting or
+   * blocking needs a reason, which the manager sees
+   * 
+   * FALLBACK: Saves the new status to localStorage
+   * 
+   * @param id - Restaurant ID
+   * @param status - New status
+   * @param reason - Why it was rejected or blocked
+   * @returns Promise<Restaurant> - The updated restaurant
+   */
+  async updateRestaurantStatus(id: string, status: RestaurantStatus, reason?: string): Promise<Restaurant> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Update the restaurant's status
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/admin/restaurants/${id}/status`, { status, reason });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update the demo restaurant
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Updating demo restaurant status.');
+      
+      if (authService.getStoredUser()?.role !== 'admin') {
+        throw new Error('Only admins can change a restaurant\'s status');
+      }
+      
+      const current = this.getLocalRestaurant(id);
+      if (!current) {
+        throw new Error('Restaurant not found');
+      }
+      
+      if (!RESTAURANT_STATUS_TRANSITIONS[current.status].includes(status)) {
+        throw new Error(`A ${current.status} restaurant can't be made ${status}`);
+      }
+      
+      const needsReason = status === 'rejected' || status === 'blocked';
+      if (needsReason && !reason?.trim()) {
+        throw new Error('Please give the manager a reason');
+      }
+      
+      const updated: Restaurant = { ...current, status };
+      if (needsReason) {
+        updated.statusReason = reason!.trim();
+      } else {
+        delete updated.statusReason;
+      }
+      
+      this.saveLocalRestaurant(updated);
+      
+      return updated;
     }
   }
 
@@ -386,7 +827,9 @@ class RestaurantService {
 
   /**
    * ADD MENU ITEM
-   * Adds a new item to the restaurant's menu
+   * Adds a new item to the end of its category on the restaurant's menu
+   * 
+   * FALLBACK: Saves the item to the menu in localStorage
    * 
    * @param restaurantId - Restaurant ID
    * @param item - Menu item data
@@ -394,16 +837,42 @@ class RestaurantService {
    */
   async addMenuItem(restaurantId: string, item: Partial<MenuItem>): Promise<MenuItem> {
     try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Create the menu item
+      // ───────────────────────────────────────────────────────────────────
       const response = await api.post(`/restaurants/${restaurantId}/menu`, item);
       return response.data;
+      
     } catch (error) {
-      throw new Error(handleApiError(error));
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Add to the menu in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Adding menu item locally.');
+      
+      this.checkMenuOwner(restaurantId);
+      
+      const newItem = this.checkMenuItem({
+        id: `menu-demo-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        restaurantId,
+        name: item.name ?? '',
+        description: item.description ?? '',
+        price: item.price ?? 0,
+        category: item.category ?? 'Main Course',
+        image: item.image ?? '',
+        available: item.available ?? true
+      });
+      
+      this.saveLocalMenu(restaurantId, [...this.getLocalMenu(restaurantId), newItem]);
+      
+      return newItem;
     }
   }
 
   /**
    * UPDATE MENU ITEM
-   * Updates an existing menu item
+   * Updates an existing menu item (e.g., its price or availability)
+   * 
+   * FALLBACK: Updates the item in the menu in localStorage
    * 
    * @param restaurantId - Restaurant ID
    * @param itemId - Menu item ID
@@ -412,10 +881,36 @@ class RestaurantService {
    */
   async updateMenuItem(restaurantId: string, itemId: string, data: Partial<MenuItem>): Promise<MenuItem> {
     try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Update the menu item
+      // ───────────────────────────────────────────────────────────────────
       const response = await api.put(`/restaurants/${restaurantId}/menu/${itemId}`, data);
       return response.data;
+      
     } catch (error) {
-      throw new Error(handleApiError(error));
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update the menu in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Updating menu item locally.');
+      
+      this.checkMenuOwner(restaurantId);
+      
+      const menu = this.getLocalMenu(restaurantId);
+      const current = menu.find(item => item.id === itemId);
+      
+      if (!current) {
+        throw new Error('Menu item not found');
+      }
+      
+      const updated = this.checkMenuItem({ ...current, ...data, id: itemId, restaurantId });
+      
+      // An item moved to another category goes to the end of it
+      const others = menu.filter(item => item.id !== itemId);
+      this.saveLocalMenu(restaurantId, updated.category === current.category
+        ? menu.map(item => item.id === itemId ? updated : item)
+        : [...others, updated]);
+      
+      return updated;
     }
   }
 
@@ -423,14 +918,316 @@ class RestaurantService {
    * DELETE MENU ITEM
    * Removes an item from the restaurant's menu
    * 
+   * FALLBACK: Removes the item from the menu in localStorage
+   * 
    * @param restaurantId - Restaurant ID
    * @param itemId - Menu item ID
    */
   async deleteMenuItem(restaurantId: string, itemId: string): Promise<void> {
     try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Delete the menu item
+      // ───────────────────────────────────────────────────────────────────
       await api.delete(`/restaurants/${restaurantId}/menu/${itemId}`);
+      
     } catch (error) {
-      throw new Error(handleApiError(error));
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Remove from the menu in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Deleting menu item locally.');
+      
+      this.checkMenuOwner(restaurantId);
+      
+      const menu = this.getLocalMenu(restaurantId);
+      
+      if (!menu.some(item => item.id === itemId)) {
+        throw new Error('Menu item not found');
+      }
+      
+      this.saveLocalMenu(restaurantId, menu.filter(item => item.id !== itemId));
+    }
+  }
+
+  /**
+   * REORDER MENU
+   * Sets the order items are listed in (within their categories)
+   * 
+   * FALLBACK: Saves the new order to localStorage
+   * 
+   * @param restaurantId - Restaurant ID
+   * @param itemIds - Every menu item ID, in the new order
+   * @returns Promise<MenuItem[]> - The menu in its new order
+   */
+  async reorderMenu(restaurantId: string, itemIds: string[]): Promise<MenuItem[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Save the menu order
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/restaurants/${restaurantId}/menu/order`, { itemIds });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Reorder the menu in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Reordering menu locally.');
+      
+      this.checkMenuOwner(restaurantId);
+      
+      const menu = this.getLocalMenu(restaurantId);
+      const ordered = itemIds.map(id => menu.find(item => item.id === id));
+      
+      if (ordered.length !== menu.length || ordered.some(item => !item) || new Set(itemIds).size !== itemIds.length) {
+        throw new Error('The new order has to list every menu item once');
+      }
+      
+      this.saveLocalMenu(restaurantId, ordered as MenuItem[]);
+      
+      return ordered as MenuItem[];
+    }
+  }
+
+  /**
+   * GET LOCAL MENU
+   * Demo menu of a restaurant: the menu edited in demo mode, otherwise the
+   * demo menu items (also used to check demo pre-orders)
+   * 
+   * @param restaurantId - Restaurant ID
+   * @returns MenuItem[] - Menu items in menu order
+   */
+  getLocalMenu(restaurantId: string): MenuItem[] {
+    return this.getLocalMenus()[restaurantId] ?? getDemoMenuByRestaurantId(restaurantId);
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET LOCAL RESTAURANTS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Demo restaurants with the changes saved in demo mode, followed by the
+   * restaurants added in demo mode (used by every demo fallback)
+   * 
+   * @returns Restaurant[] - Array of restaurants
+   */
+  getLocalRestaurants(): Restaurant[] {
+    const saved = this.getSavedRestaurants();
+    
+    return [
+      ...DEMO_RESTAURANTS.map(r => saved[r.id] ?? r),
+      ...Object.values(saved).filter(r => !DEMO_RESTAURANTS.some(demo => demo.id === r.id))
+    ];
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET LOCAL RESTAURANT
+   * ─────────────────────────────────────────────────────────────────────────
+   * One restaurant from getLocalRestaurants
+   * 
+   * @param id - Restaurant ID
+   * @returns Restaurant | undefined - The restaurant, if it exists
+   */
+  getLocalRestaurant(id: string): Restaurant | undefined {
+    return this.getSavedRestaurants()[id] ?? DEMO_RESTAURANTS.find(r => r.id === id);
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET DRAFT / SAVE DRAFT / CLEAR DRAFT
+   * ─────────────────────────────────────────────────────────────────────────
+   * The logged in manager's unfinished onboarding wizard. Drafts are kept
+   * in this browser until the restaurant is submitted
+   */
+  getDraft(): RestaurantDraft | null {
+    const user = authService.getStoredUser();
+    return user ? this.getDrafts()[user.id] ?? null : null;
+  }
+
+  saveDraft(draft: Omit<RestaurantDraft, 'savedAt'>): RestaurantDraft | null {
+    const user = authService.getStoredUser();
+    if (!user) {
+      return null;
+    }
+    
+    const saved = { ...draft, savedAt: new Date().toISOString() };
+    const drafts = this.getDrafts();
+    drafts[user.id] = saved;
+    
+    try {
+      localStorage.setItem(RESTAURANT_DRAFTS_KEY, JSON.stringify(drafts));
+    } catch (error) {
+      // An uploaded photo can be too big to keep; the draft stays unsaved
+      console.error('Failed to save draft:', error);
+      return null;
+    }
+    
+    return saved;
+  }
+
+  clearDraft(): void {
+    const user = authService.getStoredUser();
+    if (!user) return;
+    
+    const drafts = this.getDrafts();
+    delete drafts[user.id];
+    localStorage.setItem(RESTAURANT_DRAFTS_KEY, JSON.stringify(drafts));
+  }
+
+  /**
+   * Check a restaurant before it is saved locally
+   * @param restaurant - Restaurant to check
+   * @returns The restaurant with its text trimmed
+   */
+  private checkRestaurant(restaurant: Restaurant): Restaurant {
+    const checked = {
+      ...restaurant,
+      name: restaurant.name.trim(),
+      cuisine: restaurant.cuisine.trim(),
+      location: restaurant.location.trim(),
+      description: restaurant.description.trim(),
+      phone: restaurant.phone.trim()
+    };
+    
+    if (!checked.name) {
+      throw new Error('Please enter the restaurant\'s name');
+    }
+    
+    if (!checked.cuisine) {
+      throw new Error('Please pick a cuisine');
+    }
+    
+    if (!DIVISION_CITIES[checked.division]?.includes(checked.city)) {
+      throw new Error('Please pick a division and a city in it');
+    }
+    
+    if (!checked.location) {
+      throw new Error('Please enter the street address');
+    }
+    
+    if (!checked.phone) {
+      throw new Error('Please enter a phone number guests can call');
+    }
+    
+    const opening = timeSlotService.parseTime(checked.openingTime);
+    const closing = timeSlotService.parseTime(checked.closingTime);
+    if (opening === null || closing === null || opening === closing) {
+      throw new Error('Please set the opening and closing time');
+    }
+    
+    return checked;
+  }
+
+  /**
+   * Save a restaurant added or edited in demo mode to localStorage
+   * @param restaurant - The restaurant
+   */
+  private saveLocalRestaurant(restaurant: Restaurant): void {
+    const saved = this.getSavedRestaurants();
+    saved[restaurant.id] = restaurant;
+    
+    try {
+      localStorage.setItem(DEMO_RESTAURANTS_KEY, JSON.stringify(saved));
+    } catch (error) {
+      // Uploaded photos are stored inline and can fill up localStorage
+      throw new Error('The restaurant could not be saved. Try a smaller photo.');
+    }
+  }
+
+  /**
+   * Get the restaurants added or edited in demo mode from localStorage
+   * @returns Restaurant ID → restaurant
+   */
+  private getSavedRestaurants(): Record<string, Restaurant> {
+    try {
+      const restaurantsStr = localStorage.getItem(DEMO_RESTAURANTS_KEY);
+      return restaurantsStr ? JSON.parse(restaurantsStr) : {};
+    } catch (error) {
+      console.error('Failed to parse restaurants:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Get the saved onboarding drafts from localStorage
+   * @returns Manager ID → draft
+   */
+  private getDrafts(): Record<string, RestaurantDraft> {
+    try {
+      const draftsStr = localStorage.getItem(RESTAURANT_DRAFTS_KEY);
+      return draftsStr ? JSON.parse(draftsStr) : {};
+    } catch (error) {
+      console.error('Failed to parse drafts:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Check a menu item before it is saved locally
+   * @param item - Item to check
+   * @returns The item with its text trimmed
+   */
+  private checkMenuItem(item: MenuItem): MenuItem {
+    const name = item.name.trim();
+    
+    if (!name) {
+      throw new Error('Please enter a name for the dish');
+    }
+    
+    if (!(item.price > 0)) {
+      throw new Error(`${name} needs a price above ৳0`);
+    }
+    
+    if (!MENU_CATEGORIES.includes(item.category)) {
+      throw new Error(`${name} is not in a menu category`);
+    }
+    
+    return { ...item, name, description: item.description.trim(), image: item.image.trim() };
+  }
+
+  /**
+   * Check the logged in user may change a restaurant's menu (its manager or an admin)
+   * @param restaurantId - Restaurant ID
+   */
+  private checkMenuOwner(restaurantId: string): void {
+    const user = authService.getStoredUser();
+    const restaurant = this.getLocalRestaurant(restaurantId);
+    
+    if (!restaurant) {
+      throw new Error('Restaurant not found');
+    }
+    
+    if (!user || (user.role !== 'admin' && restaurant.managerId !== user.id)) {
+      throw new Error('You can only change your own restaurant\'s menu');
+    }
+  }
+
+  /**
+   * Save one restaurant's menu to localStorage
+   * @param restaurantId - Restaurant ID
+   * @param menu - Every item, in menu order
+   */
+  private saveLocalMenu(restaurantId: string, menu: MenuItem[]): void {
+    const menus = this.getLocalMenus();
+    menus[restaurantId] = menu;
+    
+    try {
+      localStorage.setItem(DEMO_MENUS_KEY, JSON.stringify(menus));
+    } catch (error) {
+      // Uploaded photos are stored inline and can fill up localStorage
+      throw new Error('The menu could not be saved. Try a smaller photo.');
+    }
+  }
+
+  /**
+   * Get the edited menus from localStorage
+   * @returns Restaurant ID → menu items
+   */
+  private getLocalMenus(): Record<string, MenuItem[]> {
+    try {
+      const menusStr = localStorage.getItem(DEMO_MENUS_KEY);
+      return menusStr ? JSON.parse(menusStr) : {};
+    } catch (error) {
+      console.error('Failed to parse menus:', error);
+      return {};
     }
   }
 }
@@ -333,6 +333,84 @@ class ReviewService {
     }
   }
 
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * ADMIN FUNCTIONS
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * GET ALL REVIEWS
+   * Fetches all reviews in the system, newest first (admin view)
+   * 
+   * FALLBACK: Returns all demo + localStorage reviews
+   * 
+   * @param filters - Optional filters
+   * @returns Promise<Review[]> - Array of reviews
+   */
+  async getAllReviews(filters?: {
+    userId?: string;
+    restaurantId?: string;
+  }): Promise<Review[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get all reviews
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/reviews', { params: filters });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Return all demo + localStorage reviews
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Using all demo reviews.');
+      
+      let allReviews = [...DEMO_REVIEWS, ...this.getAllLocalReviews()];
+      
+      if (filters?.userId) {
+        allReviews = allReviews.filter(r => r.userId === filters.userId);
+      }
+      
+      if (filters?.restaurantId) {
+        allReviews = allReviews.filter(r => r.restaurantId === filters.restaurantId);
+      }
+      
+      allReviews.sort((a, b) => 
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+      
+      return allReviews;
+    }
+  }
+
+  /**
+   * GET REVIEW COUNTS
+   * Counts the reviews each user has written (admin view)
+   * 
+   * FALLBACK: Counts the demo + localStorage reviews
+   * 
+   * @param userIds - Users to count for
+   * @returns Promise<Record<string, number>> - User ID → reviews
+   */
+  async getReviewCounts(userIds: string[]): Promise<Record<string, number>> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Count the users' reviews
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/reviews/counts', { params: { userIds: userIds.join(',') } });
+      return response.data;
+      
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Count the demo + localStorage reviews
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Counting demo reviews.');
+      
+      const reviews = [...DEMO_REVIEWS, ...this.getAllLocalReviews()];
+      return Object.fromEntries(userIds.map(id => [id, reviews.filter(r => r.userId === id).length]));
+    }
+  }
+
   /**
    * ═══════════════════════════════════════════════════════════════════════════
    * PRIVATE HELPER METHODS (for demo mode localStorage management)
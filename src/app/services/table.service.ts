@@ -0,0 +1,494 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TABLE SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service handles restaurant tables and table assignment:
+ * - Fetching a restaurant's table layout
+ * - Saving the floor plan a manager draws (shapes, positions, zones)
+ * - Working out which tables are taken in a time slot
+ * - Live table status (free, reserved, seated) for the floor plan
+ * - Assigning real tables to a party (single table or combined tables)
+ * - Summarising what a slot can still seat
+ *
+ * FALLBACK BEHAVIOR:
+ * When the backend is unavailable, this service uses the demo table layouts
+ * from demo-data.ts, or the floor plan saved for the restaurant in
+ * localStorage. Only the restaurant's manager (or an admin) can save its
+ * floor plan, and tables held by upcoming bookings can't be removed.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { api } from './api';
+import { getDemoTablesByRestaurantId } from './demo-data';
+import { restaurantService, Table, TableShape, SlotAvailability } from './restaurant.service';
+import { bookingService, Booking, BookingStatus } from './booking.service';
+import { authService } from './auth.service';
+import { timeSlotService } from './time-slot.service';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TYPE DEFINITIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/**
+ * Table Status
+ * What a table is doing in one time slot
+ */
+export type TableStatus = 'free' | 'reserved' | 'seated';
+
+/**
+ * Table State Interface
+ * Live status of a table on the floor plan
+ */
+export interface TableState {
+  status: TableStatus;           // Free, held for a booking, or in use
+  booking?: Booking;             // Booking holding the table (missing when free)
+}
+
+/**
+ * Table Group Interface
+ * A number of identical tables (how seating is entered while onboarding)
+ */
+export interface TableGroup {
+  capacity: number;              // Guests each table seats
+  count: number;                 // How many of these tables there are
+  zone: string;                  // Dining area they stand in
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FLOOR PLAN SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Canvas size, the grid tables snap to and the size each
+ * shape is drawn at (all in pixels)
+ */
+export const FLOOR_PLAN_WIDTH = 960;
+export const FLOOR_PLAN_HEIGHT = 600;
+export const FLOOR_PLAN_GRID = 16;
+export const TABLE_SHAPE_SIZES: Record<TableShape, { width: number; height: number }> = {
+  round: { width: 64, height: 64 },
+  square: { width: 64, height: 64 },
+  rectangle: { width: 112, height: 64 }
+};
+const FLOOR_PLAN_GAP = 32; // Space between tables that are placed automatically
+const DEMO_FLOOR_PLANS_KEY = 'reservex_demo_floor_plans'; // Saved layouts per restaurant
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TABLE ASSIGNMENT HELPERS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * Pure functions shared by the services and the demo database
+ */
+
+/**
+ * Statuses that hold a table for the booked slot
+ */
+const TABLE_HOLDING_STATUSES: BookingStatus[] = ['pending-payment', 'pending', 'confirmed', 'seated'];
+
+/**
+ * Pick the tables a party should be seated at
+ *
+ * HOW IT WORKS:
+ * 1. Prefer the smallest single table that fits the party
+ * 2. Otherwise push combinable tables together within one zone,
+ *    choosing the zone that wastes the fewest seats
+ *
+ * @param freeTables - Tables that are not taken in the slot
+ * @param partySize - Number of guests
+ * @returns Array of tables to assign, or null if the party cannot be seated
+ */
+export function assignTables(freeTables: Table[], partySize: number): Table[] | null {
+  // Tables held for bigger parties are never offered to smaller ones
+  const eligible = freeTables.filter(t => t.minPartySize <= partySize);
+
+  // Step 1: Smallest single table that fits
+  const single = eligible
+    .filter(t => t.capacity >= partySize)
+    .sort((a, b) => a.capacity - b.capacity || compareTableIds(a, b))[0];
+
+  if (single) {
+    return [single];
+  }
+
+  // Step 2: Combine tables within a zone, largest first, finishing with
+  // the smallest table that covers the guests who are still left
+  let best: Table[] | null = null;
+  let bestWaste = Infinity;
+
+  for (const zoneTables of groupByZone(eligible.filter(t => t.combinable))) {
+    const sorted = [...zoneTables].sort((a, b) => b.capacity - a.capacity || compareTableIds(a, b));
+    const picked: Table[] = [];
+    let seats = 0;
+
+    for (const table of sorted) {
+      const remaining = partySize - seats;
+      if (remaining <= 0) break;
+
+      const finisher = sorted
+        .filter(t => !picked.includes(t) && t.capacity >= remaining)
+        .sort((a, b) => a.capacity - b.capacity)[0];
+
+      if (finisher) {
+        picked.push(finisher);
+        seats += finisher.capacity;
+        break;
+      }
+
+      picked.push(table);
+      seats += table.capacity;
+    }
+
+    if (seats < partySize) continue;
+
+    const waste = seats - partySize;
+    if (!best || waste < bestWaste || (waste === bestWaste && picked.length < best.length)) {
+      best = picked;
+      bestWaste = waste;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Work out which tables are taken by the bookings of one slot
+ *
+ * @param tables - All tables of the restaurant
+ * @param slotBookings - Bookings of the same restaurant and date whose slots overlap
+ * @returns Set of occupied table IDs
+ */
+export function getOccupiedTableIds(tables: Table[], slotBookings: Booking[]): Set<string> {
+  return new Set(seatBookings(tables, slotBookings).keys());
+}
+
+/**
+ * Live status of every table in one slot
+ * Tables of seated parties are 'seated'; tables held by any other upcoming
+ * booking are 'reserved'
+ *
+ * @param tables - All tables of the restaurant
+ * @param slotBookings - Bookings of the same restaurant and date whose slots overlap
+ * @returns Table ID → state
+ */
+export function getTableStates(tables: Table[], slotBookings: Booking[]): Record<string, TableState> {
+  const seated = seatBookings(tables, slotBookings);
+
+  return Object.fromEntries(tables.map(table => {
+    const booking = seated.get(table.id);
+    const status: TableStatus = !booking ? 'free' : booking.status === 'seated' ? 'seated' : 'reserved';
+    return [table.id, { status, booking }];
+  }));
+}
+
+/**
+ * Shape a table is drawn with when none was chosen
+ * @param capacity - Seats at the table
+ * @returns Round for two, square up to four, rectangle for larger tables
+ */
+export function getDefaultTableShape(capacity: number): TableShape {
+  return capacity <= 2 ? 'round' : capacity <= 4 ? 'square' : 'rectangle';
+}
+
+/**
+ * Give every table a shape and a position on the floor plan
+ * Tables without a position are set out in rows, each zone starting on a
+ * new row below the tables that already have one
+ *
+ * @param tables - Tables of one restaurant
+ * @returns Tables with shape, x and y filled in
+ */
+export function placeTables(tables: Table[]): Table[] {
+  const placed = tables.filter(t => t.x !== undefined && t.y !== undefined);
+  let y = Math.max(0, ...placed.map(t => t.y! + TABLE_SHAPE_SIZES[t.shape ?? getDefaultTableShape(t.capacity)].height + FLOOR_PLAN_GAP));
+  const positions = new Map<string, { x: number; y: number }>();
+
+  for (const zoneTables of groupByZone(tables.filter(t => t.x === undefined || t.y === undefined))) {
+    let x = FLOOR_PLAN_GAP;
+    y += FLOOR_PLAN_GAP;
+    for (const table of zoneTables) {
+      const size = TABLE_SHAPE_SIZES[table.shape ?? getDefaultTableShape(table.capacity)];
+      if (x + size.width > FLOOR_PLAN_WIDTH - FLOOR_PLAN_GAP) {
+        x = FLOOR_PLAN_GAP;
+        y += size.height + FLOOR_PLAN_GAP;
+      }
+      positions.set(table.id, { x, y });
+      x += size.width + FLOOR_PLAN_GAP;
+    }
+    y += TABLE_SHAPE_SIZES.rectangle.height;
+  }
+
+  return tables.map(table => ({
+    ...table,
+    shape: table.shape ?? getDefaultTableShape(table.capacity),
+    ...positions.get(table.id)
+  }));
+}
+
+/**
+ * Number the tables of some table groups (T1, T2, ...) and set them out on
+ * the floor plan
+ *
+ * @param restaurantId - Restaurant the tables belong to
+ * @param groups - Table sizes, counts and zones
+ * @returns Tables ready for saveFloorPlan
+ */
+export function createTables(restaurantId: string, groups: TableGroup[]): Table[] {
+  const sizes = groups.flatMap(group => Array.from({ length: group.count }, () => group));
+
+  return placeTables(sizes.map((group, index) => ({
+    id: `table-${restaurantId}-${index + 1}`,
+    restaurantId,
+    label: `T${index + 1}`,
+    capacity: group.capacity,
+    minPartySize: 1,
+    combinable: true,
+    zone: group.zone.trim()
+  })));
+}
+
+/**
+ * Match the holding bookings of a slot to the tables they sit at
+ *
+ * Bookings that already carry tableIds keep them. Older bookings without
+ * tables are seated in the order they were made, so the result is the
+ * same every time it is calculated.
+ *
+ * @param tables - All tables of the restaurant
+ * @param slotBookings - Bookings of the slot
+ * @returns Table ID → booking at that table
+ */
+function seatBookings(tables: Table[], slotBookings: Booking[]): Map<string, Booking> {
+  const seated = new Map<string, Booking>();
+
+  const holding = slotBookings
+    .filter(b => TABLE_HOLDING_STATUSES.includes(b.status))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+
+  for (const booking of holding) {
+    if (booking.tableIds?.length) {
+      booking.tableIds.forEach(id => seated.set(id, booking));
+      continue;
+    }
+
+    const assigned = assignTables(tables.filter(t => !seated.has(t.id)), booking.seats);
+    assigned?.forEach(t => seated.set(t.id, booking));
+  }
+
+  return seated;
+}
+
+/**
+ * Summarise what a slot can still seat for a given party size
+ * @param tables - All tables of the restaurant
+ * @param occupiedIds - Tables already taken in the slot
+ * @param partySize - Number of guests asking for a table
+ * @returns SlotAvailability for the party
+ */
+export function getSlotAvailability(
+  tables: Table[],
+  occupiedIds: Set<string>,
+  partySize: number
+): SlotAvailability {
+  const freeTables = tables.filter(t => !occupiedIds.has(t.id));
+  const assigned = assignTables(freeTables, partySize);
+
+  // Largest party: best of any single free table or any zone's combined tables
+  const largestSingle = Math.max(0, ...freeTables.map(t => t.capacity));
+  const largestCombined = Math.max(
+    0,
+    ...groupByZone(freeTables.filter(t => t.combinable)).map(zone =>
+      zone.reduce((sum, t) => sum + t.capacity, 0)
+    )
+  );
+
+  return {
+    availableSeats: freeTables.reduce((sum, t) => sum + t.capacity, 0),
+    largestParty: Math.max(largestSingle, largestCombined),
+    canSeat: assigned !== null,
+    tables: assigned ?? []
+  };
+}
+
+/**
+ * Order tables by ID so that table 2 comes before table 10
+ */
+function compareTableIds(a: Table, b: Table): number {
+  return a.id.localeCompare(b.id, undefined, { numeric: true });
+}
+
+/**
+ * Split tables into one array per zone
+ * @param tables - Tables to group
+ * @returns Array of per-zone table arrays
+ */
+function groupByZone(tables: Table[]): Table[][] {
+  const zones = new Map<string, Table[]>();
+  for (const table of tables) {
+    zones.set(table.zone, [...(zones.get(table.zone) ?? []), table]);
+  }
+  return [...zones.values()];
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TABLE SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class TableService {
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET RESTAURANT TABLES
+   * ─────────────────────────────────────────────────────────────────────────
+   * Fetches the table layout of a restaurant
+   *
+   * FALLBACK: Returns the saved floor plan, or the demo table layout
+   *
+   * @param restaurantId - Restaurant ID
+   * @returns Promise<Table[]> - Array of tables
+   */
+  async getRestaurantTables(restaurantId: string): Promise<Table[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get the restaurant's tables
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get(`/restaurants/${restaurantId}/tables`);
+      return response.data;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Use demo table layout
+      // ───────────────────────────────────────────────────────────────────
+      console.warn(`Backend unavailable. Using demo tables for restaurant ${restaurantId}`);
+
+      return this.getLocalTables(restaurantId);
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * SAVE FLOOR PLAN
+   * ─────────────────────────────────────────────────────────────────────────
+   * Replaces a restaurant's tables with the layout drawn in the floor plan
+   * editor (shapes, positions, capacities and zones). Tables held by
+   * upcoming bookings can't be removed
+   *
+   * FALLBACK: Saves the layout to localStorage
+   *
+   * @param restaurantId - Restaurant ID
+   * @param tables - Every table of the new layout
+   * @returns Promise<Table[]> - The saved tables
+   */
+  async saveFloorPlan(restaurantId: string, tables: Table[]): Promise<Table[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Save the restaurant's tables
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.put(`/restaurants/${restaurantId}/tables`, { tables });
+      return response.data;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Save layout to localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Saving floor plan locally.');
+
+      const user = authService.getStoredUser();
+      const restaurant = restaurantService.getLocalRestaurant(restaurantId);
+      if (!restaurant) {
+        throw new Error('Restaurant not found');
+      }
+      if (!user || (user.role !== 'admin' && restaurant.managerId !== user.id)) {
+        throw new Error('You can only change your own restaurant\'s floor plan');
+      }
+
+      if (tables.length === 0) {
+        throw new Error('A floor plan needs at least one table');
+      }
+
+      const labels = new Set<string>();
+      for (const table of tables) {
+        const label = table.label.trim();
+        if (!label) {
+          throw new Error('Every table needs a label');
+        }
+        if (labels.has(label.toLowerCase())) {
+          throw new Error(`There are two tables called ${label}`);
+        }
+        labels.add(label.toLowerCase());
+
+        if (table.capacity < 1 || table.minPartySize < 1 || table.minPartySize > table.capacity) {
+          throw new Error(`${label} needs a capacity of at least 1 and a minimum party no larger than it`);
+        }
+        if (!table.zone.trim()) {
+          throw new Error(`${label} is not in a zone`);
+        }
+      }
+
+      // Tables held by upcoming bookings can't be taken away from under them
+      const keptIds = new Set(tables.map(table => table.id));
+      const removed = this.getLocalTables(restaurantId).filter(table => !keptIds.has(table.id));
+      for (const table of removed) {
+        const holding = bookingService.getDemoUpcomingBookings(restaurantId).find(b =>
+          TABLE_HOLDING_STATUSES.includes(b.status) && b.tableIds?.includes(table.id)
+        );
+        if (holding) {
+          throw new Error(
+            `${table.label} is booked on ${timeSlotService.parseDate(holding.date).toLocaleDateString()} at ${holding.timeSlot}. Move or cancel that booking before removing the table`
+          );
+        }
+      }
+
+      const saved = tables.map(table => ({
+        ...table,
+        restaurantId,
+        label: table.label.trim(),
+        zone: table.zone.trim()
+      }));
+
+      const floorPlans = this.getFloorPlans();
+      floorPlans[restaurantId] = saved;
+      localStorage.setItem(DEMO_FLOOR_PLANS_KEY, JSON.stringify(floorPlans));
+
+      return saved;
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET LOCAL TABLES
+   * ─────────────────────────────────────────────────────────────────────────
+   * Demo tables of a restaurant: the floor plan saved with saveFloorPlan,
+   * otherwise the demo layout (used by the demo availability checks)
+   *
+   * @param restaurantId - Restaurant ID
+   * @returns Table[] - Array of tables
+   */
+  getLocalTables(restaurantId: string): Table[] {
+    return this.getFloorPlans()[restaurantId] ?? getDemoTablesByRestaurantId(restaurantId);
+  }
+
+  /**
+   * Get the saved floor plans from localStorage
+   * @returns Restaurant ID → tables
+   */
+  private getFloorPlans(): Record<string, Table[]> {
+    try {
+      const floorPlansStr = localStorage.getItem(DEMO_FLOOR_PLANS_KEY);
+      return floorPlansStr ? JSON.parse(floorPlansStr) : {};
+    } catch (error) {
+      console.error('Failed to parse floor plans:', error);
+      return {};
+    }
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT TABLE SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const tableService = new TableService();
@@ -0,0 +1,414 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TIME SLOT SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service generates bookable time slots from a restaurant's hours:
+ * - Resolving the opening hours of a date (weekly schedule + exceptions)
+ * - Parsing "11:00 AM" style times and "6:00 PM - 8:00 PM" style slots
+ * - Generating slots at a fixed interval for a given dining duration
+ * - Hiding slots that have already started today
+ * - Checking whether two slots overlap (used by availability checks)
+ *
+ * All times are handled as minutes since midnight. A closing time at or
+ * before the opening time (e.g., "12:00 AM") means the restaurant closes
+ * after midnight.
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { Restaurant, ServicePeriod, DayOfWeek } from './restaurant.service';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TYPE DEFINITIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/**
+ * Time Slot Interface
+ * A bookable period in a restaurant's day
+ */
+export interface TimeSlot {
+  label: string;                 // Display value stored on bookings (e.g., "6:00 PM - 8:00 PM")
+  start: number;                 // Start time in minutes since midnight
+  end: number;                   // End time in minutes since midnight (may pass 1440)
+}
+
+/**
+ * Opening Hours Interface
+ * The resolved hours of a restaurant on one date
+ */
+export interface OpeningHours {
+  closed: boolean;               // true if no bookings are taken on this date
+  reason?: string;               // Why the hours differ (holiday, blackout, ...)
+  periods: ServicePeriod[];      // Service periods of the day (empty when closed)
+}
+
+/**
+ * Scheduled Restaurant Type
+ * The restaurant fields that decide when bookings can be made
+ */
+type ScheduledRestaurant = Pick<
+  Restaurant,
+  | 'openingTime'
+  | 'closingTime'
+  | 'slotIntervalMinutes'
+  | 'diningDurationMinutes'
+  | 'weeklySchedule'
+  | 'scheduleExceptions'
+>;
+
+/**
+ * Weekday keys in Date.getDay() order
+ */
+export const DAYS_OF_WEEK: DayOfWeek[] = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+];
+
+/**
+ * Slot Options Interface
+ * Controls how slots are generated
+ */
+export interface SlotOptions {
+  intervalMinutes?: number;      // Minutes between slot start times
+  durationMinutes?: number;      // How long a table is held for one party
+  now?: Date;                    // Current time (used to hide past slots)
+  includeStarted?: boolean;      // Keep today's slots that have already started
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DEFAULT SETTINGS
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CHANGEABLE: Used when neither the caller nor the restaurant sets a value
+ */
+export const DEFAULT_SLOT_INTERVAL_MINUTES = 60;    // A new slot starts every hour
+export const DEFAULT_DINING_DURATION_MINUTES = 120; // Each party gets the table for 2 hours
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TIME SLOT SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class TimeSlotService {
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET OPENING HOURS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Resolves the service periods of a restaurant on one date
+   *
+   * ORDER OF PRECEDENCE:
+   * 1. A schedule exception for the date (holiday, blackout, special hours)
+   * 2. The weekly schedule entry for the weekday
+   * 3. The restaurant's single openingTime/closingTime pair
+   *
+   * @param restaurant - Restaurant with its hours
+   * @param date - Date (YYYY-MM-DD format), or '' to get the default hours
+   * @returns OpeningHours - Whether it is closed and its service periods
+   */
+  getOpeningHours(restaurant: ScheduledRestaurant, date: string): OpeningHours {
+    const defaultPeriods: ServicePeriod[] = [
+      { openingTime: restaurant.openingTime, closingTime: restaurant.closingTime }
+    ];
+
+    if (!date) {
+      return { closed: false, periods: defaultPeriods };
+    }
+
+    const exception = restaurant.scheduleExceptions?.find(e => e.date === date);
+    if (exception) {
+      const periods = exception.closed ? [] : exception.periods ?? defaultPeriods;
+      return { closed: periods.length === 0, reason: exception.reason, periods };
+    }
+
+    const day = DAYS_OF_WEEK[this.parseDate(date).getDay()];
+    const periods = restaurant.weeklySchedule?.[day] ?? defaultPeriods;
+
+    return periods.length === 0
+      ? { closed: true, reason: `Closed on ${day.charAt(0).toUpperCase() + day.slice(1)}s`, periods }
+      : { closed: false, periods };
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET TIME SLOTS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Generates the bookable slots of a restaurant for a date
+   *
+   * Slots are generated separately inside each service period, so split
+   * lunch/dinner services never offer a slot across the break. The last
+   * slot of a period ends at its closing time. On today's date, slots that
+   * have already started are left out (unless options.includeStarted).
+   *
+   * @param restaurant - Restaurant with its hours and optional slot settings
+   * @param date - Reservation date (YYYY-MM-DD format), or '' for no date
+   * @param options - Optional interval, duration and current time
+   * @returns TimeSlot[] - Slots in start time order (empty when closed)
+   */
+  getTimeSlots(restaurant: ScheduledRestaurant, date: string, options: SlotOptions = {}): TimeSlot[] {
+    const interval = options.intervalMinutes ?? restaurant.slotIntervalMinutes ?? DEFAULT_SLOT_INTERVAL_MINUTES;
+    const duration = options.durationMinutes ?? restaurant.diningDurationMinutes ?? DEFAULT_DINING_DURATION_MINUTES;
+
+    if (interval <= 0 || duration <= 0) {
+      return [];
+    }
+
+    const slots: TimeSlot[] = [];
+    for (const period of this.getOpeningHours(restaurant, date).periods) {
+      const range = this.parsePeriod(period);
+      if (!range) continue;
+
+      for (let start = range.start; start + duration <= range.end; start += interval) {
+        slots.push({
+          label: `${this.formatTime(start)} - ${this.formatTime(start + duration)}`,
+          start,
+          end: start + duration
+        });
+      }
+    }
+    slots.sort((a, b) => a.start - b.start);
+
+    // Hide slots that have already started today
+    const now = options.now ?? new Date();
+    if (!options.includeStarted && date === this.toDateString(now)) {
+      const nowMinutes = now.getHours() * 60 + now.getMinutes();
+      return slots.filter(slot => slot.start > nowMinutes);
+    }
+
+    return slots;
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET WALK-IN SLOT
+   * ─────────────────────────────────────────────────────────────────────────
+   * The slot a party walking in now is seated in: the latest slot that has
+   * started and is still running
+   *
+   * @param restaurant - Restaurant with its hours and optional slot settings
+   * @param now - Current time
+   * @returns TimeSlot | null - null when the restaurant isn't serving now
+   */
+  getWalkInSlot(restaurant: ScheduledRestaurant, now: Date = new Date()): TimeSlot | null {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const running = this.getTimeSlots(restaurant, this.toDateString(now), { now, includeStarted: true })
+      .filter(slot => slot.start <= minutes && slot.end > minutes);
+
+    return running[running.length - 1] ?? null;
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * IS WITHIN OPENING HOURS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Checks that a slot fits completely inside one service period of the date
+   *
+   * @param restaurant - Restaurant with its hours
+   * @param date - Reservation date (YYYY-MM-DD format)
+   * @param timeSlot - Slot label
+   * @returns boolean - true if a booking may be made for this slot
+   */
+  isWithinOpeningHours(restaurant: ScheduledRestaurant, date: string, timeSlot: string): boolean {
+    const hours = this.getOpeningHours(restaurant, date);
+    const slot = this.parseTimeSlot(timeSlot);
+
+    if (hours.closed || !slot) {
+      return false;
+    }
+
+    return hours.periods.some(period => {
+      const range = this.parsePeriod(period);
+      return !!range && slot.start >= range.start && slot.end <= range.end;
+    });
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * DESCRIBE PERIODS
+   * ─────────────────────────────────────────────────────────────────────────
+   * Formats service periods for display (e.g., "12:00 PM - 3:00 PM, 6:00 PM - 11:00 PM")
+   *
+   * @param periods - Service periods
+   * @returns string - Readable hours, or "Closed" when there are none
+   */
+  describePeriods(periods: ServicePeriod[]): string {
+    if (periods.length === 0) {
+      return 'Closed';
+    }
+    return periods.map(p => `${p.openingTime} - ${p.closingTime}`).join(', ');
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * PARSE TIME
+   * ─────────────────────────────────────────────────────────────────────────
+   * Converts "7:30 PM" (or "19:30") into minutes since midnight
+   *
+   * @param time - Time string
+   * @returns number | null - Minutes since midnight, or null if unreadable
+   */
+  parseTime(time: string): number | null {
+    const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+    if (!match) {
+      return null;
+    }
+
+    let hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const period = match[3]?.toUpperCase();
+
+    if (period === 'AM' && hours === 12) hours = 0;   // 12:xx AM is just after midnight
+    if (period === 'PM' && hours !== 12) hours += 12; // 1:00 PM → 13:00
+
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * FORMAT TIME
+   * ─────────────────────────────────────────────────────────────────────────
+   * Converts minutes since midnight into "7:30 PM"
+   * Values past midnight wrap around (1500 → "1:00 AM")
+   *
+   * @param minutes - Minutes since midnight
+   * @returns string - 12-hour time string
+   */
+  formatTime(minutes: number): string {
+    const dayMinutes = ((minutes % 1440) + 1440) % 1440;
+    const hours24 = Math.floor(dayMinutes / 60);
+    const mins = dayMinutes % 60;
+    const period = hours24 < 12 ? 'AM' : 'PM';
+    const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+
+    return `${hours12}:${mins.toString().padStart(2, '0')} ${period}`;
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * PARSE TIME SLOT
+   * ─────────────────────────────────────────────────────────────────────────
+   * Reads a stored slot label back into start and end minutes
+   * Older bookings store only a start time ("7:00 PM"); they are given the
+   * default dining duration
+   *
+   * @param timeSlot - Slot label (e.g., "6:00 PM - 8:00 PM" or "7:00 PM")
+   * @returns TimeSlot | null - Parsed slot, or null if unreadable
+   */
+  parseTimeSlot(timeSlot: string): TimeSlot | null {
+    const [startText, endText] = timeSlot.split('-').map(part => part.trim());
+    const start = this.parseTime(startText);
+    if (start === null) {
+      return null;
+    }
+
+    let end = endText ? this.parseTime(endText) : start + DEFAULT_DINING_DURATION_MINUTES;
+    if (end === null) {
+      return null;
+    }
+    if (end <= start) {
+      end += 24 * 60;
+    }
+
+    return { label: timeSlot, start, end };
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * SLOTS OVERLAP
+   * ─────────────────────────────────────────────────────────────────────────
+   * Checks whether two slot labels share any time on the same day
+   * Unreadable labels only overlap when they are identical
+   *
+   * @param a - First slot label
+   * @param b - Second slot label
+   * @returns boolean - true if a table cannot serve both
+   */
+  slotsOverlap(a: string, b: string): boolean {
+    const slotA = this.parseTimeSlot(a);
+    const slotB = this.parseTimeSlot(b);
+
+    if (!slotA || !slotB) {
+      return a === b;
+    }
+
+    return slotA.start < slotB.end && slotB.start < slotA.end;
+  }
+
+  /**
+   * Read a service period into start and end minutes
+   * Closing at or before opening means the period ends after midnight
+   * @param period - Service period
+   * @returns Start/end minutes, or null if a time is unreadable
+   */
+  private parsePeriod(period: ServicePeriod): { start: number; end: number } | null {
+    const start = this.parseTime(period.openingTime);
+    let end = this.parseTime(period.closingTime);
+    if (start === null || end === null) {
+      return null;
+    }
+    if (end <= start) {
+      end += 24 * 60;
+    }
+    return { start, end };
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * PARSE DATE
+   * ─────────────────────────────────────────────────────────────────────────
+   * Reads a YYYY-MM-DD string as a local calendar date (new Date() would
+   * read it as UTC midnight, which is the day before west of UTC)
+   *
+   * @param date - Date string
+   * @returns Date - Local midnight of that day
+   */
+  parseDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET SLOT START
+   * ─────────────────────────────────────────────────────────────────────────
+   * Combines a booking date and its slot into the local start time
+   *
+   * @param date - Date (YYYY-MM-DD format)
+   * @param timeSlot - Slot label (e.g., "7:00 PM - 9:00 PM")
+   * @returns Date | null - Start of the slot, or null if unreadable
+   */
+  getSlotStart(date: string, timeSlot: string): Date | null {
+    const slot = this.parseTimeSlot(timeSlot);
+    if (!date || !slot) {
+      return null;
+    }
+
+    const start = this.parseDate(date);
+    start.setMinutes(slot.start);
+    return start;
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * TO DATE STRING
+   * ─────────────────────────────────────────────────────────────────────────
+   * Formats a local date as YYYY-MM-DD (the format bookings use)
+   *
+   * @param date - Date to format
+   * @returns string - Local calendar date
+   */
+  toDateString(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT TIME SLOT SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const timeSlotService = new TimeSlotService();
@@ -0,0 +1,475 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * WAITLIST SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * This service handles the waitlist for fully booked time slots:
+ * - Joining the waitlist for a date, slot and party size
+ * - Showing the customer's waitlist entries and their position
+ * - Offering freed seats to the first matching customer when a booking
+ *   in the slot is cancelled
+ * - Claiming an offer (turns it into a booking) within the claim window
+ * - Leaving the waitlist
+ *
+ * FALLBACK BEHAVIOR:
+ * When the backend is unavailable, waitlist entries are stored in
+ * localStorage and offers are made by the demo availability calculator.
+ *
+ * CHANGEABLE SETTINGS:
+ * - Claim window (CLAIM_WINDOW_MINUTES, currently 30 minutes)
+ *
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { api } from './api';
+import { authService } from './auth.service';
+import { restaurantService } from './restaurant.service';
+import { bookingService, Booking } from './booking.service';
+import { timeSlotService } from './time-slot.service';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * TYPE DEFINITIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+/**
+ * Waitlist Entry Interface
+ * A customer waiting for a table in a fully booked slot
+ */
+export interface WaitlistEntry {
+  id: string;                    // Unique waitlist entry identifier
+  restaurantId: string;          // ID of the restaurant
+  userId: string;                // ID of the waiting customer
+  date: string;                  // Wanted date (YYYY-MM-DD format)
+  timeSlot: string;              // Wanted time slot (e.g., "7:00 PM - 9:00 PM")
+  seats: number;                 // Party size
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'left';  // Entry status
+  position?: number;             // Place in the queue while waiting (1 = next)
+  offeredAt?: string;            // When seats were offered (ISO format)
+  offerExpiresAt?: string;       // Offer must be claimed before this time (ISO format)
+  bookingId?: string;            // Booking created when the offer was claimed
+  customerName: string;          // Name for the reservation
+  customerEmail: string;         // Contact email
+  customerPhone: string;         // Contact phone number
+  createdAt: string;             // When the customer joined (ISO format)
+  updatedAt: string;             // Last update time (ISO format)
+  restaurant?: {                 // Optional populated restaurant data
+    id: string;
+    name: string;
+    image: string;
+    location: string;
+  };
+}
+
+/**
+ * Join Waitlist Data Interface
+ * Data required to join the waitlist (same fields as a booking request)
+ */
+export interface JoinWaitlistData {
+  restaurantId: string;          // Which restaurant
+  date: string;                  // Wanted date
+  timeSlot: string;              // Wanted time slot
+  seats: number;                 // Number of people
+  customerName: string;          // Name for reservation
+  customerEmail: string;         // Contact email
+  customerPhone: string;         // Contact phone
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SETTINGS & LOCAL STORAGE KEYS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+// CHANGEABLE: How long a customer has to claim offered seats
+export const CLAIM_WINDOW_MINUTES = 30;
+
+const DEMO_WAITLIST_KEY = 'reservex_demo_waitlist'; // Key for storing demo waitlist entries
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * WAITLIST SERVICE CLASS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+class WaitlistService {
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * JOIN WAITLIST
+   * ─────────────────────────────────────────────────────────────────────────
+   * Puts the customer in the queue for a fully booked slot
+   *
+   * FALLBACK: Stores the entry in localStorage
+   *
+   * @param data - Date, slot, party size and contact details
+   * @returns Promise<WaitlistEntry> - The new entry with its position
+   */
+  async joinWaitlist(data: JoinWaitlistData): Promise<WaitlistEntry> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Join the waitlist on backend
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post('/waitlist', data);
+      return response.data;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Add entry to localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Joining waitlist locally.');
+
+      const user = authService.getStoredUser();
+      if (!user) {
+        throw new Error('You must be logged in to join the waitlist');
+      }
+
+      const restaurant = restaurantService.getLocalRestaurant(data.restaurantId);
+      if (!restaurant) {
+        throw new Error('Restaurant not found');
+      }
+
+      this.refreshOffers();
+
+      const entries = this.getAllLocalEntries();
+      const alreadyWaiting = entries.some(e =>
+        e.userId === user.id &&
+        e.restaurantId === data.restaurantId &&
+        e.date === data.date &&
+        e.timeSlot === data.timeSlot &&
+        (e.status === 'waiting' || e.status === 'offered')
+      );
+
+      if (alreadyWaiting) {
+        throw new Error('You are already on the waitlist for this time slot');
+      }
+
+      // Only full slots have a waitlist
+      const availability = bookingService.getDemoAvailability(
+        data.restaurantId, data.date, data.timeSlot, data.seats, { forUserId: user.id }
+      );
+      if (availability.closedReason) {
+        throw new Error(availability.closedReason);
+      }
+      if (availability.canSeat) {
+        throw new Error('A table is still available for this time slot. Please book it directly');
+      }
+
+      const now = new Date().toISOString();
+      const newEntry: WaitlistEntry = {
+        id: `waitlist-demo-${Date.now()}`, // Unique ID based on timestamp
+        restaurantId: data.restaurantId,
+        userId: user.id,
+        date: data.date,
+        timeSlot: data.timeSlot,
+        seats: data.seats,
+        status: 'waiting',
+        customerName: data.customerName,
+        customerEmail: data.customerEmail,
+        customerPhone: data.customerPhone,
+        createdAt: now,
+        updatedAt: now,
+        restaurant: {
+          id: restaurant.id,
+          name: restaurant.name,
+          image: restaurant.image,
+          location: restaurant.location
+        }
+      };
+
+      entries.push(newEntry);
+      this.saveAllLocalEntries(entries);
+
+      return this.withPosition(newEntry, entries);
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * GET MY WAITLIST
+   * ─────────────────────────────────────────────────────────────────────────
+   * Fetches the current user's waitlist entries (newest first)
+   *
+   * FALLBACK: Reads localStorage entries, expiring offers that ran out
+   *
+   * @returns Promise<WaitlistEntry[]> - Entries with their queue position
+   */
+  async getMyWaitlist(): Promise<WaitlistEntry[]> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Get user's waitlist entries
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.get('/waitlist/my-entries');
+      return response.data;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Return localStorage entries
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Using local waitlist.');
+
+      const user = authService.getStoredUser();
+      if (!user) {
+        return [];
+      }
+
+      this.refreshOffers();
+
+      const entries = this.getAllLocalEntries();
+      return entries
+        .filter(e => e.userId === user.id)
+        .map(e => this.withPosition(e, entries))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * LEAVE WAITLIST
+   * ─────────────────────────────────────────────────────────────────────────
+   * Removes the customer from the queue (or declines an open offer)
+   *
+   * FALLBACK: Marks the localStorage entry as left
+   *
+   * @param id - Waitlist entry ID
+   */
+  async leaveWaitlist(id: string): Promise<void> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Leave the waitlist on backend
+      // ───────────────────────────────────────────────────────────────────
+      await api.delete(`/waitlist/${id}`);
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Update entry in localStorage
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Leaving waitlist locally.');
+
+      // Only the customer on the waitlist can act on their entry
+      const user = authService.getStoredUser();
+      const entry = this.getAllLocalEntries().find(e => e.id === id);
+      if (!entry || !user || entry.userId !== user.id) {
+        throw new Error('Waitlist entry not found');
+      }
+
+      const declinedOffer = entry.status === 'offered';
+      this.updateLocalEntry(id, { status: 'left' });
+
+      // Seats that were offered go to the next customer in line
+      if (declinedOffer) {
+        this.offerFreedSeats(entry.restaurantId, entry.date, entry.timeSlot);
+      }
+    }
+  }
+
+  /**
+   * ─────────────────────────────────────────────────────────────────────────
+   * CLAIM OFFER
+   * ─────────────────────────────────────────────────────────────────────────
+   * Turns offered seats into a booking before the claim window closes
+   *
+   * FALLBACK: Creates the booking through bookingService.createBooking
+   *
+   * @param id - Waitlist entry ID
+   * @returns Promise<Booking> - The new booking
+   */
+  async claimOffer(id: string): Promise<Booking> {
+    try {
+      // ───────────────────────────────────────────────────────────────────
+      // BACKEND REQUEST: Claim the offer on backend
+      // ───────────────────────────────────────────────────────────────────
+      const response = await api.post(`/waitlist/${id}/claim`);
+      return response.data;
+
+    } catch (error) {
+      // ───────────────────────────────────────────────────────────────────
+      // FALLBACK BEHAVIOR: Create the booking locally
+      // ───────────────────────────────────────────────────────────────────
+      console.warn('Backend unavailable. Claiming waitlist offer locally.');
+
+      this.refreshOffers();
+
+      // Only the customer on the waitlist can act on their entry
+      const user = authService.getStoredUser();
+      const entry = this.getAllLocalEntries().find(e => e.id === id);
+      if (!entry || !user || entry.userId !== user.id) {
+        throw new Error('Waitlist entry not found');
+      }
+
+      if (entry.status === 'expired') {
+        throw new Error('This offer has expired');
+      }
+
+      if (entry.status !== 'offered') {
+        throw new Error('There is no open offer for this waitlist entry');
+      }
+
+      // The offer holds the seats for this customer, so the booking fits
+      const booking = await bookingService.createBooking({
+        restaurantId: entry.restaurantId,
+        date: entry.date,
+        timeSlot: entry.timeSlot,
+        seats: entry.seats,
+        customerName: entry.customerName,
+        customerEmail: entry.customerEmail,
+        customerPhone: entry.customerPhone
+      });
+
+      this.updateLocalEntry(id, { status: 'claimed', bookingId: booking.id });
+
+      return booking;
+    }
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * DEMO QUEUE (used by the booking service when the backend is down)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * GET DEMO HELD OFFERS
+   * Open offers of a restaurant and date; their seats are held for the
+   * offered customer until the claim window closes
+   *
+   * @param restaurantId - Restaurant ID
+   * @param date - Date (YYYY-MM-DD format)
+   * @returns WaitlistEntry[] - Offers that still hold seats
+   */
+  getDemoHeldOffers(restaurantId: string, date: string): WaitlistEntry[] {
+    const now = new Date().toISOString();
+    return this.getAllLocalEntries().filter(e =>
+      e.restaurantId === restaurantId &&
+      e.date === date &&
+      e.status === 'offered' &&
+      !!e.offerExpiresAt && e.offerExpiresAt > now
+    );
+  }
+
+  /**
+   * OFFER FREED SEATS
+   * Offers a slot's freed seats to the first waiting customer whose party
+   * now fits, starting their claim window
+   *
+   * @param restaurantId - Restaurant ID
+   * @param date - Date of the freed seats
+   * @param timeSlot - Time slot of the freed seats
+   * @returns WaitlistEntry | null - The entry that got the offer, if any
+   */
+  offerFreedSeats(restaurantId: string, date: string, timeSlot: string): WaitlistEntry | null {
+    const waiting = this.getAllLocalEntries()
+      .filter(e =>
+        e.restaurantId === restaurantId &&
+        e.date === date &&
+        e.status === 'waiting' &&
+        timeSlotService.slotsOverlap(e.timeSlot, timeSlot)
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const next = waiting.find(e =>
+      bookingService.getDemoAvailability(e.restaurantId, e.date, e.timeSlot, e.seats, { forUserId: e.userId }).canSeat
+    );
+
+    if (!next) {
+      return null;
+    }
+
+    const offeredAt = new Date();
+    const expiresAt = new Date(offeredAt.getTime() + CLAIM_WINDOW_MINUTES * 60 * 1000);
+
+    return this.updateLocalEntry(next.id, {
+      status: 'offered',
+      offeredAt: offeredAt.toISOString(),
+      offerExpiresAt: expiresAt.toISOString()
+    });
+  }
+
+  /**
+   * ═══════════════════════════════════════════════════════════════════════════
+   * PRIVATE HELPER METHODS (for demo mode localStorage management)
+   * ═══════════════════════════════════════════════════════════════════════════
+   */
+
+  /**
+   * Expire offers whose claim window has closed and pass their seats on
+   */
+  private refreshOffers(): void {
+    const now = new Date().toISOString();
+    const expired = this.getAllLocalEntries().filter(e =>
+      e.status === 'offered' && (!e.offerExpiresAt || e.offerExpiresAt <= now)
+    );
+
+    for (const entry of expired) {
+      this.updateLocalEntry(entry.id, { status: 'expired' });
+      this.offerFreedSeats(entry.restaurantId, entry.date, entry.timeSlot);
+    }
+  }
+
+  /**
+   * Add the queue position to a waiting entry
+   * @param entry - Entry to number
+   * @param entries - All entries (to find the ones ahead of it)
+   * @returns Entry with position set while it is waiting
+   */
+  private withPosition(entry: WaitlistEntry, entries: WaitlistEntry[]): WaitlistEntry {
+    if (entry.status !== 'waiting') {
+      return { ...entry, position: undefined };
+    }
+
+    const ahead = entries.filter(e =>
+      e.status === 'waiting' &&
+      e.restaurantId === entry.restaurantId &&
+      e.date === entry.date &&
+      e.timeSlot === entry.timeSlot &&
+      e.createdAt < entry.createdAt
+    );
+
+    return { ...entry, position: ahead.length + 1 };
+  }
+
+  /**
+   * Update one localStorage entry
+   * @param id - Entry ID
+   * @param changes - Fields to change
+   * @returns The updated entry
+   */
+  private updateLocalEntry(id: string, changes: Partial<WaitlistEntry>): WaitlistEntry {
+    const entries = this.getAllLocalEntries();
+    const index = entries.findIndex(e => e.id === id);
+
+    entries[index] = { ...entries[index], ...changes, updatedAt: new Date().toISOString() };
+    this.saveAllLocalEntries(entries);
+
+    return entries[index];
+  }
+
+  /**
+   * Get all waitlist entries from localStorage
+   * @returns Array of entries
+   */
+  private getAllLocalEntries(): WaitlistEntry[] {
+    try {
+      const entriesStr = localStorage.getItem(DEMO_WAITLIST_KEY);
+      return entriesStr ? JSON.parse(entriesStr) : [];
+    } catch (error) {
+      console.error('Failed to parse local waitlist:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save all waitlist entries to localStorage
+   * @param entries - Array of entries to save
+   */
+  private saveAllLocalEntries(entries: WaitlistEntry[]): void {
+    localStorage.setItem(DEMO_WAITLIST_KEY, JSON.stringify(entries));
+  }
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EXPORT WAITLIST SERVICE INSTANCE
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+export const waitlistService = new WaitlistService();